@@ -9,6 +9,14 @@ import { createSkillsCommand } from './commands/skills.js';
 import { createSubagentsCommand } from './commands/subagents.js';
 import { createRulesCommand } from './commands/rules.js';
 import { createPluginCommand } from './commands/plugin.js';
+import { createInstallCommand } from './commands/install.js';
+import { createLockCommand } from './commands/lock.js';
+import { createRollbackCommand } from './commands/rollback.js';
+import { createVerifyCommand } from './commands/verify.js';
+import { createSbomCommand } from './commands/sbom.js';
+import { createCacheCommand } from './commands/cache.js';
+import { createDevCommand } from './commands/dev.js';
+import { createFindCommand } from './commands/find.js';
 import { registerSystemCommands } from './commands/system.js';
 
 const program = new Command();
@@ -23,6 +31,14 @@ program.addCommand(createSkillsCommand());
 program.addCommand(createSubagentsCommand());
 program.addCommand(createRulesCommand());
 program.addCommand(createPluginCommand());
+program.addCommand(createInstallCommand());
+program.addCommand(createLockCommand());
+program.addCommand(createRollbackCommand());
+program.addCommand(createVerifyCommand());
+program.addCommand(createSbomCommand());
+program.addCommand(createCacheCommand());
+program.addCommand(createDevCommand());
+program.addCommand(createFindCommand());
 
 // Register system commands (doctor, check, update)
 registerSystemCommands(program);
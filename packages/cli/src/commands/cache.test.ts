@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { mkdir, mkdtemp, rm, symlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { HttpCacheEntry } from '@coding-agent-fabric/core';
+import { findCacheLinks, formatSize, getTotalSize } from './cache.js';
+
+describe('cache command', () => {
+  it('formats sizes', () => {
+    expect(formatSize(512)).toBe('512 B');
+    expect(formatSize(1536)).toBe('1.5 KB');
+    expect(formatSize(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+
+  it('counts shared downloads once', () => {
+    const entry = (url: string, contentHash: string, size: number): HttpCacheEntry => ({
+      url,
+      contentHash,
+      size,
+      fetchedAt: '2026-01-01T00:00:00.000Z',
+    });
+    expect(getTotalSize([entry('a', 'x', 100), entry('b', 'x', 100), entry('c', 'y', 50)])).toBe(
+      150,
+    );
+  });
+
+  it('finds installed resources that link into the cache', async () => {
+    const testDir = await mkdtemp(join(tmpdir(), 'cache-links-'));
+    try {
+      const cacheDir = join(testDir, 'cache');
+      const projectRoot = join(testDir, 'project');
+      await mkdir(join(cacheDir, 'github', 'owner', 'repo', 'react'), { recursive: true });
+      await mkdir(join(projectRoot, '.claude', 'skills', 'copied'), { recursive: true });
+      await symlink(
+        join(cacheDir, 'github', 'owner', 'repo', 'react'),
+        join(projectRoot, '.claude', 'skills', 'react'),
+      );
+
+      const entry = (name: string) => ({
+        name,
+        installedFor: [
+          {
+            agent: 'claude-code' as const,
+            scope: 'project' as const,
+            path: `.claude/skills/${name}`,
+          },
+        ],
+      });
+      const links = await findCacheLinks(
+        [entry('react'), entry('copied'), entry('missing')],
+        cacheDir,
+        projectRoot,
+      );
+      expect(links).toEqual([
+        {
+          name: 'react',
+          agent: 'claude-code',
+          scope: 'project',
+          path: join(projectRoot, '.claude', 'skills', 'react'),
+        },
+      ]);
+    } finally {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Cache commands - inspect and maintain the download cache
+ */
+
+import { Command } from 'commander';
+import { lstat, readlink } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { cwd } from 'node:process';
+import { LockManager, SourceParser, type HttpCacheEntry } from '@coding-agent-fabric/core';
+import {
+  isPathInside,
+  type AgentType,
+  type ResourceLockEntry,
+  type Scope,
+} from '@coding-agent-fabric/common';
+import type { CacheCleanCommandOptions } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { fromLockPath } from '../utils/lock.js';
+
+/**
+ * An installed resource that is a symbolic link into the cache
+ */
+export interface CacheLink {
+  name: string;
+  agent: AgentType;
+  scope: Scope;
+  path: string;
+}
+
+/**
+ * Create cache command
+ */
+export function createCacheCommand(): Command {
+  const cmd = new Command('cache').description('Manage the cache of downloaded sources');
+
+  // List subcommand
+  cmd
+    .command('ls')
+    .description('List cached downloads')
+    .action(async () => {
+      try {
+        await listCache();
+      } catch (error) {
+        logger.error(`Failed to list cache: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  // Clean subcommand
+  cmd
+    .command('clean')
+    .description('Delete every cached download')
+    .option('-f, --force', 'Delete the cache even if installed resources link into it')
+    .action(async (options: CacheCleanCommandOptions) => {
+      try {
+        await cleanCache(options);
+      } catch (error) {
+        logger.error(`Failed to clean cache: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  // Verify subcommand
+  cmd
+    .command('verify')
+    .description('Check cached downloads against their recorded SHA-256 digests')
+    .action(async () => {
+      try {
+        const clean = await verifyCache();
+        if (!clean) {
+          process.exit(1);
+        }
+      } catch (error) {
+        logger.error(`Failed to verify cache: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+/**
+ * Print every cached download with its size and age
+ */
+async function listCache(): Promise<void> {
+  const parser = new SourceParser();
+  const entries = await parser.listCache();
+
+  if (entries.length === 0) {
+    logger.info(`No cached downloads in ${parser.getCacheDir()}`);
+    return;
+  }
+
+  logger.header(`Cached Downloads (${parser.getCacheDir()})`);
+  for (const entry of entries) {
+    logger.log(
+      `  ${entry.contentHash.slice(0, 12)}  ${formatSize(entry.size).padStart(9)}  ${entry.fetchedAt}  ${entry.url}`,
+    );
+  }
+  logger.log(`\n${entries.length} download(s), ${formatSize(getTotalSize(entries))}`);
+}
+
+/**
+ * Delete the cache, unless resources installed in symlink mode still point into it.
+ * The cache is shared by every project, but only this project's and the global lock file
+ * can be checked.
+ */
+async function cleanCache(options: CacheCleanCommandOptions): Promise<void> {
+  const projectRoot = cwd();
+  const parser = new SourceParser();
+  const lockManager = new LockManager({ projectRoot });
+
+  const entries = Object.values(await lockManager.getAllResources());
+  const links = await findCacheLinks(entries, parser.getCacheDir(), projectRoot);
+  for (const link of links) {
+    logger.warn(`${link.name} (${link.agent}, ${link.scope}) is a symbolic link into the cache`);
+  }
+  if (links.length > 0 && !options.force) {
+    throw new Error(
+      `${links.length} installed resource(s) would break; reinstall them with --mode copy ` +
+        'or pass --force to clean anyway',
+    );
+  }
+
+  logger.warn(
+    'Only this project and global installs were checked; symlink-mode installs in other ' +
+      'projects that point into the cache will break',
+  );
+  await parser.clearCache();
+  logger.success(`Cleared ${parser.getCacheDir()}`);
+}
+
+/**
+ * Find the install targets of lock entries that are symbolic links into the cache
+ */
+export async function findCacheLinks(
+  entries: Pick<ResourceLockEntry, 'name' | 'installedFor'>[],
+  cacheDir: string,
+  projectRoot: string,
+): Promise<CacheLink[]> {
+  const links: CacheLink[] = [];
+  for (const entry of entries) {
+    for (const target of entry.installedFor) {
+      const path = fromLockPath(target.path, target.scope, projectRoot);
+      try {
+        if (!(await lstat(path)).isSymbolicLink()) {
+          continue;
+        }
+        const linkTarget = resolve(dirname(path), await readlink(path));
+        if (isPathInside(linkTarget, cacheDir)) {
+          links.push({ name: entry.name, agent: target.agent, scope: target.scope, path });
+        }
+      } catch {
+        // Targets that no longer exist cannot break
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Re-hash every cached download.
+ * Returns false when any download is missing or corrupt.
+ */
+async function verifyCache(): Promise<boolean> {
+  const parser = new SourceParser();
+  const results = await parser.verifyCache();
+
+  const problems = results.filter((result) => result.status !== 'ok');
+  for (const { entry, status } of problems) {
+    logger.error(`${entry.url}: ${status === 'missing' ? 'missing from the cache' : 'corrupt'}`);
+  }
+
+  if (problems.length > 0) {
+    logger.error(
+      `${problems.length} cached download(s) failed verification; run 'caf cache clean' to remove them`,
+    );
+    return false;
+  }
+
+  logger.success(`Verified ${results.length} cached download(s)`);
+  return true;
+}
+
+/**
+ * Size of the cached downloads, counting shared content once
+ */
+export function getTotalSize(entries: HttpCacheEntry[]): number {
+  const sizes = new Map(entries.map((entry) => [entry.contentHash, entry.size]));
+  return [...sizes.values()].reduce((total, size) => total + size, 0);
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${size} ${units[unit]}` : `${size.toFixed(1)} ${units[unit]}`;
+}
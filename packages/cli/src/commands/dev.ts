@@ -0,0 +1,174 @@
+/**
+ * Dev commands - live-sync a local source while authoring resources
+ */
+
+import { Command } from 'commander';
+import { existsSync, watch } from 'node:fs';
+import { resolve } from 'node:path';
+import { cwd } from 'node:process';
+import type { Resource } from '@coding-agent-fabric/common';
+import type { DevLinkCommandOptions, DevUnlinkCommandOptions } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { spinner } from '../utils/spinner.js';
+import { selectAgents } from '../utils/prompts.js';
+import { loadResourceHandlers } from '../utils/handlers.js';
+import {
+  createDevLink,
+  getDevLinkDir,
+  readDevLink,
+  removeDevLink,
+  syncDevLink,
+  type DevLinkSyncResult,
+} from '../utils/dev-link.js';
+
+// Editors write a file in several steps; wait for them to settle before syncing
+const SYNC_DELAY_MS = 200;
+
+/**
+ * Create dev command
+ */
+export function createDevCommand(): Command {
+  const cmd = new Command('dev').description('Develop resources from a local directory');
+
+  cmd
+    .command('link')
+    .description('Install resources from a local directory and re-install them as they change')
+    .argument('<path>', 'Directory with the resources being authored')
+    .option('--type <type>', 'Resource type to link (e.g., skills, rules, subagents)', 'skills')
+    .option('--agent <agent>', 'Target specific agent')
+    .option('-g, --global', 'Install globally')
+    .option('-y, --yes', 'Skip confirmation prompts')
+    .option('--no-watch', 'Install once without watching for changes')
+    .action(async (path: string, options: DevLinkCommandOptions) => {
+      try {
+        await link(path, options);
+      } catch (error) {
+        logger.error(`Failed to link: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command('unlink')
+    .description('Remove linked resources and restore what was installed before')
+    .option('-g, --global', 'Unlink a global link')
+    .action(async (options: DevUnlinkCommandOptions) => {
+      try {
+        await unlink(options);
+      } catch (error) {
+        logger.error(`Failed to unlink: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+/**
+ * Link a local directory, then watch it until interrupted
+ */
+async function link(path: string, options: DevLinkCommandOptions): Promise<void> {
+  const projectRoot = cwd();
+  const source = resolve(path);
+  if (!existsSync(source)) {
+    throw new Error(`Local path does not exist: ${source}`);
+  }
+
+  const handler = (await loadResourceHandlers(projectRoot)).get(options.type);
+  if (!handler) {
+    throw new Error(`No handler for resource type: ${options.type}`);
+  }
+
+  let agents = options.agent ? [options.agent] : handler.getSupportedAgents();
+  if (!options.yes && !options.agent) {
+    agents = await selectAgents(handler.getSupportedAgents());
+  }
+  if (agents.length === 0) {
+    logger.warn('No agents selected');
+    return;
+  }
+
+  // The lock file is left alone: linked resources are only installed while they are authored
+  const scope = options.global ? 'global' : 'project';
+  const dir = getDevLinkDir(projectRoot, scope);
+  const devLink = await createDevLink(dir, handler, source, { agents, scope });
+
+  const installed = new Map<string, { resource: Resource; hash: string }>();
+  spinner.start(`Installing ${handler.displayName.toLowerCase()} from ${source}...`);
+  let result: DevLinkSyncResult;
+  try {
+    result = await syncDevLink(dir, handler, devLink, installed);
+  } catch (error) {
+    spinner.fail(`Failed to install from ${source}`);
+    await removeDevLink(dir);
+    throw error;
+  }
+  spinner.succeed(`Linked ${result.installed.length} resource(s) from ${source}`);
+  reportFailures(result);
+
+  if (!options.watch) {
+    logger.info('Run "caf dev unlink" to restore the previous state');
+    return;
+  }
+
+  logger.info(`Watching ${source} for changes (Ctrl+C to stop)`);
+  await watchSource(source, async () => {
+    const result = await syncDevLink(dir, handler, devLink, installed);
+    for (const name of result.installed) {
+      logger.success(`Resynced ${name}`);
+    }
+    for (const name of result.removed) {
+      logger.success(`Removed ${name}`);
+    }
+    reportFailures(result);
+  });
+  logger.info('Stopped watching; run "caf dev unlink" to restore the previous state');
+}
+
+/**
+ * Call `sync` after each burst of changes below a directory until the process is interrupted.
+ * Syncs never overlap; changes made during a sync trigger another one.
+ */
+async function watchSource(source: string, sync: () => Promise<void>): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const watcher = watch(source, { recursive: true }, () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      running = running.then(sync).catch((error) => {
+        logger.error(`Failed to resync: ${error instanceof Error ? error.message : error}`);
+      });
+    }, SYNC_DELAY_MS);
+  });
+
+  await new Promise<void>((resolve) => process.once('SIGINT', resolve));
+  clearTimeout(timer);
+  watcher.close();
+  await running;
+}
+
+/**
+ * Log the resources that failed to install, typically while a file is being edited
+ */
+function reportFailures(result: DevLinkSyncResult): void {
+  for (const failure of result.failed) {
+    logger.warn(`Failed to install ${failure.name}: ${failure.error}`);
+  }
+}
+
+/**
+ * Restore the install paths of the active link
+ */
+async function unlink(options: DevUnlinkCommandOptions): Promise<void> {
+  const dir = getDevLinkDir(cwd(), options.global ? 'global' : 'project');
+  const devLink = await readDevLink(dir);
+  if (!devLink) {
+    logger.info('Nothing is linked');
+    return;
+  }
+
+  spinner.start(`Restoring the state before ${devLink.source} was linked...`);
+  await removeDevLink(dir);
+  spinner.succeed(`Unlinked ${devLink.source}`);
+}
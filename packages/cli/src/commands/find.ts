@@ -0,0 +1,213 @@
+/**
+ * Find command - search the registry and install from the results
+ */
+
+import { Command } from 'commander';
+import { cwd } from 'node:process';
+import {
+  LockManager,
+  RegistryClient,
+  type RegistryResource,
+  type RegistrySearchResult,
+} from '@coding-agent-fabric/core';
+import type { Scope } from '@coding-agent-fabric/common';
+import type { AddOptions, FindCommandOptions } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { spinner } from '../utils/spinner.js';
+import { selectAgents, selectRegistryResource } from '../utils/prompts.js';
+import { fetchSource } from '../utils/fetch.js';
+import { getHandlerId, getResourceAgents, loadResourceHandlers } from '../utils/handlers.js';
+import { createLockEntry, describeSource, installEach, toLockPath } from '../utils/lock.js';
+import { addSkills } from './skills.js';
+import { addRules } from './rules.js';
+import { addSubagents } from './subagents.js';
+
+/**
+ * Install flows for the core resource types; other types are installed by their plugin's handler
+ */
+const ADD_FLOWS: Record<string, (source: string, options: AddOptions) => Promise<void>> = {
+  skills: addSkills,
+  rules: addRules,
+  subagents: addSubagents,
+};
+
+/**
+ * Create find command
+ */
+export function createFindCommand(): Command {
+  return new Command('find')
+    .description('Search the registry for resources')
+    .argument('[query]', 'Keywords to search for')
+    .option('--type <type>', 'Only resources of a type (e.g., skills, rules, subagents)')
+    .option('--agent <agent>', 'Only resources for an agent; also the agent to install for')
+    .option('--category <category>', 'Only resources in a category')
+    .option('--page <page>', 'Page of results to show', '1')
+    .option('--limit <limit>', 'Results per page')
+    .option('--json', 'Print the results as JSON instead of picking one to install')
+    .option('-g, --global', 'Install the picked resource globally')
+    .action(async (query: string | undefined, options: FindCommandOptions) => {
+      try {
+        await find(query, options);
+      } catch (error) {
+        logger.error(`Failed to search: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Search the registry, then offer to install one of the results
+ */
+async function find(query: string | undefined, options: FindCommandOptions): Promise<void> {
+  const client = new RegistryClient();
+  const searchOptions = {
+    query,
+    type: options.type,
+    agent: options.agent,
+    category: options.category,
+    page: Number(options.page),
+    pageSize: options.limit === undefined ? undefined : Number(options.limit),
+  };
+
+  if (options.json) {
+    const result = await client.search(searchOptions);
+    logger.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  spinner.start('Searching the registry...');
+  let result: RegistrySearchResult;
+  try {
+    result = await client.search(searchOptions);
+  } catch (error) {
+    spinner.fail('Search failed');
+    throw error;
+  }
+  spinner.succeed(`Found ${result.total} resource(s)${query ? ` for "${query}"` : ''}`);
+
+  if (result.resources.length === 0) {
+    return;
+  }
+
+  printResults(result);
+
+  const picked = await selectRegistryResource(result.resources);
+  if (!picked) {
+    return;
+  }
+
+  const source = `registry:${picked.id}` + (picked.version ? `@${picked.version}` : '');
+  const addOptions = { global: options.global, agent: options.agent };
+  const add = ADD_FLOWS[picked.type];
+  if (add) {
+    await add(source, addOptions);
+  } else {
+    await addPluginResources(picked.type, source, addOptions);
+  }
+}
+
+/**
+ * Install every resource in a source with the handler a plugin provides for their type
+ */
+async function addPluginResources(
+  type: string,
+  source: string,
+  options: AddOptions,
+): Promise<void> {
+  const projectRoot = cwd();
+  const handler = (await loadResourceHandlers(projectRoot)).get(type);
+  if (!handler) {
+    throw new Error(`No handler for resource type '${type}'; install the plugin that provides it`);
+  }
+
+  const lockManager = new LockManager({ projectRoot });
+  const fetched = await fetchSource(source, projectRoot);
+  try {
+    spinner.start(`Discovering ${handler.displayName.toLowerCase()}...`);
+    const resources = await handler.discover({
+      type: 'local',
+      url: `file://${fetched.path}`,
+      localPath: fetched.path,
+    });
+    spinner.succeed(`Found ${resources.length} resource(s) in ${source}`);
+    if (resources.length === 0) {
+      return;
+    }
+
+    const agents = options.agent
+      ? [options.agent]
+      : await selectAgents(handler.getSupportedAgents());
+    if (agents.length === 0) {
+      logger.warn('No agents selected');
+      return;
+    }
+    const scope: Scope = options.global ? 'global' : 'project';
+
+    await installEach(lockManager, resources, async (resource) => {
+      const targets = getResourceAgents(resource, agents).map((agent) => ({
+        agent,
+        scope,
+        mode: 'copy' as const,
+      }));
+      if (targets.length === 0) {
+        logger.warn(`Skipping ${resource.name}: its source limits it to other agents`);
+        return;
+      }
+      spinner.start(`Installing ${resource.name}...`);
+
+      await handler.install(resource, targets, { force: options.force, yes: options.yes });
+      // Plugin handlers may merge resources into a shared file, so nothing is snapshotted
+      const installedFor = targets.map((target) => ({
+        ...target,
+        path: toLockPath(
+          handler.getTargetPath?.(resource.name, target.agent, target.scope) ??
+            handler.getInstallPath(target.agent, target.scope),
+          target.scope,
+          projectRoot,
+        ),
+      }));
+      await lockManager.addResource(
+        createLockEntry(
+          resource,
+          describeSource(source, fetched.resolvedRef),
+          installedFor,
+          getHandlerId(handler),
+        ),
+      );
+
+      spinner.succeed(`Installed ${resource.name}`);
+    });
+  } finally {
+    await fetched.cleanup?.();
+  }
+}
+
+/**
+ * Print one page of results grouped by resource type
+ */
+function printResults(result: RegistrySearchResult): void {
+  const groups = new Map<string, RegistryResource[]>();
+  for (const resource of result.resources) {
+    groups.set(resource.type, [...(groups.get(resource.type) ?? []), resource]);
+  }
+
+  for (const [type, resources] of groups) {
+    const label = type.charAt(0).toUpperCase() + type.slice(1);
+    logger.section(`${label} (${resources.length} result${resources.length === 1 ? '' : 's'})`);
+    for (const resource of resources) {
+      logger.log(
+        resource.description
+          ? `  ${resource.name} - ${resource.description}`
+          : `  ${resource.name}`,
+      );
+    }
+  }
+
+  const pages = Math.ceil(result.total / result.pageSize);
+  if (result.page < pages) {
+    logger.info(
+      `\nPage ${result.page} of ${pages}; use --page ${result.page + 1} for more results`,
+    );
+  }
+  logger.log('');
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { sha256, type Resource, type ResourceLockEntry } from '@coding-agent-fabric/common';
+import { findLockedResource, getHashMismatch } from './install.js';
+
+describe('install command', () => {
+  const lockedHash = sha256('locked');
+  const changedHash = sha256('changed');
+
+  const entry: ResourceLockEntry = {
+    type: 'skills',
+    name: 'frontend-patterns',
+    version: '1.0.0',
+    handler: 'built-in',
+    source: 'owner/repo',
+    sourceType: 'github',
+    sourceUrl: 'https://github.com/owner/repo',
+    installedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    installedFor: [{ agent: 'claude-code', scope: 'project', path: '.claude/skills/foo' }],
+    skillFolderHash: lockedHash,
+    categories: [],
+    namingStrategy: 'smart-disambiguation',
+    originalName: 'patterns',
+    installedName: 'frontend-patterns',
+    sourcePath: 'skills/frontend/patterns',
+  };
+
+  const createResource = (name: string, metadata: Record<string, unknown>): Resource => ({
+    type: 'skills',
+    name,
+    version: '1.0.0',
+    description: '',
+    metadata,
+    files: [],
+  });
+
+  describe('findLockedResource', () => {
+    it('matches by name', () => {
+      const resource = createResource('frontend-patterns', {});
+      expect(findLockedResource(entry, [resource])).toBe(resource);
+    });
+
+    it('falls back to the source path for skills', () => {
+      const resource = createResource('patterns', { sourcePath: 'skills/frontend/patterns' });
+      expect(findLockedResource(entry, [resource])).toBe(resource);
+    });
+
+    it('returns undefined when the resource is gone', () => {
+      expect(findLockedResource(entry, [createResource('other', {})])).toBeUndefined();
+    });
+  });
+
+  describe('getHashMismatch', () => {
+    it('accepts matching hashes', () => {
+      const resource = createResource('frontend-patterns', { skillFolderHash: lockedHash });
+      expect(getHashMismatch(entry, resource)).toBeUndefined();
+    });
+
+    it('reports changed hashes', () => {
+      const resource = createResource('frontend-patterns', { skillFolderHash: changedHash });
+      expect(getHashMismatch(entry, resource)).toContain('hash mismatch');
+    });
+
+    it('ignores entries without a recorded hash', () => {
+      const resource = createResource('frontend-patterns', { skillFolderHash: changedHash });
+      expect(getHashMismatch({ ...entry, skillFolderHash: undefined }, resource)).toBeUndefined();
+    });
+
+    it('ignores legacy 32-bit hashes', () => {
+      const resource = createResource('frontend-patterns', { skillFolderHash: changedHash });
+      expect(getHashMismatch({ ...entry, skillFolderHash: '1a2b3c' }, resource)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Install command - reproduce resources recorded in the lock file
+ */
+
+import { Command } from 'commander';
+import { LockManager, type ResourceHandler } from '@coding-agent-fabric/core';
+import {
+  BUILT_IN_HANDLER,
+  isSha256,
+  type InstallTarget,
+  type Resource,
+  type ResourceLockEntry,
+  type RuleLockEntry,
+  type SkillLockEntry,
+  type SubagentLockEntry,
+} from '@coding-agent-fabric/common';
+import type { LockInstallOptions } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { spinner } from '../utils/spinner.js';
+import { fetchSource, type FetchedSource } from '../utils/fetch.js';
+import { loadResourceHandlers } from '../utils/handlers.js';
+import { captureSnapshots, createLockEntry, describeSource, installEach } from '../utils/lock.js';
+import { cwd } from 'node:process';
+
+/**
+ * A locked resource matched against its source
+ */
+interface InstallPlanItem {
+  entry: ResourceLockEntry;
+  handler: ResourceHandler;
+  resource: Resource;
+  resolvedRef?: string; // Commit the source was fetched at
+}
+
+/**
+ * Create install command
+ */
+export function createInstallCommand(): Command {
+  return new Command('install')
+    .description('Install every resource recorded in the lock file')
+    .option(
+      '--frozen-lockfile',
+      'Fail if a source no longer matches the lock file, and never update it',
+    )
+    .option('--pnpm', 'Install sources as dev dependencies with pnpm')
+    .option('--offline', 'Only install from sources already in the cache')
+    .action(async (options: LockInstallOptions) => {
+      try {
+        await installFromLock(options);
+      } catch (error) {
+        logger.error(`Failed to install: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Install all locked resources for the agents, scopes and modes they were recorded with
+ */
+async function installFromLock(options: LockInstallOptions): Promise<void> {
+  const projectRoot = cwd();
+
+  logger.header('Installing from Lock File');
+
+  const lockManager = new LockManager({ projectRoot });
+  if (!lockManager.exists()) {
+    if (options.frozenLockfile) {
+      throw new Error('No lock file found; cannot install with --frozen-lockfile');
+    }
+    logger.info('No lock file found. Nothing to install.');
+    return;
+  }
+
+  // Only the project lock file is shared; global installs are specific to this machine
+  const entries = Object.values(await lockManager.getAllResources('project'));
+  if (entries.length === 0) {
+    logger.info('No resources recorded in the lock file');
+    return;
+  }
+
+  const handlers = await loadResourceHandlers(projectRoot);
+  const fetched = new Map<string, FetchedSource>();
+
+  try {
+    // Resolve every entry before touching the filesystem so a bad lock file installs nothing
+    const plan: InstallPlanItem[] = [];
+    const problems: string[] = [];
+
+    for (const entry of entries) {
+      const handler = handlers.get(entry.type);
+      if (!handler) {
+        problems.push(
+          `${entry.name}: no handler for resource type '${entry.type}' (provided by ${entry.handler})`,
+        );
+        continue;
+      }
+
+      // Fetch the pinned commit so every machine installs the same files
+      const key = `${entry.source}@${entry.resolvedRef ?? ''}`;
+      let source = fetched.get(key);
+      if (!source) {
+        source = await fetchSource(entry.source, projectRoot, {
+          pnpm: options.pnpm,
+          offline: options.offline,
+          ref: entry.resolvedRef,
+        });
+        fetched.set(key, source);
+      }
+
+      const resources = await handler.discover(
+        { type: 'local', url: `file://${source.path}`, localPath: source.path },
+        {
+          namingStrategy:
+            entry.type === 'skills' ? (entry as SkillLockEntry).namingStrategy : undefined,
+        },
+      );
+      const resource = findLockedResource(entry, resources);
+      if (!resource) {
+        problems.push(`${entry.name}: no longer found in ${entry.source}`);
+        continue;
+      }
+
+      const mismatch = getHashMismatch(entry, resource);
+      if (mismatch && options.frozenLockfile) {
+        problems.push(`${entry.name}: ${mismatch}`);
+        continue;
+      }
+
+      plan.push({ entry, handler, resource, resolvedRef: source.resolvedRef });
+    }
+
+    if (problems.length > 0) {
+      for (const problem of problems) {
+        logger.error(problem);
+      }
+      throw new Error(`${problems.length} resource(s) do not match the lock file`);
+    }
+
+    let updated = 0;
+    await installEach(lockManager, plan, async ({ entry, handler, resource, resolvedRef }) => {
+      spinner.start(`Installing ${entry.name}...`);
+
+      const targets: InstallTarget[] = entry.installedFor.map((target) => ({
+        agent: target.agent,
+        scope: target.scope,
+        mode: target.mode ?? 'copy',
+      }));
+      await handler.install(resource, targets, { force: true, yes: true });
+
+      // Populate the local snapshot store so rollbacks work on this machine too
+      const installedFor =
+        entry.handler === BUILT_IN_HANDLER
+          ? await captureSnapshots(lockManager, entry.installedFor, projectRoot)
+          : entry.installedFor;
+
+      // Entries recorded before commits were pinned are pinned to the commit just installed
+      const unpinned = !entry.resolvedRef && resolvedRef !== undefined;
+      if (!options.frozenLockfile && (hasChanged(entry, resource) || unpinned)) {
+        const refreshed = createLockEntry(
+          resource,
+          describeSource(entry.source, entry.resolvedRef ?? resolvedRef),
+          installedFor,
+          entry.handler,
+        );
+        refreshed.installedAt = entry.installedAt;
+        await lockManager.addResource(refreshed);
+        updated++;
+      }
+
+      spinner.succeed(`Installed ${entry.name} for ${targets.length} target(s)`);
+    });
+
+    logger.success(`Installed ${plan.length} resource(s) from the lock file`);
+    if (updated > 0) {
+      logger.info(`Updated ${updated} lock entr${updated === 1 ? 'y' : 'ies'}`);
+    }
+  } finally {
+    for (const source of fetched.values()) {
+      await source.cleanup?.();
+    }
+  }
+}
+
+/**
+ * Find the discovered resource corresponding to a lock entry
+ */
+export function findLockedResource(
+  entry: ResourceLockEntry,
+  resources: Resource[],
+): Resource | undefined {
+  const byName = resources.find((resource) => resource.name === entry.name);
+  if (byName || entry.type !== 'skills') {
+    return byName;
+  }
+
+  // Naming may differ when other skills were added to the source since it was locked
+  const { sourcePath } = entry as SkillLockEntry;
+  return resources.find((resource) => resource.metadata?.sourcePath === sourcePath);
+}
+
+/**
+ * Compare the recorded hash of a lock entry with a discovered resource
+ */
+export function getHashMismatch(entry: ResourceLockEntry, resource: Resource): string | undefined {
+  const recorded = getRecordedHash(entry);
+  const actual = getDiscoveredHash(entry, resource);
+
+  if (recorded && recorded !== actual) {
+    return `hash mismatch (locked ${recorded}, found ${actual ?? 'none'})`;
+  }
+  return undefined;
+}
+
+function getRecordedHash(entry: ResourceLockEntry): string | undefined {
+  let hash: string | undefined;
+  switch (entry.type) {
+    case 'skills':
+      hash = (entry as SkillLockEntry).skillFolderHash;
+      break;
+    case 'rules':
+    case 'subagents':
+      hash = (entry as RuleLockEntry | SubagentLockEntry).configHash;
+      break;
+  }
+
+  // Older versions recorded a 32-bit hash that can never match; it is replaced on install
+  return hash && isSha256(hash) ? hash : undefined;
+}
+
+function getDiscoveredHash(entry: ResourceLockEntry, resource: Resource): string | undefined {
+  const key = entry.type === 'skills' ? 'skillFolderHash' : 'configHash';
+  return resource.metadata?.[key] as string | undefined;
+}
+
+function hasChanged(entry: ResourceLockEntry, resource: Resource): boolean {
+  return entry.version !== resource.version || getHashMismatch(entry, resource) !== undefined;
+}
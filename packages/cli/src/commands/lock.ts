@@ -0,0 +1,360 @@
+/**
+ * Lock file commands
+ */
+
+import { Command } from 'commander';
+import { existsSync } from 'node:fs';
+import { appendFile, readFile, writeFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { cwd } from 'node:process';
+import { simpleGit } from 'simple-git';
+import {
+  LockManager,
+  diffLockFiles,
+  hasConflictMarkers,
+  mergeLockFiles,
+  migrateLockFile,
+  parseConflictMarkers,
+  type LockFile,
+} from '@coding-agent-fabric/core';
+import {
+  CONFIG_DIR_NAME,
+  DEFAULT_HISTORY_LIMIT,
+  DEFAULT_UPDATE_STRATEGY,
+  LOCK_FILE_NAME,
+  LOCK_FILE_VERSION,
+  getCurrentTimestamp,
+} from '@coding-agent-fabric/common';
+import type {
+  LockDiffOptions,
+  LockMigrateCommandOptions,
+  LockResolveOptions,
+} from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { selectConflictSide } from '../utils/prompts.js';
+import { formatLockDiff, LOCK_DIFF_FORMATS, type LockDiffFormat } from '../utils/lock-diff.js';
+
+/**
+ * Name of the git merge driver for the lock file
+ */
+const MERGE_DRIVER_NAME = 'caf-lock';
+
+/**
+ * Create lock command
+ */
+export function createLockCommand(): Command {
+  const cmd = new Command('lock').description('Manage the coding-agent-fabric lock file');
+
+  // Migrate subcommand
+  cmd
+    .command('migrate')
+    .description('Upgrade the lock file to the current schema version')
+    .option('--dry-run', 'Show what would change without writing the lock file')
+    .option('-g, --global', 'Migrate the global lock file')
+    .action(async (options: LockMigrateCommandOptions) => {
+      try {
+        await migrateLock(options);
+      } catch (error) {
+        logger.error(
+          `Failed to migrate lock file: ${error instanceof Error ? error.message : error}`,
+        );
+        process.exit(1);
+      }
+    });
+
+  // Resolve subcommand
+  cmd
+    .command('resolve')
+    .description('Resolve merge conflicts in the lock file')
+    .argument('[base]', 'Common ancestor lock file (git merge driver %O)')
+    .argument('[ours]', 'Our lock file (git merge driver %A)')
+    .argument('[theirs]', 'Their lock file (git merge driver %B)')
+    .option('--merge-driver', 'Run as a git merge driver and write the result to <ours>')
+    .option('-y, --yes', 'Keep our side of conflicting resources without prompting')
+    .action(
+      async (
+        base: string | undefined,
+        ours: string | undefined,
+        theirs: string | undefined,
+        options: LockResolveOptions,
+      ) => {
+        try {
+          const resolved = await resolveLock(base, ours, theirs, options);
+          if (!resolved) {
+            process.exit(1);
+          }
+        } catch (error) {
+          logger.error(
+            `Failed to resolve lock file: ${error instanceof Error ? error.message : error}`,
+          );
+          process.exit(1);
+        }
+      },
+    );
+
+  // Diff subcommand
+  cmd
+    .command('diff')
+    .description('Show resource and plugin changes between two versions of the lock file')
+    .argument('[rev-a]', 'Git revision or lock file path to compare from (default: HEAD)')
+    .argument('[rev-b]', 'Git revision or lock file path to compare to (default: working tree)')
+    .option('--format <format>', `Output format (${LOCK_DIFF_FORMATS.join(', ')})`, 'text')
+    .action(
+      async (revA: string | undefined, revB: string | undefined, options: LockDiffOptions) => {
+        try {
+          await diffLock(revA, revB, options);
+        } catch (error) {
+          logger.error(
+            `Failed to diff lock file: ${error instanceof Error ? error.message : error}`,
+          );
+          process.exit(1);
+        }
+      },
+    );
+
+  // Install merge driver subcommand
+  cmd
+    .command('install-merge-driver')
+    .description('Register `caf lock resolve` as the git merge driver for the lock file')
+    .action(async () => {
+      try {
+        await installMergeDriver();
+      } catch (error) {
+        logger.error(
+          `Failed to install merge driver: ${error instanceof Error ? error.message : error}`,
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+/**
+ * Migrate the lock file
+ */
+async function migrateLock(options: LockMigrateCommandOptions): Promise<void> {
+  const projectRoot = cwd();
+  const lockManager = new LockManager({ projectRoot });
+  const scope = options.global ? 'global' : 'project';
+
+  logger.header('Migrating Lock File');
+
+  if (!lockManager.exists(scope)) {
+    logger.info('No lock file found. Nothing to migrate.');
+    return;
+  }
+
+  const result = await lockManager.migrate({ dryRun: options.dryRun, scope });
+
+  if (result.fromVersion === result.toVersion) {
+    logger.success(`Lock file is already at version ${result.toVersion}`);
+    return;
+  }
+
+  logger.section(`Version ${result.fromVersion} → ${result.toVersion}`);
+  for (const change of result.changes) {
+    logger.log(`  ${change}`);
+  }
+
+  if (options.dryRun) {
+    logger.info('Dry run: lock file was not modified');
+    return;
+  }
+
+  logger.success(`Migrated lock file to version ${result.toVersion}`);
+  if (result.backupPath) {
+    logger.info(`Backup written to ${result.backupPath}`);
+  }
+}
+
+/**
+ * Merge the sides of a conflicted lock file.
+ * Returns false when conflicting resources were left unresolved.
+ */
+async function resolveLock(
+  basePath: string | undefined,
+  oursPath: string | undefined,
+  theirsPath: string | undefined,
+  options: LockResolveOptions,
+): Promise<boolean> {
+  const projectRoot = cwd();
+  const lockManager = new LockManager({ projectRoot });
+
+  let sides: { base?: string; ours: string; theirs: string };
+  let outputPath = lockManager.getPath();
+
+  if (basePath || oursPath || theirsPath) {
+    if (!basePath || !oursPath || !theirsPath) {
+      throw new Error('Provide <base>, <ours> and <theirs> lock files together');
+    }
+    sides = {
+      base: await readFile(basePath, 'utf-8'),
+      ours: await readFile(oursPath, 'utf-8'),
+      theirs: await readFile(theirsPath, 'utf-8'),
+    };
+    if (options.mergeDriver) {
+      outputPath = oursPath;
+    }
+  } else {
+    if (!lockManager.exists()) {
+      throw new Error('No lock file found');
+    }
+    const content = await readFile(outputPath, 'utf-8');
+    if (!hasConflictMarkers(content)) {
+      logger.info('No merge conflicts found in the lock file');
+      return true;
+    }
+    sides = parseConflictMarkers(content);
+  }
+
+  const result = mergeLockFiles(
+    sides.base?.trim() ? parseLockFile(sides.base) : undefined,
+    parseLockFile(sides.ours),
+    parseLockFile(sides.theirs),
+  );
+
+  const interactive = !options.yes && process.stdin.isTTY;
+  const unresolved: string[] = [];
+  for (const conflict of result.conflicts) {
+    if (!interactive) {
+      unresolved.push(conflict.name);
+      continue;
+    }
+    const side = await selectConflictSide(
+      conflict.name,
+      conflict.ours.source,
+      conflict.theirs.source,
+    );
+    result.lockFile.resources[conflict.name] = conflict[side];
+  }
+
+  if (outputPath === lockManager.getPath()) {
+    // Hold the file lock so the merged file does not race another caf process
+    await lockManager.transaction(() => lockManager.save(result.lockFile));
+  } else {
+    await writeFile(outputPath, JSON.stringify(result.lockFile, null, 2), 'utf-8');
+  }
+
+  if (unresolved.length > 0) {
+    logger.warn(`Kept our side for resources with diverging sources: ${unresolved.join(', ')}`);
+    // As a merge driver, let git report the file as conflicted so the resources get reviewed
+    if (options.mergeDriver) {
+      return false;
+    }
+  }
+  logger.success(`Merged lock file (${Object.keys(result.lockFile.resources).length} resource(s))`);
+  return true;
+}
+
+/**
+ * Print the differences between two versions of the lock file
+ */
+async function diffLock(
+  revA: string | undefined,
+  revB: string | undefined,
+  options: LockDiffOptions,
+): Promise<void> {
+  const format = options.format as LockDiffFormat;
+  if (!LOCK_DIFF_FORMATS.includes(format)) {
+    throw new Error(
+      `Unknown format '${options.format}'. Expected one of: ${LOCK_DIFF_FORMATS.join(', ')}`,
+    );
+  }
+
+  const projectRoot = cwd();
+  const lockManager = new LockManager({ projectRoot });
+
+  const before = await readLockFileAt(revA ?? 'HEAD', lockManager.getPath(), projectRoot);
+  const after = await readLockFileAt(revB, lockManager.getPath(), projectRoot);
+  const diff = diffLockFiles(before, after);
+
+  if (format === 'text') {
+    logger.header(`Lock File Changes (${revA ?? 'HEAD'} → ${revB ?? 'working tree'})`);
+  }
+  logger.log(formatLockDiff(diff, format));
+}
+
+/**
+ * Read the lock file from a file path, a git revision, or the working tree when no revision is given.
+ * A lock file missing from a revision is treated as empty.
+ */
+async function readLockFileAt(
+  revision: string | undefined,
+  lockPath: string,
+  projectRoot: string,
+): Promise<LockFile> {
+  if (revision === undefined) {
+    return existsSync(lockPath)
+      ? parseLockFile(await readFile(lockPath, 'utf-8'))
+      : createEmptyLockFile();
+  }
+
+  if (existsSync(revision)) {
+    return parseLockFile(await readFile(revision, 'utf-8'));
+  }
+
+  const git = simpleGit(projectRoot);
+  try {
+    await git.revparse(['--verify', `${revision}^{commit}`]);
+  } catch {
+    throw new Error(`'${revision}' is neither a lock file nor a git revision`);
+  }
+
+  const repoRoot = (await git.revparse(['--show-toplevel'])).trim();
+  const path = relative(repoRoot, lockPath).split(sep).join('/');
+  try {
+    return parseLockFile(await git.show([`${revision}:${path}`]));
+  } catch {
+    return createEmptyLockFile();
+  }
+}
+
+/**
+ * Lock file with no resources, standing in for one that does not exist
+ */
+function createEmptyLockFile(): LockFile {
+  return {
+    version: LOCK_FILE_VERSION,
+    lastUpdated: getCurrentTimestamp(),
+    config: {
+      preferredAgents: [],
+      defaultScope: 'project',
+      historyLimit: DEFAULT_HISTORY_LIMIT,
+      updateStrategy: DEFAULT_UPDATE_STRATEGY,
+    },
+    plugins: {},
+    resources: {},
+  };
+}
+
+/**
+ * Parse one side of a lock file merge, upgrading older schemas
+ */
+function parseLockFile(content: string): LockFile {
+  return migrateLockFile(JSON.parse(content) as Record<string, unknown>).lockFile;
+}
+
+/**
+ * Register the lock file merge driver in .gitattributes and the repository git config
+ */
+async function installMergeDriver(): Promise<void> {
+  const projectRoot = cwd();
+  const attributesPath = join(projectRoot, '.gitattributes');
+  const attribute = `${CONFIG_DIR_NAME}/${LOCK_FILE_NAME} merge=${MERGE_DRIVER_NAME}`;
+
+  const attributes = existsSync(attributesPath) ? await readFile(attributesPath, 'utf-8') : '';
+  if (!attributes.split('\n').includes(attribute)) {
+    const separator = attributes && !attributes.endsWith('\n') ? '\n' : '';
+    await appendFile(attributesPath, `${separator}${attribute}\n`, 'utf-8');
+    logger.success(`Added merge attribute to .gitattributes`);
+  }
+
+  const git = simpleGit(projectRoot);
+  await git.addConfig(`merge.${MERGE_DRIVER_NAME}.name`, 'coding-agent-fabric lock file merge');
+  await git.addConfig(
+    `merge.${MERGE_DRIVER_NAME}.driver`,
+    'caf lock resolve --merge-driver %O %A %B',
+  );
+  logger.success(`Registered the ${MERGE_DRIVER_NAME} merge driver in .git/config`);
+}
@@ -6,9 +6,8 @@ import { Command } from 'commander';
 import { PluginManager } from '@coding-agent-fabric/core';
 import type { AddOptions, RemoveOptions } from '../types/index.js';
 import { logger } from '../utils/logger.js';
-import { join } from 'node:path';
+import { getPluginSearchPaths } from '../utils/handlers.js';
 import { cwd } from 'node:process';
-import { homedir } from 'node:os';
 
 /**
  * Create plugin command
@@ -77,10 +76,7 @@ async function addPlugin(_source: string, _options: AddOptions): Promise<void> {
  */
 async function listPlugins(): Promise<void> {
   const projectRoot = cwd();
-  const searchPaths = [
-    join(projectRoot, '.coding-agent-fabric', 'plugins'),
-    join(homedir(), '.coding-agent-fabric', 'plugins'),
-  ];
+  const searchPaths = getPluginSearchPaths(projectRoot);
 
   const manager = new PluginManager({
     searchPaths,
@@ -0,0 +1,60 @@
+/**
+ * Rollback command
+ */
+
+import { Command } from 'commander';
+import { LockManager } from '@coding-agent-fabric/core';
+import type { RollbackCommandOptions } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { spinner } from '../utils/spinner.js';
+import { cwd } from 'node:process';
+
+/**
+ * Create rollback command
+ */
+export function createRollbackCommand(): Command {
+  return new Command('rollback')
+    .description('Restore a resource to a previous version')
+    .argument('<name>', 'Name of the resource to roll back')
+    .option('--to <n>', 'Number of versions to go back (default: 1)')
+    .option('-g, --global', 'Roll back a globally installed resource')
+    .action(async (name: string, options: RollbackCommandOptions) => {
+      try {
+        await rollback(name, options);
+      } catch (error) {
+        logger.error(`Failed to roll back: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Roll back a resource and restore its files
+ */
+async function rollback(name: string, options: RollbackCommandOptions): Promise<void> {
+  const projectRoot = cwd();
+  const lockManager = new LockManager({ projectRoot });
+
+  const to = options.to === undefined ? 1 : Number(options.to);
+  if (!Number.isInteger(to) || to < 1) {
+    throw new Error(`Invalid --to value: ${options.to}`);
+  }
+
+  const current = await lockManager.getResource(name);
+  spinner.start(`Rolling back ${name}...`);
+  const entry = await lockManager.rollbackResource(name, {
+    to,
+    scope: options.global ? 'global' : undefined,
+  });
+  spinner.succeed(
+    `Rolled back ${name} from ${current?.version ?? 'unknown'} to ${entry.version ?? 'unknown'}`,
+  );
+
+  const missing = entry.installedFor.filter((target) => !target.snapshot);
+  for (const target of missing) {
+    logger.warn(
+      `No snapshot recorded for ${target.agent} (${target.scope}); its files were not restored`,
+    );
+  }
+  logger.success(`Restored files for ${entry.installedFor.length - missing.length} target(s)`);
+}
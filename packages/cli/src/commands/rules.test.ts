@@ -1,9 +1,10 @@
 import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
 import { createRulesCommand } from './rules.js';
 
-const { listMock, removeMock, logger, spinner } = vi.hoisted(() => ({
+const { listMock, removeMock, removeTargetsMock, logger, spinner } = vi.hoisted(() => ({
   listMock: vi.fn(),
   removeMock: vi.fn(),
+  removeTargetsMock: vi.fn(),
   logger: {
     header: vi.fn(),
     log: vi.fn(),
@@ -35,8 +36,17 @@ vi.mock('@coding-agent-fabric/core', () => {
     }
   }
 
+  class LockManager {
+    constructor(_options: unknown) {}
+
+    async removeResourceTargets(name: string, targets: unknown) {
+      return removeTargetsMock(name, targets);
+    }
+  }
+
   return {
     AgentRegistry,
+    LockManager,
     RulesHandler,
   };
 });
@@ -107,6 +117,9 @@ describe('rules command', () => {
         scope: 'project',
       },
     ]);
+    expect(removeTargetsMock).toHaveBeenCalledWith('test-rule', [
+      { agent: 'cursor', mode: 'copy', scope: 'project' },
+    ]);
     expect(exitSpy).not.toHaveBeenCalled();
   });
 
@@ -120,6 +133,7 @@ describe('rules command', () => {
     await command.parseAsync(['remove', 'missing-rule', '--force', '--yes'], { from: 'user' });
 
     expect(removeMock).not.toHaveBeenCalled();
+    expect(removeTargetsMock).not.toHaveBeenCalled();
     expect(logger.warn).toHaveBeenCalledWith(
       "Rule 'missing-rule' not found (skipping due to --force)",
     );
@@ -3,7 +3,7 @@
  */
 
 import { Command } from 'commander';
-import { AgentRegistry, RulesHandler } from '@coding-agent-fabric/core';
+import { AgentRegistry, LockManager, RulesHandler } from '@coding-agent-fabric/core';
 import { type NamingStrategy, type AgentType, type Scope } from '@coding-agent-fabric/common';
 import type { AddOptions, ListOptions, RemoveOptions, UpdateOptions } from '../types/index.js';
 import { logger } from '../utils/logger.js';
@@ -15,8 +15,9 @@ import {
   selectMode,
   selectResources,
 } from '../utils/prompts.js';
-import { pnpmAdd, resolvePackagePath } from '../utils/pnpm.js';
-import { isGitUrl, cloneRepo } from '../utils/git.js';
+import { fetchSource } from '../utils/fetch.js';
+import { getResourceAgents } from '../utils/handlers.js';
+import { describeSource, installEach, recordInstall } from '../utils/lock.js';
 import { cwd } from 'node:process';
 
 /**
@@ -29,12 +30,18 @@ export function createRulesCommand(): Command {
   cmd
     .command('add')
     .description('Install rules from a source')
-    .argument('<source>', 'Source to install from (e.g., owner/repo, ./local/path)')
+    .argument(
+      '<source>',
+      'Source to install from (e.g., owner/repo/path@ref, npm:pkg#path, ./local/path)',
+    )
     .option('-g, --global', 'Install globally')
     .option('-f, --force', 'Force reinstall')
     .option('-y, --yes', 'Skip confirmation prompts')
     .option('--agent <agent>', 'Target specific agent')
     .option('--mode <mode>', 'Installation mode (copy or symlink)')
+    .option('--pnpm', 'Install the source as a dev dependency with pnpm')
+    .option('--offline', 'Only install from sources already in the cache')
+    .option('--symlinks <mode>', 'Symbolic links in the source: skip, follow or preserve')
     .action(async (source: string, options: AddOptions) => {
       try {
         await addRules(source, options);
@@ -98,7 +105,7 @@ export function createRulesCommand(): Command {
 /**
  * Add rules from a source
  */
-async function addRules(source: string, options: AddOptions): Promise<void> {
+export async function addRules(source: string, options: AddOptions): Promise<void> {
   const projectRoot = cwd();
 
   logger.header('Installing Rules');
@@ -109,38 +116,24 @@ async function addRules(source: string, options: AddOptions): Promise<void> {
     agentRegistry,
     projectRoot,
   });
+  const lockManager = new LockManager({ projectRoot });
 
-  // Use pnpm to add the package or git to clone
-  let packagePath: string;
-  let packageName: string;
-  let cleanup: (() => Promise<void>) | undefined;
-
-  if (isGitUrl(source)) {
-    // Git source
-    spinner.start(`Cloning ${source}...`);
-    const result = await cloneRepo(source);
-    packagePath = result.path;
-    packageName = source;
-    cleanup = result.cleanup;
-    spinner.succeed(`Cloned ${source}`);
-  } else if (source.startsWith('.') || source.startsWith('/') || source.startsWith('~')) {
-    // Local source
-    packageName = await pnpmAdd(source, projectRoot);
-    packagePath = resolvePackagePath(packageName, projectRoot);
-  } else {
-    // Remote source (npm)
-    packageName = await pnpmAdd(source, projectRoot);
-    packagePath = resolvePackagePath(packageName, projectRoot);
-  }
+  // Download the source into the cache (or install it with pnpm when requested)
+  const fetched = await fetchSource(source, projectRoot, {
+    pnpm: options.pnpm,
+    offline: options.offline,
+    symlinks: options.symlinks,
+  });
 
   try {
-    // Discover resources from the installed package
+    // Discover resources from the fetched source
     spinner.start('Discovering rules...');
-    const resources = await rulesHandler.discoverFromPath(packagePath, {
+    const resources = await rulesHandler.discoverFromPath(fetched.path, {
       namingStrategy: options.namingStrategy as NamingStrategy,
       categories: options.categories,
+      symlinks: options.symlinks,
     });
-    spinner.succeed(`Found ${resources.length} rule(s) in ${packageName}`);
+    spinner.succeed(`Found ${resources.length} rule(s) in ${source}`);
 
     if (resources.length === 0) {
       logger.warn('No rules found in source');
@@ -190,11 +183,16 @@ async function addRules(source: string, options: AddOptions): Promise<void> {
       }
     }
 
-    // Install each resource
-    for (const resource of selectedResources) {
+    // Install each resource, recording them all in a single lock file update
+    await installEach(lockManager, selectedResources, async (resource) => {
+      const agents = getResourceAgents(resource, targetAgents);
+      if (agents.length === 0) {
+        logger.warn(`Skipping ${resource.name}: its source limits it to other agents`);
+        return;
+      }
       spinner.start(`Installing ${resource.name}...`);
 
-      const targets = targetAgents.map((agent) => ({
+      const targets = agents.map((agent) => ({
         agent,
         scope,
         mode,
@@ -204,16 +202,24 @@ async function addRules(source: string, options: AddOptions): Promise<void> {
         force: options.force,
         yes: options.yes,
       });
+      await recordInstall(
+        lockManager,
+        resource,
+        describeSource(source, fetched.resolvedRef),
+        targets.map((target) => ({
+          ...target,
+          path: rulesHandler.getTargetPath(resource.name, target.agent, target.scope),
+        })),
+        projectRoot,
+      );
 
       spinner.succeed(`Installed ${resource.name}`);
-    }
+    });
 
     logger.success('\nRules installed successfully!');
   } finally {
     // Clean up temporary git clone if needed
-    if (cleanup) {
-      await cleanup();
-    }
+    await fetched.cleanup?.();
   }
 }
 
@@ -310,6 +316,9 @@ async function removeRule(name: string, options: RemoveOptions): Promise<void> {
 
   await rulesHandler.remove(rule, targets, { yes: options.yes });
 
+  const lockManager = new LockManager({ projectRoot });
+  await lockManager.removeResourceTargets(name, targets);
+
   spinner.succeed(`Removed ${name}`);
   logger.success('Rule removed successfully!');
 }
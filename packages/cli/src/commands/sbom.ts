@@ -0,0 +1,70 @@
+/**
+ * SBOM command - export locked resources as a software bill of materials
+ */
+
+import { Command } from 'commander';
+import { writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { cwd } from 'node:process';
+import {
+  LockManager,
+  SBOM_FORMATS,
+  createSbom,
+  loadGitHosts,
+  type SbomFormat,
+} from '@coding-agent-fabric/core';
+import type { SbomCommandOptions } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Create sbom command
+ */
+export function createSbomCommand(): Command {
+  return new Command('sbom')
+    .description('Export installed resources and plugins as a CycloneDX or SPDX SBOM')
+    .option('--format <format>', `SBOM format (${SBOM_FORMATS.join(', ')})`, 'cyclonedx')
+    .option('-o, --output <file>', 'Write the SBOM to a file instead of stdout')
+    .option('-g, --global', 'Export the global lock file')
+    .action(async (options: SbomCommandOptions) => {
+      try {
+        await exportSbom(options);
+      } catch (error) {
+        logger.error(`Failed to create SBOM: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Build the SBOM from the lock file
+ */
+async function exportSbom(options: SbomCommandOptions): Promise<void> {
+  const format = options.format as SbomFormat;
+  if (!SBOM_FORMATS.includes(format)) {
+    throw new Error(
+      `Unknown format '${options.format}'. Expected one of: ${SBOM_FORMATS.join(', ')}`,
+    );
+  }
+
+  const projectRoot = cwd();
+  const lockManager = new LockManager({ projectRoot });
+  const scope = options.global ? 'global' : 'project';
+
+  if (!lockManager.exists(scope)) {
+    throw new Error(`No lock file found at ${lockManager.getPath(scope)}`);
+  }
+
+  const lockFile = await lockManager.load(scope);
+  const sbom = createSbom(lockFile, format, {
+    name: options.global ? 'global' : basename(projectRoot),
+    hosts: loadGitHosts(),
+  });
+  const content = JSON.stringify(sbom, null, 2);
+
+  if (options.output) {
+    await writeFile(options.output, `${content}\n`, 'utf-8');
+    logger.success(`Wrote ${format} SBOM to ${options.output}`);
+    return;
+  }
+  logger.log(content);
+}
@@ -3,14 +3,15 @@
  */
 
 import { Command } from 'commander';
-import { AgentRegistry, SubagentsHandler } from '@coding-agent-fabric/core';
+import { AgentRegistry, LockManager, SubagentsHandler } from '@coding-agent-fabric/core';
 import { type AgentType, type Scope } from '@coding-agent-fabric/common';
 import type { AddOptions, ListOptions, RemoveOptions, UpdateOptions } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 import { spinner } from '../utils/spinner.js';
 import { confirmAction, selectAgents, selectScope, selectResources } from '../utils/prompts.js';
-import { pnpmAdd, resolvePackagePath } from '../utils/pnpm.js';
-import { isGitUrl, cloneRepo } from '../utils/git.js';
+import { fetchSource } from '../utils/fetch.js';
+import { getResourceAgents } from '../utils/handlers.js';
+import { describeSource, installEach, recordInstall } from '../utils/lock.js';
 import { cwd } from 'node:process';
 
 /**
@@ -23,11 +24,17 @@ export function createSubagentsCommand(): Command {
   cmd
     .command('add')
     .description('Install subagents from a source')
-    .argument('<source>', 'Source to install from (e.g., owner/repo, ./local/path)')
+    .argument(
+      '<source>',
+      'Source to install from (e.g., owner/repo/path@ref, npm:pkg#path, ./local/path)',
+    )
     .option('-g, --global', 'Install globally')
     .option('-f, --force', 'Force reinstall')
     .option('-y, --yes', 'Skip confirmation prompts')
     .option('--agent <agent>', 'Target specific agent')
+    .option('--pnpm', 'Install the source as a dev dependency with pnpm')
+    .option('--offline', 'Only install from sources already in the cache')
+    .option('--symlinks <mode>', 'Symbolic links in the source: skip, follow or preserve')
     .action(async (source: string, options: AddOptions) => {
       try {
         await addSubagents(source, options);
@@ -95,7 +102,7 @@ export function createSubagentsCommand(): Command {
 /**
  * Add subagents from a source
  */
-async function addSubagents(source: string, options: AddOptions): Promise<void> {
+export async function addSubagents(source: string, options: AddOptions): Promise<void> {
   const projectRoot = cwd();
 
   logger.header('Installing Subagents');
@@ -106,32 +113,21 @@ async function addSubagents(source: string, options: AddOptions): Promise<void>
     agentRegistry,
     projectRoot,
   });
+  const lockManager = new LockManager({ projectRoot });
 
-  // Use pnpm to add the package or git to clone
-  let packagePath: string;
-  let packageName: string;
-  let cleanup: (() => Promise<void>) | undefined;
-
-  if (isGitUrl(source)) {
-    // Git source
-    spinner.start(`Cloning ${source}...`);
-    const result = await cloneRepo(source);
-    packagePath = result.path;
-    packageName = source;
-    cleanup = result.cleanup;
-    spinner.succeed(`Cloned ${source}`);
-  } else {
-    // NPM or local source
-    spinner.start(`Installing ${source} via pnpm...`);
-    packageName = await pnpmAdd(source, projectRoot);
-    packagePath = resolvePackagePath(packageName, projectRoot);
-    spinner.succeed(`Installed ${packageName}`);
-  }
+  // Download the source into the cache (or install it with pnpm when requested)
+  const fetched = await fetchSource(source, projectRoot, {
+    pnpm: options.pnpm,
+    offline: options.offline,
+    symlinks: options.symlinks,
+  });
 
   try {
-    // Discover resources from the installed package
+    // Discover resources from the fetched source
     spinner.start('Discovering subagents...');
-    const resources = await subagentsHandler.discoverFromPath(packagePath);
+    const resources = await subagentsHandler.discoverFromPath(fetched.path, {
+      symlinks: options.symlinks,
+    });
     spinner.succeed(`Found ${resources.length} subagent(s)`);
 
     if (resources.length === 0) {
@@ -180,11 +176,16 @@ async function addSubagents(source: string, options: AddOptions): Promise<void>
       }
     }
 
-    // Install each resource
-    for (const resource of selectedResources) {
+    // Install each resource, recording them all in a single lock file update
+    await installEach(lockManager, selectedResources, async (resource) => {
+      const agents = getResourceAgents(resource, targetAgents);
+      if (agents.length === 0) {
+        logger.warn(`Skipping ${resource.name}: its source limits it to other agents`);
+        return;
+      }
       spinner.start(`Installing ${resource.name}...`);
 
-      const targets = targetAgents.map((agent) => ({
+      const targets = agents.map((agent) => ({
         agent,
         scope,
         mode: 'copy' as const,
@@ -194,16 +195,24 @@ async function addSubagents(source: string, options: AddOptions): Promise<void>
         force: options.force,
         yes: options.yes,
       });
+      await recordInstall(
+        lockManager,
+        resource,
+        describeSource(source, fetched.resolvedRef),
+        targets.map((target) => ({
+          ...target,
+          path: subagentsHandler.getTargetPath(resource.name, target.agent, target.scope),
+        })),
+        projectRoot,
+      );
 
       spinner.succeed(`Installed ${resource.name}`);
-    }
+    });
 
     logger.success('\nSubagents installed successfully!');
   } finally {
     // Clean up temporary git clone if needed
-    if (cleanup) {
-      await cleanup();
-    }
+    await fetched.cleanup?.();
   }
 }
 
@@ -302,6 +311,9 @@ async function removeSubagent(name: string, options: RemoveOptions): Promise<voi
     { yes: options.yes },
   );
 
+  const lockManager = new LockManager({ projectRoot });
+  await lockManager.removeResourceTargets(name, targets);
+
   spinner.succeed(`Removed ${name}`);
   logger.success('Subagent removed successfully!');
 }
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { ResourceLockEntry } from '@coding-agent-fabric/common';
+import { checkEntryUpdate } from './system.js';
+
+describe('system commands', () => {
+  describe('checkEntryUpdate', () => {
+    const pinned = 'a'.repeat(40);
+    const head = 'b'.repeat(40);
+    const entry = {
+      type: 'rules',
+      name: 'react-rule',
+      handler: 'built-in',
+      source: 'https://github.com/owner/repo/tree/main',
+      sourceType: 'github',
+      sourceUrl: 'https://github.com/owner/repo',
+      ref: 'main',
+      resolvedRef: pinned,
+      installedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      installedFor: [],
+      configHash: '',
+    } as ResourceLockEntry;
+
+    it('reports an update when the branch head moved', async () => {
+      const check = await checkEntryUpdate(entry, async () => head);
+      expect(check).toMatchObject({
+        resourceName: 'react-rule',
+        currentVersion: pinned,
+        latestVersion: head,
+        updateAvailable: true,
+        changesSummary: 'main moved from aaaaaaa to bbbbbbb',
+      });
+    });
+
+    it('reports pinned resources at the branch head as up to date', async () => {
+      const check = await checkEntryUpdate(entry, async () => pinned);
+      expect(check?.updateAvailable).toBe(false);
+    });
+
+    it('does not report updates for unpinned resources', async () => {
+      const check = await checkEntryUpdate({ ...entry, resolvedRef: undefined }, async () => head);
+      expect(check?.updateAvailable).toBe(false);
+      expect(check?.changesSummary).toContain('not pinned');
+    });
+
+    it('compares pinned npm versions with the requested range', async () => {
+      const npm = {
+        ...entry,
+        source: 'npm:@scope/rules@^1.2',
+        sourceType: 'npm',
+        ref: '^1.2',
+        resolvedRef: '1.2.0',
+      } as ResourceLockEntry;
+      expect((await checkEntryUpdate(npm, async () => '1.4.1'))?.changesSummary).toBe(
+        '^1.2 moved from 1.2.0 to 1.4.1',
+      );
+    });
+
+    it('skips sources that are not hosted on git', async () => {
+      const local = { ...entry, source: './rules', sourceType: 'local' } as ResourceLockEntry;
+      expect(await checkEntryUpdate(local, async () => head)).toBeUndefined();
+    });
+  });
+});
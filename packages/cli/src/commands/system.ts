@@ -3,7 +3,9 @@
  */
 
 import { Command } from 'commander';
-import { AgentRegistry } from '@coding-agent-fabric/core';
+import { AgentRegistry, LockManager, SourceParser } from '@coding-agent-fabric/core';
+import { isCommitSha, type ResourceLockEntry, type UpdateCheck } from '@coding-agent-fabric/common';
+import type { CheckCommandOptions } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 import { spinner } from '../utils/spinner.js';
 import { cwd } from 'node:process';
@@ -24,8 +26,16 @@ export function registerSystemCommands(program: Command): void {
   program
     .command('check')
     .description('Check for updates across all resources')
-    .action(async () => {
-      await runCheck();
+    .option('-g, --global', 'Only check globally installed resources')
+    .action(async (options: CheckCommandOptions) => {
+      try {
+        await runCheck(options);
+      } catch (error) {
+        logger.error(
+          `Failed to check for updates: ${error instanceof Error ? error.message : error}`,
+        );
+        process.exit(1);
+      }
     });
 
   program
@@ -78,11 +88,112 @@ async function runDoctor(): Promise<void> {
 }
 
 /**
- * Run check command
+ * Run check command.
+ * Compares the commit or npm version each resource is pinned to with the head of its ref.
+ */
+async function runCheck(options: CheckCommandOptions): Promise<void> {
+  const projectRoot = cwd();
+  const lockManager = new LockManager({ projectRoot });
+
+  logger.header('Checking for Updates');
+
+  const entries = Object.values(
+    await lockManager.getAllResources(options.global ? 'global' : undefined),
+  );
+  if (entries.length === 0) {
+    logger.info('No resources recorded in the lock file');
+    return;
+  }
+
+  // Entries installed from the same source share one lookup
+  const parser = new SourceParser();
+  const heads = new Map<string, Promise<string | undefined>>();
+  const resolveHead = (source: string) => {
+    if (!heads.has(source)) heads.set(source, parser.resolveRef(source));
+    return heads.get(source)!;
+  };
+
+  let updates = 0;
+  let failed = 0;
+  spinner.start(`Checking ${entries.length} resource(s)...`);
+  const results: { entry: ResourceLockEntry; check?: UpdateCheck; error?: unknown }[] = [];
+  for (const entry of entries) {
+    try {
+      results.push({ entry, check: await checkEntryUpdate(entry, resolveHead) });
+    } catch (error) {
+      results.push({ entry, error });
+    }
+  }
+  spinner.succeed(`Checked ${entries.length} resource(s)`);
+
+  for (const { entry, check, error } of results) {
+    if (error) {
+      failed++;
+      logger.warn(`${entry.name}: ${error instanceof Error ? error.message : error}`);
+    } else if (!check) {
+      logger.debug(`${entry.name}: not installed from a git host or npm`);
+    } else if (check.updateAvailable) {
+      updates++;
+      logger.log(`  ${entry.name}: ${check.changesSummary}`);
+    } else {
+      logger.debug(`${entry.name}: ${check.changesSummary}`);
+    }
+  }
+
+  if (failed > 0) {
+    logger.warn(`Could not check ${failed} resource(s)`);
+  }
+  if (updates > 0) {
+    logger.info(`${updates} update(s) available`);
+  } else {
+    logger.success('All pinned resources are up to date');
+  }
+}
+
+/**
+ * Compare the commit or npm version a lock entry is pinned to with what its ref resolves to now.
+ * Returns undefined for resources whose sources cannot be pinned.
+ */
+export async function checkEntryUpdate(
+  entry: ResourceLockEntry,
+  resolveHead: (source: string) => Promise<string | undefined>,
+): Promise<UpdateCheck | undefined> {
+  if (!['github', 'gitlab', 'bitbucket', 'gitea', 'git', 'npm'].includes(entry.sourceType)) {
+    return undefined;
+  }
+
+  const head = await resolveHead(entry.source);
+  if (!head) {
+    return undefined;
+  }
+
+  const ref = entry.ref ?? (entry.sourceType === 'npm' ? 'latest' : 'default branch');
+  if (!entry.resolvedRef) {
+    return {
+      resourceName: entry.name,
+      latestVersion: head,
+      updateAvailable: false,
+      changesSummary: `not pinned; run 'caf install' to pin it to ${ref} (${shortRef(head)})`,
+    };
+  }
+
+  const updateAvailable = entry.resolvedRef !== head;
+  return {
+    resourceName: entry.name,
+    currentVersion: entry.resolvedRef,
+    latestVersion: head,
+    updateAvailable,
+    changesSummary: updateAvailable
+      ? `${ref} moved from ${shortRef(entry.resolvedRef)} to ${shortRef(head)}`
+      : `up to date with ${ref} (${shortRef(head)})`,
+  };
+}
+
+/**
+ * Abbreviate commit SHAs; npm versions are shown in full
  */
-async function runCheck(): Promise<void> {
-  logger.info('Update checking not yet fully implemented');
-  // TODO: Implement update checking logic using pnpm
+function shortRef(ref: string): string {
+  return isCommitSha(ref) ? ref.slice(0, 7) : ref;
 }
 
 /**
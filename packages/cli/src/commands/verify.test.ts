@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { hashPath } from '@coding-agent-fabric/core';
+import type { ResourceLockEntry } from '@coding-agent-fabric/common';
+import { verifyEntry } from './verify.js';
+
+describe('verify command', () => {
+  let projectRoot: string;
+  let entry: ResourceLockEntry;
+
+  beforeEach(async () => {
+    projectRoot = join(
+      tmpdir(),
+      `verify-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    );
+    const skillPath = join(projectRoot, '.claude', 'skills', 'patterns');
+    await mkdir(skillPath, { recursive: true });
+    await writeFile(join(skillPath, 'SKILL.md'), '# Patterns');
+
+    entry = {
+      type: 'skills',
+      name: 'patterns',
+      handler: 'built-in',
+      source: 'owner/repo',
+      sourceType: 'github',
+      sourceUrl: 'https://github.com/owner/repo',
+      installedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      installedFor: [
+        {
+          agent: 'claude-code',
+          scope: 'project',
+          path: '.claude/skills/patterns',
+          content: await hashPath(skillPath),
+        },
+        { agent: 'cursor', scope: 'project', path: '.cursor/skills/patterns' },
+      ],
+      categories: [],
+      namingStrategy: 'smart-disambiguation',
+      originalName: 'patterns',
+      installedName: 'patterns',
+      sourcePath: 'patterns',
+    };
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('passes unchanged targets and flags untracked ones', async () => {
+    const [claude, cursor] = await verifyEntry(entry, projectRoot);
+    expect(claude.drift).toBeUndefined();
+    expect(cursor.untracked).toBe(true);
+  });
+
+  it('detects local modifications', async () => {
+    await writeFile(join(projectRoot, '.claude', 'skills', 'patterns', 'SKILL.md'), '# Edited');
+
+    const [claude] = await verifyEntry(entry, projectRoot);
+    expect(claude.drift).toMatchObject({ status: 'modified', modifiedFiles: ['SKILL.md'] });
+  });
+
+  it('detects deleted targets', async () => {
+    await rm(join(projectRoot, '.claude'), { recursive: true });
+
+    const [claude] = await verifyEntry(entry, projectRoot);
+    expect(claude.drift?.status).toBe('deleted');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Verify command - detect installed files that no longer match the lock file
+ */
+
+import { Command } from 'commander';
+import { detectDrift, LockManager, type ContentDrift } from '@coding-agent-fabric/core';
+import type { LockInstallTarget, ResourceLockEntry } from '@coding-agent-fabric/common';
+import type { VerifyCommandOptions } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { fromLockPath } from '../utils/lock.js';
+import { cwd } from 'node:process';
+
+/**
+ * Verification result for one install target
+ */
+export interface TargetVerification {
+  target: LockInstallTarget;
+  drift?: ContentDrift;
+  untracked?: boolean; // No digests were recorded for the target
+}
+
+/**
+ * Create verify command
+ */
+export function createVerifyCommand(): Command {
+  return new Command('verify')
+    .description('Check installed resources against the digests recorded in the lock file')
+    .argument('[names...]', 'Resources to verify (default: all)')
+    .option('-g, --global', 'Only verify globally installed resources')
+    .action(async (names: string[], options: VerifyCommandOptions) => {
+      try {
+        const clean = await verify(names, options);
+        if (!clean) {
+          process.exit(1);
+        }
+      } catch (error) {
+        logger.error(`Failed to verify: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Re-hash every recorded install target and report drift.
+ * Returns false when any target changed.
+ */
+async function verify(names: string[], options: VerifyCommandOptions): Promise<boolean> {
+  const projectRoot = cwd();
+  const lockManager = new LockManager({ projectRoot });
+
+  logger.header('Verifying Installed Resources');
+
+  const resources = await lockManager.getAllResources(options.global ? 'global' : undefined);
+  for (const name of names) {
+    if (!resources[name]) {
+      throw new Error(`Resource "${name}" not found`);
+    }
+  }
+
+  const entries = Object.values(resources).filter(
+    (entry) => names.length === 0 || names.includes(entry.name),
+  );
+  if (entries.length === 0) {
+    logger.info('No resources recorded in the lock file');
+    return true;
+  }
+
+  let drifted = 0;
+  let untracked = 0;
+
+  for (const entry of entries) {
+    for (const result of await verifyEntry(entry, projectRoot)) {
+      const label = `${entry.name} (${result.target.agent}, ${result.target.scope})`;
+
+      if (result.untracked) {
+        untracked++;
+        logger.debug(`${label}: no digests recorded`);
+        continue;
+      }
+      if (!result.drift) {
+        logger.debug(`${label}: ok`);
+        continue;
+      }
+
+      drifted++;
+      logger.error(`${label}: ${describeDrift(result.drift)} at ${result.target.path}`);
+      for (const file of result.drift.modifiedFiles) logger.log(`    modified: ${file}`);
+      for (const file of result.drift.addedFiles) logger.log(`    added:    ${file}`);
+      for (const file of result.drift.removedFiles) logger.log(`    removed:  ${file}`);
+    }
+  }
+
+  if (untracked > 0) {
+    logger.warn(
+      `${untracked} target(s) have no recorded digests; reinstall them with 'caf install' to track them`,
+    );
+  }
+
+  if (drifted > 0) {
+    logger.error(`${drifted} target(s) differ from the lock file`);
+    return false;
+  }
+
+  logger.success(`Verified ${entries.length} resource(s)`);
+  return true;
+}
+
+/**
+ * Compare each install target of a lock entry with its recorded digests
+ */
+export async function verifyEntry(
+  entry: ResourceLockEntry,
+  projectRoot: string,
+): Promise<TargetVerification[]> {
+  const results: TargetVerification[] = [];
+  for (const target of entry.installedFor) {
+    if (!target.content) {
+      results.push({ target, untracked: true });
+      continue;
+    }
+
+    const path = fromLockPath(target.path, target.scope, projectRoot);
+    results.push({ target, drift: await detectDrift(path, target.content) });
+  }
+  return results;
+}
+
+function describeDrift(drift: ContentDrift): string {
+  switch (drift.status) {
+    case 'modified':
+      return 'modified locally';
+    case 'deleted':
+      return 'deleted';
+    case 'unmanaged':
+      return 'replaced by an unmanaged file';
+  }
+}
@@ -2,7 +2,7 @@
  * CLI type definitions
  */
 
-import type { AgentType, Scope } from '@coding-agent-fabric/common';
+import type { AgentType, Scope, SymlinkMode } from '@coding-agent-fabric/common';
 
 /**
  * Common CLI options
@@ -22,6 +22,9 @@ export interface AddOptions extends CommonOptions {
   mode?: 'copy' | 'symlink';
   categories?: string[];
   namingStrategy?: string;
+  pnpm?: boolean; // Install the source with pnpm instead of the managed cache
+  offline?: boolean; // Only use sources already in the managed cache
+  symlinks?: SymlinkMode; // Skip, follow or preserve symbolic links in the source
 }
 
 /**
@@ -47,6 +50,107 @@ export interface UpdateOptions extends CommonOptions {
   checkOnly?: boolean;
 }
 
+/**
+ * Install (from lock file) command options
+ */
+export interface LockInstallOptions {
+  frozenLockfile?: boolean;
+  pnpm?: boolean;
+  offline?: boolean;
+}
+
+/**
+ * Lock migrate command options
+ */
+export interface LockMigrateCommandOptions {
+  dryRun?: boolean;
+  global?: boolean;
+}
+
+/**
+ * Lock resolve command options
+ */
+export interface LockResolveOptions {
+  mergeDriver?: boolean;
+  yes?: boolean;
+}
+
+/**
+ * Lock diff command options
+ */
+export interface LockDiffOptions {
+  format: string;
+}
+
+/**
+ * Rollback command options
+ */
+export interface RollbackCommandOptions {
+  to?: string;
+  global?: boolean;
+}
+
+/**
+ * Check command options
+ */
+export interface CheckCommandOptions {
+  global?: boolean;
+}
+
+/**
+ * Verify command options
+ */
+export interface VerifyCommandOptions {
+  global?: boolean;
+}
+
+/**
+ * SBOM command options
+ */
+export interface SbomCommandOptions {
+  format: string;
+  output?: string;
+  global?: boolean;
+}
+
+/**
+ * Cache clean command options
+ */
+export interface CacheCleanCommandOptions {
+  force?: boolean;
+}
+
+/**
+ * Dev link command options
+ */
+export interface DevLinkCommandOptions {
+  type: string;
+  agent?: AgentType;
+  global?: boolean;
+  yes?: boolean;
+  watch: boolean;
+}
+
+/**
+ * Dev unlink command options
+ */
+export interface DevUnlinkCommandOptions {
+  global?: boolean;
+}
+
+/**
+ * Find command options
+ */
+export interface FindCommandOptions {
+  type?: string;
+  agent?: AgentType;
+  category?: string;
+  page?: string;
+  limit?: string;
+  json?: boolean;
+  global?: boolean;
+}
+
 /**
  * CLI context
  */
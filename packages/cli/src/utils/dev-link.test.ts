@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { AgentRegistry, AuditLogger, SkillsHandler } from '@coding-agent-fabric/core';
+import type { Resource } from '@coding-agent-fabric/common';
+import {
+  createDevLink,
+  getDevLinkDir,
+  readDevLink,
+  removeDevLink,
+  syncDevLink,
+} from './dev-link.js';
+
+describe('dev link utils', () => {
+  let testDir: string;
+  let projectRoot: string;
+  let sourceDir: string;
+  let handler: SkillsHandler;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'dev-link-'));
+    projectRoot = join(testDir, 'project');
+    sourceDir = join(testDir, 'skills');
+    await mkdir(join(sourceDir, 'draft'), { recursive: true });
+    await writeFile(join(sourceDir, 'draft', 'SKILL.md'), '---\nname: draft\n---\n# Draft v1');
+
+    handler = new SkillsHandler({
+      agentRegistry: new AgentRegistry(projectRoot),
+      projectRoot,
+      auditLogger: new AuditLogger({ enabled: false }),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('re-installs changed resources and restores the previous state on unlink', async () => {
+    const installDir = handler.getInstallPath('claude-code', 'project');
+    await mkdir(join(installDir, 'existing'), { recursive: true });
+    await writeFile(join(installDir, 'existing', 'SKILL.md'), '# Existing');
+
+    const dir = getDevLinkDir(projectRoot, 'project');
+    const link = await createDevLink(dir, handler, sourceDir, {
+      agents: ['claude-code'],
+      scope: 'project',
+    });
+    await expect(
+      createDevLink(dir, handler, sourceDir, { agents: ['claude-code'], scope: 'project' }),
+    ).rejects.toThrow('already linked');
+
+    const installed = new Map<string, { resource: Resource; hash: string }>();
+    expect((await syncDevLink(dir, handler, link, installed)).installed).toEqual(['draft']);
+    expect(await readFile(join(installDir, 'draft', 'SKILL.md'), 'utf-8')).toContain('v1');
+
+    // Unchanged resources are left alone
+    expect((await syncDevLink(dir, handler, link, installed)).installed).toEqual([]);
+
+    await writeFile(join(sourceDir, 'draft', 'SKILL.md'), '---\nname: draft\n---\n# Draft v2');
+    expect((await syncDevLink(dir, handler, link, installed)).installed).toEqual(['draft']);
+    expect(await readFile(join(installDir, 'draft', 'SKILL.md'), 'utf-8')).toContain('v2');
+
+    await rm(join(sourceDir, 'draft'), { recursive: true });
+    expect((await syncDevLink(dir, handler, link, installed)).removed).toEqual(['draft']);
+
+    // Resources installed next to the linked ones while the link is active are kept
+    await mkdir(join(installDir, 'added'), { recursive: true });
+    await writeFile(join(installDir, 'added', 'SKILL.md'), '# Added');
+
+    await removeDevLink(dir);
+    expect(await readDevLink(dir)).toBeUndefined();
+    expect(existsSync(join(installDir, 'draft'))).toBe(false);
+    expect(await readFile(join(installDir, 'existing', 'SKILL.md'), 'utf-8')).toBe('# Existing');
+    expect(await readFile(join(installDir, 'added', 'SKILL.md'), 'utf-8')).toBe('# Added');
+  });
+
+  it('restores a resource the link replaced', async () => {
+    const installDir = handler.getInstallPath('claude-code', 'project');
+    await mkdir(join(installDir, 'draft'), { recursive: true });
+    await writeFile(join(installDir, 'draft', 'SKILL.md'), '# Released draft');
+
+    const dir = getDevLinkDir(projectRoot, 'project');
+    const link = await createDevLink(dir, handler, sourceDir, {
+      agents: ['claude-code'],
+      scope: 'project',
+    });
+    await syncDevLink(dir, handler, link, new Map());
+    expect(await readFile(join(installDir, 'draft', 'SKILL.md'), 'utf-8')).toContain('v1');
+
+    await removeDevLink(dir);
+    expect(await readFile(join(installDir, 'draft', 'SKILL.md'), 'utf-8')).toBe('# Released draft');
+  });
+
+  it('leaves unrelated files in the agent directory alone', async () => {
+    const claudeDir = join(projectRoot, '.claude');
+    await mkdir(claudeDir, { recursive: true });
+    await writeFile(join(claudeDir, 'settings.json'), '{"before":true}');
+
+    const dir = getDevLinkDir(projectRoot, 'project');
+    const link = await createDevLink(dir, handler, sourceDir, {
+      agents: ['claude-code'],
+      scope: 'project',
+    });
+    await syncDevLink(dir, handler, link, new Map());
+    await writeFile(join(claudeDir, 'settings.json'), '{"after":true}');
+    await writeFile(join(claudeDir, 'notes.md'), '# Notes');
+
+    await removeDevLink(dir);
+    expect(await readFile(join(claudeDir, 'settings.json'), 'utf-8')).toBe('{"after":true}');
+    expect(await readFile(join(claudeDir, 'notes.md'), 'utf-8')).toBe('# Notes');
+    expect(existsSync(join(handler.getInstallPath('claude-code', 'project'), 'draft'))).toBe(false);
+  });
+
+  it('rejects handlers without per-resource install paths', async () => {
+    const shared = Object.assign(Object.create(handler) as SkillsHandler, {
+      type: 'mcp',
+      getTargetPath: undefined,
+    });
+    const dir = getDevLinkDir(projectRoot, 'project');
+
+    await expect(
+      createDevLink(dir, shared, sourceDir, { agents: ['claude-code'], scope: 'project' }),
+    ).rejects.toThrow('Cannot link mcp');
+    expect(await readDevLink(dir)).toBeUndefined();
+  });
+
+  it('removes resources that did not exist before the link', async () => {
+    const dir = getDevLinkDir(projectRoot, 'project');
+    const link = await createDevLink(dir, handler, sourceDir, {
+      agents: ['claude-code'],
+      scope: 'project',
+    });
+    await syncDevLink(dir, handler, link, new Map());
+
+    const installDir = handler.getInstallPath('claude-code', 'project');
+    expect(existsSync(join(installDir, 'draft'))).toBe(true);
+
+    await removeDevLink(dir);
+    expect(existsSync(join(installDir, 'draft'))).toBe(false);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Dev link utilities - install a local source and keep it in sync while it is edited
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { SnapshotStore, type ResourceHandler } from '@coding-agent-fabric/core';
+import {
+  CONFIG_DIR_NAME,
+  DEV_LINK_DIR_NAME,
+  SNAPSHOT_STORE_DIR_NAME,
+  getCurrentTimestamp,
+  hashResourceFiles,
+  type AgentType,
+  type Resource,
+  type Scope,
+} from '@coding-agent-fabric/common';
+import { getResourceAgents } from './handlers.js';
+
+const DEV_LINK_FILE_NAME = 'link.json';
+
+/**
+ * The installed location of a linked resource and what it held before the link
+ */
+export interface DevLinkTarget {
+  resource: string;
+  agent: AgentType;
+  scope: Scope;
+  path: string;
+  snapshot?: string; // Absent when nothing existed at the path
+}
+
+/**
+ * A linked source, stored in the dev-link directory until `caf dev unlink`
+ */
+export interface DevLink {
+  source: string; // Absolute path of the linked directory
+  type: string; // Resource type of the handler that installs it
+  scope: Scope;
+  agents: AgentType[];
+  linkedAt: string;
+  targets: DevLinkTarget[]; // Added as resources are first installed
+}
+
+/**
+ * Changes made by one sync
+ */
+export interface DevLinkSyncResult {
+  installed: string[];
+  removed: string[];
+  failed: { name: string; error: string }[];
+}
+
+/**
+ * Get the directory holding the dev link of a scope
+ */
+export function getDevLinkDir(projectRoot: string, scope: Scope): string {
+  return join(scope === 'global' ? homedir() : projectRoot, CONFIG_DIR_NAME, DEV_LINK_DIR_NAME);
+}
+
+/**
+ * Read the active dev link, or undefined when nothing is linked
+ */
+export async function readDevLink(dir: string): Promise<DevLink | undefined> {
+  const path = join(dir, DEV_LINK_FILE_NAME);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as DevLink;
+  } catch (error) {
+    throw new Error(`Failed to read ${path}: ${error}`);
+  }
+}
+
+/**
+ * Record the link. Nothing is installed yet; syncDevLink() does that.
+ */
+export async function createDevLink(
+  dir: string,
+  handler: ResourceHandler,
+  source: string,
+  options: { agents: AgentType[]; scope: Scope },
+): Promise<DevLink> {
+  if (!handler.getTargetPath) {
+    throw new Error(
+      `Cannot link ${handler.type}: the handler does not install each resource to its own path`,
+    );
+  }
+
+  const existing = await readDevLink(dir);
+  if (existing) {
+    throw new Error(`${existing.source} is already linked; run "caf dev unlink" first`);
+  }
+
+  await mkdir(dir, { recursive: true });
+  // The link and its snapshots only make sense on this machine
+  await writeFile(join(dir, '.gitignore'), '*\n', 'utf-8');
+
+  const link: DevLink = {
+    source: resolve(source),
+    type: handler.type,
+    scope: options.scope,
+    agents: options.agents,
+    linkedAt: getCurrentTimestamp(),
+    targets: [],
+  };
+  await writeDevLink(dir, link);
+  return link;
+}
+
+/**
+ * Save the link record
+ */
+async function writeDevLink(dir: string, link: DevLink): Promise<void> {
+  await writeFile(join(dir, DEV_LINK_FILE_NAME), JSON.stringify(link, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Installed location of a resource. Only handlers that install each resource to its own path
+ * can be linked; snapshotting a shared install directory would lose what else is written there.
+ */
+function getResourcePath(
+  handler: ResourceHandler,
+  name: string,
+  agent: AgentType,
+  scope: Scope,
+): string {
+  if (!handler.getTargetPath) {
+    throw new Error(`Cannot link ${handler.type}: the handler has no per-resource install paths`);
+  }
+  return handler.getTargetPath(name, agent, scope);
+}
+
+/**
+ * Snapshot the installed locations of a resource that the link has not touched yet
+ */
+async function captureTargets(
+  dir: string,
+  handler: ResourceHandler,
+  link: DevLink,
+  resource: Resource,
+  agents: AgentType[],
+): Promise<void> {
+  const store = new SnapshotStore(join(dir, SNAPSHOT_STORE_DIR_NAME));
+  let changed = false;
+  for (const agent of agents) {
+    const path = getResourcePath(handler, resource.name, agent, link.scope);
+    if (link.targets.some((target) => target.path === path)) {
+      continue;
+    }
+    link.targets.push({
+      resource: resource.name,
+      agent,
+      scope: link.scope,
+      path,
+      snapshot: existsSync(path) ? await store.capture(path) : undefined,
+    });
+    changed = true;
+  }
+  if (changed) {
+    await writeDevLink(dir, link);
+  }
+}
+
+/**
+ * Discover the linked source again and install the resources whose files changed since the
+ * last sync, removing those that disappeared. `installed` tracks what the previous syncs
+ * installed and is updated in place. What a resource replaces is snapshotted before its
+ * first install, so that unlinking restores it.
+ */
+export async function syncDevLink(
+  dir: string,
+  handler: ResourceHandler,
+  link: DevLink,
+  installed: Map<string, { resource: Resource; hash: string }>,
+): Promise<DevLinkSyncResult> {
+  const result: DevLinkSyncResult = { installed: [], removed: [], failed: [] };
+  const resources = await handler.discover({
+    type: 'local',
+    url: `file://${link.source}`,
+    localPath: link.source,
+  });
+  const getTargets = (resource: Resource) =>
+    getResourceAgents(resource, link.agents).map((agent) => ({
+      agent,
+      scope: link.scope,
+      mode: 'copy' as const,
+    }));
+
+  for (const resource of resources) {
+    const hash = hashResourceFiles(resource.files);
+    if (installed.get(resource.name)?.hash === hash) {
+      continue;
+    }
+    try {
+      const targets = getTargets(resource);
+      await captureTargets(
+        dir,
+        handler,
+        link,
+        resource,
+        targets.map((target) => target.agent),
+      );
+      await handler.install(resource, targets, { force: true, yes: true });
+      installed.set(resource.name, { resource, hash });
+      result.installed.push(resource.name);
+    } catch (error) {
+      result.failed.push({
+        name: resource.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const names = new Set(resources.map((resource) => resource.name));
+  for (const [name, { resource }] of installed) {
+    if (names.has(name)) {
+      continue;
+    }
+    await handler.remove(resource, getTargets(resource), { force: true });
+    installed.delete(name);
+    result.removed.push(name);
+  }
+
+  return result;
+}
+
+/**
+ * Put every linked resource's location back the way it was before the link, and forget the link
+ */
+export async function removeDevLink(dir: string): Promise<DevLink> {
+  const link = await readDevLink(dir);
+  if (!link) {
+    throw new Error('Nothing is linked');
+  }
+
+  const store = new SnapshotStore(join(dir, SNAPSHOT_STORE_DIR_NAME));
+  for (const target of link.targets) {
+    if (target.snapshot) {
+      await store.restore(target.snapshot, target.path);
+    } else {
+      await rm(target.path, { recursive: true, force: true });
+    }
+  }
+
+  await rm(dir, { recursive: true, force: true });
+  return link;
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fetchSource } from './fetch.js';
+
+vi.mock('./spinner.js', () => ({
+  spinner: { start: vi.fn(), succeed: vi.fn(), fail: vi.fn() },
+}));
+
+describe('fetch utils', () => {
+  describe('fetchSource', () => {
+    const dir = join(tmpdir(), `fetch-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('uses local sources in place without pnpm', async () => {
+      await mkdir(join(dir, 'skills'), { recursive: true });
+      await writeFile(join(dir, 'skills', 'SKILL.md'), '# Skill');
+
+      const fetched = await fetchSource(join(dir, 'skills'), dir);
+      expect(fetched.path).toBe(join(dir, 'skills'));
+      expect(fetched.cleanup).toBeUndefined();
+    });
+  });
+});
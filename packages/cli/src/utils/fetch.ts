@@ -0,0 +1,70 @@
+/**
+ * Source fetching utilities
+ */
+
+import { SourceParser } from '@coding-agent-fabric/core';
+import { redactSecrets, type SymlinkMode } from '@coding-agent-fabric/common';
+import { spinner } from './spinner.js';
+import { pnpmAdd, resolvePackagePath } from './pnpm.js';
+import { cloneRepo, isGitUrl } from './git.js';
+
+/**
+ * Source fetching options
+ */
+export interface FetchSourceOptions {
+  pnpm?: boolean; // Install the source as a dev dependency with pnpm instead
+  ref?: string; // Commit to fetch instead of the source's current branch or tag head
+  offline?: boolean; // Only use sources already in the cache
+  symlinks?: SymlinkMode; // How symbolic links in downloaded sources are handled
+}
+
+/**
+ * A fetched source ready for discovery
+ */
+export interface FetchedSource {
+  path: string;
+  resolvedRef?: string; // Commit SHA of git sources, exact version of npm sources
+  cleanup?: () => Promise<void>;
+}
+
+/**
+ * Fetch a source so its resources can be discovered.
+ * Sources are downloaded into the managed cache; in pnpm mode git repositories are cloned
+ * and everything else is installed as a dev dependency.
+ */
+export async function fetchSource(
+  source: string,
+  projectRoot: string,
+  options: FetchSourceOptions = {},
+): Promise<FetchedSource> {
+  // URLs may carry credentials
+  const displayName = redactSecrets(source);
+
+  if (options.pnpm && isGitUrl(source)) {
+    if (options.offline) {
+      throw new Error(`${source} has to be cloned with git, which is not possible offline`);
+    }
+    spinner.start(`Cloning ${displayName}...`);
+    const result = await cloneRepo(source, options.ref);
+    spinner.succeed(`Cloned ${displayName}`);
+    return result;
+  }
+
+  if (options.pnpm) {
+    const packageName = await pnpmAdd(source, projectRoot, { offline: options.offline });
+    return { path: resolvePackagePath(packageName, projectRoot) };
+  }
+
+  spinner.start(`Fetching ${displayName}...`);
+  try {
+    const result = await new SourceParser({ offline: options.offline }).parse(source, {
+      ref: options.ref,
+      symlinks: options.symlinks,
+    });
+    spinner.succeed(`Fetched ${displayName} (${result.metadata.fileCount} file(s))`);
+    return { path: result.localDir, resolvedRef: result.resolvedRef };
+  } catch (error) {
+    spinner.fail(`Failed to fetch ${displayName}`);
+    throw error;
+  }
+}
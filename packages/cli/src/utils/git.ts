@@ -44,11 +44,13 @@ export function normalizeGitUrl(source: string): string {
 }
 
 /**
- * Clone a Git repository to a temporary directory
+ * Clone a Git repository to a temporary directory.
+ * Clones the default branch, or only the given commit when `ref` is set.
  */
 export async function cloneRepo(
   url: string,
-): Promise<{ path: string; cleanup: () => Promise<void> }> {
+  ref?: string,
+): Promise<{ path: string; resolvedRef: string; cleanup: () => Promise<void> }> {
   const normalizedUrl = normalizeGitUrl(url);
   const tempDirBase = join(tmpdir(), 'caf-git-');
   const tempDir = await mkdtemp(tempDirBase);
@@ -56,10 +58,19 @@ export async function cloneRepo(
   const git: SimpleGit = simpleGit();
 
   try {
-    await git.clone(normalizedUrl, tempDir, ['--depth', '1']);
+    if (ref) {
+      const repo = simpleGit(tempDir);
+      await repo.init();
+      await repo.addRemote('origin', normalizedUrl);
+      await repo.fetch(['--depth', '1', 'origin', ref]);
+      await repo.checkout('FETCH_HEAD');
+    } else {
+      await git.clone(normalizedUrl, tempDir, ['--depth', '1']);
+    }
 
     return {
       path: tempDir,
+      resolvedRef: (await simpleGit(tempDir).revparse(['HEAD'])).trim(),
       cleanup: async () => {
         if (existsSync(tempDir)) {
           await rm(tempDir, { recursive: true, force: true });
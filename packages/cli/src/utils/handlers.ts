@@ -0,0 +1,87 @@
+/**
+ * Resource handler utilities
+ */
+
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import {
+  AgentRegistry,
+  PluginManager,
+  RulesHandler,
+  SkillsHandler,
+  SubagentsHandler,
+  type ResourceHandler,
+} from '@coding-agent-fabric/core';
+import {
+  BUILT_IN_HANDLER,
+  CONFIG_DIR_NAME,
+  PLUGIN_DIR_NAME,
+  type AgentType,
+  type Resource,
+} from '@coding-agent-fabric/common';
+
+/**
+ * IDs of the plugins that provided loaded handlers
+ */
+const pluginIds = new WeakMap<ResourceHandler, string>();
+
+/**
+ * Get the plugin search paths (project first, then global)
+ */
+export function getPluginSearchPaths(projectRoot: string): string[] {
+  return [
+    join(projectRoot, CONFIG_DIR_NAME, PLUGIN_DIR_NAME),
+    join(homedir(), CONFIG_DIR_NAME, PLUGIN_DIR_NAME),
+  ];
+}
+
+/**
+ * Load every available resource handler keyed by resource type.
+ * Core handlers always take precedence over plugins registering the same type.
+ */
+export async function loadResourceHandlers(
+  projectRoot: string,
+): Promise<Map<string, ResourceHandler>> {
+  const agentRegistry = new AgentRegistry(projectRoot);
+  const handlers = new Map<string, ResourceHandler>();
+
+  const manager = new PluginManager({
+    searchPaths: getPluginSearchPaths(projectRoot),
+    projectRoot,
+  });
+  await manager.loadAll();
+  for (const plugin of manager.listPlugins()) {
+    const handler = manager.getHandler(plugin.manifest.resourceType);
+    if (handler) {
+      handlers.set(handler.type, handler);
+      pluginIds.set(handler, plugin.manifest.id);
+    }
+  }
+
+  for (const handler of [
+    new SkillsHandler({ agentRegistry, projectRoot }),
+    new RulesHandler({ agentRegistry, projectRoot }),
+    new SubagentsHandler({ agentRegistry, projectRoot }),
+  ]) {
+    handlers.set(handler.type, handler);
+  }
+
+  return handlers;
+}
+
+/**
+ * The ID recorded as the `handler` of lock entries installed by a handler: the ID of the plugin
+ * that provided it, or BUILT_IN_HANDLER for core handlers
+ */
+export function getHandlerId(handler: ResourceHandler): string {
+  return pluginIds.get(handler) ?? BUILT_IN_HANDLER;
+}
+
+/**
+ * The selected agents to install a resource for. A source manifest may limit a resource to
+ * some agents, recorded as `metadata.agents` by discovery.
+ */
+export function getResourceAgents(resource: Resource, agents: AgentType[]): AgentType[] {
+  const allowed = resource.metadata.agents;
+  return Array.isArray(allowed) ? agents.filter((agent) => allowed.includes(agent)) : agents;
+}
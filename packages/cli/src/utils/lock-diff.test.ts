@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { LockDiff } from '@coding-agent-fabric/core';
+import { formatLockDiff, summarizeLockDiff } from './lock-diff.js';
+
+describe('lock diff formatting', () => {
+  const diff: LockDiff = {
+    resources: [
+      {
+        kind: 'added',
+        name: 'new-skill',
+        type: 'skills',
+        toVersion: '1.0.0',
+        toSource: 'owner/repo',
+        contentChanged: false,
+        rollback: false,
+        targets: [
+          {
+            kind: 'added',
+            agent: 'claude-code',
+            scope: 'project',
+            after: { agent: 'claude-code', scope: 'project', path: '.claude/skills/new-skill' },
+          },
+        ],
+      },
+      {
+        kind: 'updated',
+        name: 'react-rule',
+        type: 'rules',
+        fromVersion: '1.0.0',
+        toVersion: '1.1.0',
+        fromSource: 'owner/repo',
+        toSource: 'fork/repo',
+        fromCommit: '1a2b3c4'.padEnd(40, '0'),
+        toCommit: '5d6e7f8'.padEnd(40, '0'),
+        contentChanged: true,
+        rollback: false,
+        targets: [],
+      },
+    ],
+    plugins: [{ kind: 'updated', id: 'mcp', fromVersion: '1.0.0', toVersion: '2.0.0' }],
+  };
+
+  it('summarizes changes', () => {
+    expect(summarizeLockDiff(diff)).toBe('1 added, 0 removed, 1 updated, 1 plugin change(s)');
+  });
+
+  it('renders text', () => {
+    const text = formatLockDiff(diff, 'text');
+    expect(text).toContain('+ new-skill (skills) 1.0.0');
+    expect(text).toContain('+ claude-code (project)');
+    expect(text).toContain('~ react-rule (rules) 1.0.0 → 1.1.0');
+    expect(text).toContain('source: owner/repo → fork/repo');
+    expect(text).toContain('commit: 1a2b3c4 → 5d6e7f8');
+    expect(text).toContain('~ mcp 1.0.0 → 2.0.0');
+  });
+
+  it('renders markdown tables', () => {
+    const markdown = formatLockDiff(diff, 'markdown');
+    expect(markdown).toContain('| updated | `react-rule` | rules | 1.0.0 → 1.1.0 |');
+    expect(markdown).toContain('| updated | `mcp` | 1.0.0 → 2.0.0 |');
+  });
+
+  it('renders JSON', () => {
+    expect(JSON.parse(formatLockDiff(diff, 'json'))).toEqual(diff);
+  });
+
+  it('reports when nothing changed', () => {
+    expect(formatLockDiff({ resources: [], plugins: [] }, 'text')).toBe('No changes');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Lock file diff formatting
+ */
+
+import {
+  isEmptyLockDiff,
+  type LockChangeKind,
+  type LockDiff,
+  type LockResourceChange,
+  type LockTargetChange,
+} from '@coding-agent-fabric/core';
+
+/**
+ * Output formats of `caf lock diff`
+ */
+export const LOCK_DIFF_FORMATS = ['text', 'markdown', 'json'] as const;
+
+export type LockDiffFormat = (typeof LOCK_DIFF_FORMATS)[number];
+
+const SYMBOLS: Record<LockChangeKind, string> = { added: '+', removed: '-', updated: '~' };
+
+/**
+ * Render a lock file diff
+ */
+export function formatLockDiff(diff: LockDiff, format: LockDiffFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(diff, null, 2);
+    case 'markdown':
+      return formatMarkdown(diff);
+    case 'text':
+      return formatText(diff);
+  }
+}
+
+/**
+ * Summarize the number of changes of each kind
+ */
+export function summarizeLockDiff(diff: LockDiff): string {
+  const count = (kind: LockChangeKind) =>
+    diff.resources.filter((change) => change.kind === kind).length;
+  const parts = [
+    `${count('added')} added`,
+    `${count('removed')} removed`,
+    `${count('updated')} updated`,
+  ];
+  if (diff.plugins.length > 0) {
+    parts.push(`${diff.plugins.length} plugin change(s)`);
+  }
+  return parts.join(', ');
+}
+
+function formatText(diff: LockDiff): string {
+  if (isEmptyLockDiff(diff)) {
+    return 'No changes';
+  }
+
+  const lines: string[] = [];
+  if (diff.resources.length > 0) {
+    lines.push('Resources:');
+    for (const change of diff.resources) {
+      lines.push(
+        `  ${SYMBOLS[change.kind]} ${change.name} (${change.type}) ${formatVersion(change)}`,
+      );
+      for (const detail of describeResourceChange(change)) {
+        lines.push(`      ${detail}`);
+      }
+      for (const target of change.targets) {
+        lines.push(`      ${SYMBOLS[target.kind]} ${describeTargetChange(target)}`);
+      }
+    }
+  }
+
+  if (diff.plugins.length > 0) {
+    lines.push('Plugins:');
+    for (const change of diff.plugins) {
+      const enabled =
+        change.fromEnabled !== undefined && change.toEnabled !== change.fromEnabled
+          ? ` (${change.toEnabled ? 'enabled' : 'disabled'})`
+          : '';
+      lines.push(
+        `  ${SYMBOLS[change.kind]} ${change.id} ${formatRange(change.fromVersion, change.toVersion)}${enabled}`,
+      );
+    }
+  }
+
+  lines.push('', summarizeLockDiff(diff));
+  return lines.join('\n');
+}
+
+function formatMarkdown(diff: LockDiff): string {
+  if (isEmptyLockDiff(diff)) {
+    return 'No lock file changes.';
+  }
+
+  const lines: string[] = ['### Lock file changes', '', summarizeLockDiff(diff)];
+
+  if (diff.resources.length > 0) {
+    lines.push('', '| | Resource | Type | Version | Details |', '|---|---|---|---|---|');
+    for (const change of diff.resources) {
+      const details = [
+        ...describeResourceChange(change),
+        ...change.targets.map((target) => `${target.kind} ${describeTargetChange(target)}`),
+      ];
+      lines.push(
+        `| ${change.kind} | \`${change.name}\` | ${change.type} | ${formatVersion(change)} | ${escapeCell(details.join('<br>'))} |`,
+      );
+    }
+  }
+
+  if (diff.plugins.length > 0) {
+    lines.push('', '| | Plugin | Version | Enabled |', '|---|---|---|---|');
+    for (const change of diff.plugins) {
+      const enabled =
+        change.fromEnabled === change.toEnabled || change.kind !== 'updated'
+          ? String(change.toEnabled ?? change.fromEnabled)
+          : `${change.fromEnabled} → ${change.toEnabled}`;
+      lines.push(
+        `| ${change.kind} | \`${change.id}\` | ${formatRange(change.fromVersion, change.toVersion)} | ${enabled} |`,
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function describeResourceChange(change: LockResourceChange): string[] {
+  const details: string[] = [];
+  if (change.kind === 'added') {
+    details.push(`source: ${change.toSource}`);
+  } else if (change.kind === 'updated') {
+    if (change.fromSource !== change.toSource) {
+      details.push(`source: ${change.fromSource} → ${change.toSource}`);
+    }
+    if (change.fromCommit !== change.toCommit) {
+      details.push(`commit: ${shortCommit(change.fromCommit)} → ${shortCommit(change.toCommit)}`);
+    }
+    if (change.rollback) {
+      details.push('rolled back to a previous version');
+    }
+    if (change.contentChanged) {
+      details.push('content changed');
+    }
+  }
+  return details;
+}
+
+function shortCommit(commit: string | undefined): string {
+  return commit ? commit.slice(0, 7) : 'unpinned';
+}
+
+function describeTargetChange(change: LockTargetChange): string {
+  const label = `${change.agent} (${change.scope})`;
+  if (change.kind !== 'updated') {
+    return label;
+  }
+
+  const before = change.before!;
+  const after = change.after!;
+  const details: string[] = [];
+  if (before.path !== after.path) {
+    details.push(`path ${before.path} → ${after.path}`);
+  }
+  if ((before.mode ?? 'copy') !== (after.mode ?? 'copy')) {
+    details.push(`mode ${before.mode ?? 'copy'} → ${after.mode ?? 'copy'}`);
+  }
+  return `${label}: ${details.join(', ')}`;
+}
+
+function formatVersion(change: LockResourceChange): string {
+  return formatRange(change.fromVersion, change.toVersion);
+}
+
+function formatRange(from: string | undefined, to: string | undefined): string {
+  if (from === to) {
+    return from ?? 'unversioned';
+  }
+  return [from, to].filter(Boolean).join(' → ') || 'unversioned';
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
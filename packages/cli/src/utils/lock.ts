@@ -0,0 +1,252 @@
+/**
+ * Lock file utilities
+ */
+
+import { existsSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { isAbsolute, join, relative, resolve } from 'node:path';
+import { hashPath, loadGitHosts, type LockManager } from '@coding-agent-fabric/core';
+import {
+  BUILT_IN_HANDLER,
+  getCurrentTimestamp,
+  isLocalSource,
+  parseSource,
+  stripSourceCredentials,
+  type InstallTarget,
+  type LockInstallTarget,
+  type NamingStrategy,
+  type Resource,
+  type ResourceLockEntry,
+  type Scope,
+  type SourceType,
+} from '@coding-agent-fabric/common';
+
+/**
+ * Source information recorded for every lock entry
+ */
+export interface LockSource {
+  source: string;
+  sourceType: SourceType;
+  sourceUrl: string;
+  ref?: string;
+  resolvedRef?: string;
+}
+
+/**
+ * Describe a user-provided source string for the lock file.
+ * `resolvedRef` is the commit the source was fetched at, pinning git-hosted sources.
+ */
+export function describeSource(source: string, resolvedRef?: string): LockSource {
+  if (isLocalSource(source)) {
+    return {
+      source,
+      sourceType: 'local',
+      sourceUrl: `file://${source}`,
+    };
+  }
+
+  // The lock file is committed, so credentials in URLs are left out; installs from it read
+  // them from the environment or the credentials file instead
+  const stripped = stripSourceCredentials(source);
+
+  // Self-hosted servers are recognized from ~/.coding-agent-fabric/hosts.json
+  const parsed = parseSource(stripped, loadGitHosts());
+  return {
+    source: stripped,
+    sourceType: parsed.type,
+    sourceUrl: stripSourceCredentials(parsed.url),
+    ref: parsed.ref,
+    resolvedRef,
+  };
+}
+
+/**
+ * Convert an absolute install path into the form stored in the lock file
+ */
+export function toLockPath(path: string, scope: Scope, projectRoot: string): string {
+  if (scope === 'project') {
+    return relative(projectRoot, path);
+  }
+
+  const home = homedir();
+  const rel = relative(home, path);
+  if (!rel.startsWith('..') && !isAbsolute(rel)) {
+    return join('~', rel);
+  }
+  return path;
+}
+
+/**
+ * Resolve a path stored in the lock file back into an absolute path
+ */
+export function fromLockPath(path: string, scope: Scope, projectRoot: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1));
+  }
+  return scope === 'project' ? resolve(projectRoot, path) : resolve(path);
+}
+
+/**
+ * Build a lock entry for a discovered resource
+ */
+export function createLockEntry(
+  resource: Resource,
+  source: LockSource,
+  installedFor: LockInstallTarget[],
+  handler: string = BUILT_IN_HANDLER,
+): ResourceLockEntry {
+  const now = getCurrentTimestamp();
+  const metadata = resource.metadata ?? {};
+  const base = {
+    name: resource.name,
+    version: resource.version,
+    handler,
+    ...source,
+    license: metadata.license as string | undefined,
+    installedAt: now,
+    updatedAt: now,
+    installedFor,
+  };
+
+  switch (resource.type) {
+    case 'skills':
+      return {
+        ...base,
+        type: 'skills',
+        skillFolderHash: metadata.skillFolderHash as string | undefined,
+        categories: (metadata.categories as string[] | undefined) ?? [],
+        namingStrategy:
+          (metadata.namingStrategy as NamingStrategy | undefined) ?? 'smart-disambiguation',
+        originalName: (metadata.originalName as string | undefined) ?? resource.name,
+        installedName: resource.name,
+        sourcePath: (metadata.sourcePath as string | undefined) ?? '',
+      };
+
+    case 'rules':
+      return {
+        ...base,
+        type: 'rules',
+        globs: metadata.globs as string[] | undefined,
+        configHash: (metadata.configHash as string | undefined) ?? '',
+      };
+
+    case 'subagents':
+      return {
+        ...base,
+        type: 'subagents',
+        model: metadata.model as string | undefined,
+        format:
+          (metadata.format as
+            | 'coding-agent-fabric-json'
+            | 'claude-code-yaml'
+            | 'markdown-frontmatter'
+            | undefined) ?? 'coding-agent-fabric-json',
+        configHash: (metadata.configHash as string | undefined) ?? '',
+      };
+
+    default: {
+      // Local directories are only meaningful on the machine that discovered the resource
+      const { sourceDir: _sourceDir, ...pluginMetadata } = metadata;
+      return {
+        ...base,
+        type: resource.type,
+        metadata: pluginMetadata,
+      };
+    }
+  }
+}
+
+/**
+ * Snapshot the installed files of each target so they can be restored by a rollback,
+ * and record their digests so that `caf verify` can detect local changes.
+ * Targets whose files do not exist are returned unchanged.
+ */
+export async function captureSnapshots(
+  lockManager: LockManager,
+  targets: LockInstallTarget[],
+  projectRoot: string,
+): Promise<LockInstallTarget[]> {
+  const captured: LockInstallTarget[] = [];
+  for (const target of targets) {
+    const path = fromLockPath(target.path, target.scope, projectRoot);
+    if (!existsSync(path)) {
+      captured.push(target);
+      continue;
+    }
+    captured.push({
+      ...target,
+      snapshot: await lockManager.captureSnapshot(path, target.scope),
+      content: await hashPath(path),
+    });
+  }
+  return captured;
+}
+
+/**
+ * Record an installation in the lock file, snapshotting the installed files.
+ * Targets from a previous installation of the same source are kept.
+ */
+export async function recordInstall(
+  lockManager: LockManager,
+  resource: Resource,
+  source: LockSource,
+  targets: (InstallTarget & { path: string })[],
+  projectRoot: string,
+  handler?: string,
+): Promise<ResourceLockEntry> {
+  const installedFor = await captureSnapshots(
+    lockManager,
+    targets.map((target) => ({
+      agent: target.agent,
+      scope: target.scope,
+      path: toLockPath(target.path, target.scope, projectRoot),
+      mode: target.mode,
+    })),
+    projectRoot,
+  );
+
+  const entry = createLockEntry(resource, source, installedFor, handler);
+  const existing = await lockManager.getResource(resource.name);
+
+  if (existing && existing.source === source.source) {
+    entry.installedAt = existing.installedAt;
+    for (const previous of existing.installedFor) {
+      const replaced = installedFor.some(
+        (target) => target.agent === previous.agent && target.scope === previous.scope,
+      );
+      if (!replaced) {
+        entry.installedFor.push(previous);
+      }
+    }
+  }
+
+  await lockManager.addResource(entry);
+  return entry;
+}
+
+/**
+ * Install items one by one in a single lock file transaction. When an install fails, the items
+ * installed before it are still recorded, since their files are already on disk, and the error
+ * is rethrown once the lock file is saved. Targets the failing install had already written are
+ * not recorded.
+ */
+export async function installEach<T>(
+  lockManager: LockManager,
+  items: T[],
+  install: (item: T) => Promise<void>,
+): Promise<void> {
+  let failure: { error: unknown } | undefined;
+  await lockManager.transaction(async () => {
+    for (const item of items) {
+      try {
+        await install(item);
+      } catch (error) {
+        failure = { error };
+        return;
+      }
+    }
+  });
+  if (failure) {
+    throw failure.error;
+  }
+}
@@ -10,11 +10,17 @@ const execPromise = promisify(exec);
 /**
  * Run pnpm add to install a resource
  */
-export async function pnpmAdd(source: string, projectRoot: string): Promise<string> {
+export async function pnpmAdd(
+  source: string,
+  projectRoot: string,
+  options: { offline?: boolean } = {},
+): Promise<string> {
   spinner.start(`Running pnpm add ${source}...`);
   try {
     // Run pnpm add. We use --save-dev as these are tools/resources
-    await execPromise(`pnpm add -D ${source}`, { cwd: projectRoot });
+    await execPromise(`pnpm add -D ${options.offline ? '--offline ' : ''}${source}`, {
+      cwd: projectRoot,
+    });
     spinner.succeed(`pnpm add successful`);
 
     // Extract package name from pnpm output or package.json
@@ -4,6 +4,7 @@
 
 import inquirer from 'inquirer';
 import type { AgentType, Resource } from '@coding-agent-fabric/common';
+import type { RegistryResource } from '@coding-agent-fabric/core';
 
 /**
  * Prompt for confirmation
@@ -110,6 +111,30 @@ export async function selectResources(
   return resources.filter((r) => selected.includes(r.name));
 }
 
+/**
+ * Prompt for a registry search result to install
+ */
+export async function selectRegistryResource(
+  resources: RegistryResource[],
+): Promise<RegistryResource | undefined> {
+  const { selected } = await inquirer.prompt<{ selected: string }>([
+    {
+      type: 'list',
+      name: 'selected',
+      message: 'Select a resource to install:',
+      choices: [
+        ...resources.map((resource) => ({
+          name: resource.description ? `${resource.name} - ${resource.description}` : resource.name,
+          value: resource.id,
+        })),
+        { name: 'None', value: '' },
+      ],
+    },
+  ]);
+
+  return resources.find((resource) => resource.id === selected);
+}
+
 /**
  * Prompt for text input
  */
@@ -125,3 +150,27 @@ export async function promptText(message: string, defaultValue?: string): Promis
 
   return value;
 }
+
+/**
+ * Prompt for which side of a lock file merge conflict to keep
+ */
+export async function selectConflictSide(
+  name: string,
+  ours: string,
+  theirs: string,
+): Promise<'ours' | 'theirs'> {
+  const { side } = await inquirer.prompt<{ side: 'ours' | 'theirs' }>([
+    {
+      type: 'list',
+      name: 'side',
+      message: `${name} was installed from different sources. Which one should be kept?`,
+      choices: [
+        { name: `Ours (${ours})`, value: 'ours' },
+        { name: `Theirs (${theirs})`, value: 'theirs' },
+      ],
+      default: 'ours',
+    },
+  ]);
+
+  return side;
+}
@@ -2,6 +2,8 @@
  * Constants and configuration for coding-agent-fabric
  */
 
+import type { ExtractLimits, GitHostMap, SourceManifestSection, SymlinkMode } from './types.js';
+
 /**
  * Default lock file version
  */
@@ -12,6 +14,17 @@ export const LOCK_FILE_VERSION = 2;
  */
 export const LOCK_FILE_NAME = 'lock.json';
 
+/**
+ * How long to wait for the lock file to become available (ms)
+ */
+export const LOCK_ACQUIRE_TIMEOUT_MS = 10000;
+
+/**
+ * Time after which a lock file lock held on another host is removed once its owner stops
+ * refreshing it (ms)
+ */
+export const STALE_LOCK_TIMEOUT_MS = 60000;
+
 /**
  * Default configuration directory name
  */
@@ -22,6 +35,31 @@ export const CONFIG_DIR_NAME = '.coding-agent-fabric';
  */
 export const CANONICAL_DIR_NAME = '.agents';
 
+/**
+ * Directory (inside the config directory) holding snapshots of installed resources
+ */
+export const SNAPSHOT_STORE_DIR_NAME = 'store';
+
+/**
+ * Directory (inside the global config directory) caching downloaded sources
+ */
+export const SOURCE_CACHE_DIR_NAME = 'cache';
+
+/**
+ * Directory (inside the config directory) holding the state of `caf dev link`
+ */
+export const DEV_LINK_DIR_NAME = 'dev-link';
+
+/**
+ * File (inside the global config directory) holding per-host credentials
+ */
+export const CREDENTIALS_FILE_NAME = 'credentials.json';
+
+/**
+ * Placeholder written in place of redacted secrets
+ */
+export const REDACTED = '<REDACTED>';
+
 /**
  * Default plugin directory name
  */
@@ -52,6 +90,22 @@ export const DEFAULT_TIMEOUT_MS = 30000;
  */
 export const SKILL_FILE_NAME = 'SKILL.md';
 
+/**
+ * Source manifest file name, at the root of a source
+ */
+export const SOURCE_MANIFEST_FILE_NAME = 'fabric.json';
+
+/**
+ * Sections of a source manifest
+ */
+export const SOURCE_MANIFEST_SECTIONS: readonly SourceManifestSection[] = [
+  'skills',
+  'rules',
+  'subagents',
+  'hooks',
+  'mcp',
+];
+
 /**
  * Subagent configuration file names
  */
@@ -147,6 +201,26 @@ export const GITHUB_API_BASE = 'https://api.github.com';
  */
 export const GITLAB_API_BASE = 'https://gitlab.com/api/v4';
 
+/**
+ * Bitbucket Cloud API base URL
+ */
+export const BITBUCKET_API_BASE = 'https://api.bitbucket.org/2.0';
+
+/**
+ * Git servers known without configuration; their aliases work as in "bitbucket:owner/repo"
+ */
+export const DEFAULT_GIT_HOSTS: GitHostMap = {
+  'github.com': { provider: 'github', apiBase: GITHUB_API_BASE, alias: 'github' },
+  'gitlab.com': { provider: 'gitlab', apiBase: GITLAB_API_BASE, alias: 'gitlab' },
+  'bitbucket.org': { provider: 'bitbucket', apiBase: BITBUCKET_API_BASE, alias: 'bitbucket' },
+  'codeberg.org': { provider: 'gitea', apiBase: 'https://codeberg.org/api/v1', alias: 'codeberg' },
+};
+
+/**
+ * File (inside the global config directory) mapping self-hosted git servers to their provider
+ */
+export const HOSTS_FILE_NAME = 'hosts.json';
+
 /**
  * npm registry URL
  */
@@ -167,6 +241,21 @@ export const USER_AGENT = 'coding-agent-fabric';
  */
 export const MAX_PARALLEL_OPERATIONS = 5;
 
+/**
+ * Default limits for extracting downloaded archives
+ */
+export const DEFAULT_EXTRACT_LIMITS: ExtractLimits = {
+  maxTotalBytes: 512 * 1024 * 1024,
+  maxFileBytes: 100 * 1024 * 1024,
+  maxFiles: 20000,
+  maxDepth: 32,
+};
+
+/**
+ * Default handling of symbolic links in sources, so content shared through links is kept
+ */
+export const DEFAULT_SYMLINK_MODE: SymlinkMode = 'follow';
+
 /**
  * Retry configuration
  */
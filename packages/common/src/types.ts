@@ -35,7 +35,16 @@ export type InstallMode = 'symlink' | 'copy';
 /**
  * Source types for resources
  */
-export type SourceType = 'github' | 'gitlab' | 'npm' | 'local' | 'http' | 'registry';
+export type SourceType =
+  | 'github'
+  | 'gitlab'
+  | 'bitbucket'
+  | 'gitea'
+  | 'git'
+  | 'npm'
+  | 'local'
+  | 'http'
+  | 'registry';
 
 /**
  * Naming strategies for conflict resolution
@@ -68,20 +77,56 @@ export interface ParsedSource {
   url: string;
   owner?: string;
   repo?: string;
-  ref?: string; // Branch, tag, or commit
-  subpath?: string;
+  ref?: string; // Branch, tag, or commit; npm version, range or dist-tag; registry version
+  subpath?: string; // Directory inside the source that holds the resources
+  host?: string; // Self-hosted GitHub Enterprise, GitLab or Gitea server
+  apiBase?: string; // API base URL of a git server
   localPath?: string;
   npmPackage?: string;
   registryId?: string;
 }
 
+/**
+ * A git server with a web API, keyed by host name in a GitHostMap
+ */
+export interface GitHostConfig {
+  provider: 'github' | 'gitlab' | 'bitbucket' | 'gitea'; // "gitea" also covers Forgejo
+  apiBase?: string; // Defaults to <host>/api/v3 for GitHub, /api/v4 for GitLab, /api/v1 for Gitea
+  alias?: string; // Shorthand prefix, as in "ghe:owner/repo"
+}
+
+/**
+ * Git servers by host name
+ */
+export type GitHostMap = Record<string, GitHostConfig>;
+
 /**
  * Resource file to be installed
  */
 export interface ResourceFile {
   path: string;
-  content?: string;
-  mode?: number; // File permissions
+  content?: string; // Text files
+  data?: Uint8Array; // Binary files, written byte for byte
+  mode?: number; // File permissions, including the executable bits
+  linkTarget?: string; // Symbolic links kept as links, relative to the link's directory
+}
+
+/**
+ * How symbolic links in a source are handled when it is walked:
+ * - skip: ignore them
+ * - follow: read what they point to, as long as it is inside the source
+ * - preserve: keep links that point inside the walked directory as links, and follow the rest
+ */
+export type SymlinkMode = 'skip' | 'follow' | 'preserve';
+
+/**
+ * Limits on what extracting one downloaded archive may write
+ */
+export interface ExtractLimits {
+  maxTotalBytes: number; // Size of all files together, and of the download itself
+  maxFileBytes: number; // Size of any one file
+  maxFiles: number;
+  maxDepth: number; // Number of path segments of any entry
 }
 
 /**
@@ -107,6 +152,35 @@ export interface Resource {
   dependencies?: ResourceDependency[];
 }
 
+/**
+ * A resource exported by a source manifest
+ */
+export interface SourceManifestEntry {
+  path: string; // Skill directory, or rule, subagent, hook or MCP file, relative to the manifest
+  name?: string;
+  version?: string;
+  description?: string;
+  categories?: string[];
+  agents?: AgentType[]; // Agents the resource is meant for; every supported agent when omitted
+  dependencies?: ResourceDependency[];
+}
+
+/**
+ * Sections of a source manifest, one per kind of resource
+ */
+export type SourceManifestSection = 'skills' | 'rules' | 'subagents' | 'hooks' | 'mcp';
+
+/**
+ * Source manifest (fabric.json) listing the resources a source exports.
+ * When a source has one, discovery reads it instead of scanning the source.
+ */
+export interface SourceManifest extends Partial<
+  Record<SourceManifestSection, SourceManifestEntry[]>
+> {
+  name?: string;
+  version?: string; // Default version of the exported resources
+}
+
 /**
  * Installation target configuration
  */
@@ -159,6 +233,7 @@ export interface DiscoverOptions {
   includeInternal?: boolean; // Include resources marked as internal
   categories?: string[]; // Filter by categories
   namingStrategy?: NamingStrategy; // Naming strategy for conflict resolution
+  symlinks?: SymlinkMode; // Symbolic link handling, defaults to following them
 }
 
 /**
@@ -217,6 +292,28 @@ export interface PluginLockEntry {
   location: PluginLocation;
 }
 
+/**
+ * SHA-256 digests of the files installed for a target
+ */
+export interface ContentDigest {
+  kind: 'file' | 'directory' | 'symlink';
+  digest: string; // File contents, combined file digests, or symlink target
+  files?: Record<string, string>; // Digest of each file in a directory, keyed by relative path
+  target?: ContentDigest; // What a symlink points to; absent for dangling links
+}
+
+/**
+ * Installation target recorded in the lock file
+ */
+export interface LockInstallTarget {
+  agent: AgentType;
+  scope: Scope;
+  path: string; // Relative to the project root for project scope, "~/"-prefixed for global
+  mode?: InstallMode;
+  snapshot?: string; // Snapshot id of the installed files in the snapshot store
+  content?: ContentDigest; // Digests of the installed files, used to detect drift
+}
+
 /**
  * Base resource lock entry
  */
@@ -228,18 +325,20 @@ export interface BaseResourceLockEntry {
   source: string;
   sourceType: SourceType;
   sourceUrl: string;
+  ref?: string; // Branch, tag or npm version range requested by the source; latest when omitted
+  resolvedRef?: string; // Commit SHA or exact npm version the ref resolved to at install time
+  license?: string; // SPDX license expression declared by the resource
   installedAt: string;
   updatedAt: string;
-  installedFor: {
-    agent: AgentType;
-    scope: Scope;
-    path: string;
-  }[];
+  installedFor: LockInstallTarget[];
   history?: {
     version?: string;
     updatedAt: string;
     source: string;
+    ref?: string;
+    resolvedRef?: string;
     metadata?: Record<string, unknown>;
+    installedFor?: LockInstallTarget[]; // Targets (and their snapshots) at that version
   }[];
 }
 
@@ -291,6 +390,11 @@ export type ResourceLockEntry =
   | RuleLockEntry
   | PluginResourceLockEntry;
 
+/**
+ * Resource lock entry annotated with the lock file (project or global) it was read from
+ */
+export type ScopedResourceLockEntry = ResourceLockEntry & { lockScope: Scope };
+
 /**
  * Audit outcome
  */
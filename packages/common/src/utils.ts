@@ -2,15 +2,54 @@
  * Utility functions for coding-agent-fabric
  */
 
-import { sep, resolve, relative, isAbsolute } from 'node:path';
-import { ParsedSource, AgentType } from './types.js';
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join, sep, resolve, relative, isAbsolute } from 'node:path';
+import {
+  ParsedSource,
+  AgentType,
+  ResourceFile,
+  GitHostConfig,
+  GitHostMap,
+  SourceManifest,
+  SourceManifestEntry,
+} from './types.js';
+import {
+  DEFAULT_GIT_HOSTS,
+  REDACTED,
+  SOURCE_MANIFEST_FILE_NAME,
+  SOURCE_MANIFEST_SECTIONS,
+} from './constants.js';
 
 /**
- * Parse a source string into a ParsedSource object
+ * Check whether a source string is a local path: ".", "..", "~", or a path starting with
+ * "./", "../", "/" or "~/"
  */
-export function parseSource(input: string): ParsedSource {
-  // Local path: "./path" or "/absolute/path" (check FIRST to avoid false GitHub matches)
-  if (input.startsWith('./') || input.startsWith('/') || input.startsWith('~/')) {
+export function isLocalSource(input: string): boolean {
+  return /^(?:\.{1,2}|~)(?:\/|$)|^\//.test(input);
+}
+
+/**
+ * Parse a source string into a ParsedSource object.
+ * `hosts` maps self-hosted GitHub Enterprise and GitLab servers to their provider.
+ *
+ * Every source may end in "#path/to/dir" to use only that directory. Repositories, npm packages
+ * and registry resources also take "@ref": a branch, tag or commit, an npm version, range or
+ * dist-tag, or a registry version. Repository shorthands may name the directory as further path
+ * segments instead, as in "owner/repo/path/to/skills@v1.2"; npm packages use the fragment, as in
+ * "npm:pkg@2#skills/react".
+ */
+export function parseSource(input: string, hosts: GitHostMap = {}): ParsedSource {
+  const hashIndex = input.indexOf('#');
+  if (hashIndex !== -1) {
+    const parsed = parseSource(input.slice(0, hashIndex), hosts);
+    return { ...parsed, subpath: joinSubpaths(parsed.subpath, input.slice(hashIndex + 1)) };
+  }
+
+  // Local path (check FIRST to avoid false GitHub matches)
+  if (isLocalSource(input)) {
     return {
       type: 'local',
       url: `file://${input}`,
@@ -18,38 +57,38 @@ export function parseSource(input: string): ParsedSource {
     };
   }
 
+  // Plain git over SSH: "git@host:org/repo.git" or "ssh://git@host/org/repo.git"
+  if (/^[\w.-]+@[\w.-]+:/.test(input) || /^(?:ssh|git):\/\//.test(input)) {
+    return parseGitUrl(input);
+  }
+
   // HTTP/HTTPS URL (check before GitHub to avoid false matches)
   if (input.startsWith('http://') || input.startsWith('https://')) {
-    // GitHub URL: "https://github.com/owner/repo"
-    const githubUrlMatch = input.match(
-      /^https?:\/\/github\.com\/([^/]+)\/([^/#]+)(?:\/tree\/([^/]+)(?:\/(.+))?)?$/,
-    );
-    if (githubUrlMatch) {
-      const [, owner, repo, ref, subpath] = githubUrlMatch;
-      return {
-        type: 'github',
-        url: `https://github.com/${owner}/${repo}`,
-        owner,
-        repo,
-        ref,
-        subpath,
-      };
+    // Repository URL on a known or configured server: "https://host/owner/repo[@ref]" or
+    // "https://host/owner/repo/<tree path>/ref/path", such as "/tree/main/skills" on GitHub
+    const [, protocol, host, path] = input.match(/^(https?):\/\/([^/]+)\/(.*?)\/?$/) ?? [];
+    const gitHost = host ? findGitHost(host, hosts) : undefined;
+    if (gitHost) {
+      const treePath = GIT_TREE_PATHS[gitHost.config.provider];
+      const repoMatch = path.match(
+        new RegExp(`^([^/]+)/([^/@]+?)(?:\\.git)?(?:${treePath}/([^/]+)(?:/(.+))?|@(.+))?$`),
+      );
+      if (repoMatch) {
+        const [, owner, repo, treeRef, subpath, ref] = repoMatch;
+        return {
+          ...describeGitHost(gitHost, protocol),
+          url: `${gitHost.custom ? protocol : 'https'}://${gitHost.host}/${owner}/${repo}`,
+          owner,
+          repo,
+          ref: treeRef ?? ref,
+          subpath: joinSubpaths(subpath),
+        };
+      }
     }
 
-    // GitLab URL
-    const gitlabUrlMatch = input.match(
-      /^https?:\/\/gitlab\.com\/([^/]+)\/([^/#]+)(?:\/-\/tree\/([^/]+)(?:\/(.+))?)?$/,
-    );
-    if (gitlabUrlMatch) {
-      const [, owner, repo, ref, subpath] = gitlabUrlMatch;
-      return {
-        type: 'gitlab',
-        url: `https://gitlab.com/${owner}/${repo}`,
-        owner,
-        repo,
-        ref,
-        subpath,
-      };
+    // Any other repository cloned over HTTPS
+    if (/\.git(?:[/@]|$)/.test(path ?? '')) {
+      return parseGitUrl(input);
     }
 
     // Generic HTTP URL
@@ -59,35 +98,52 @@ export function parseSource(input: string): ParsedSource {
     };
   }
 
-  // GitHub shorthand: "owner/repo"
-  const githubShorthandMatch = input.match(/^([^/]+)\/([^/]+)$/);
-  if (githubShorthandMatch) {
-    const [, owner, repo] = githubShorthandMatch;
+  // Repository shorthand with a host alias: "ghe:owner/repo[/path][@ref]"
+  const aliasMatch = input.match(/^([a-z][\w-]*):(.+)$/i);
+  const aliasHost = aliasMatch && findGitHostByAlias(aliasMatch[1], hosts);
+  const aliasRepo = aliasHost ? parseRepoShorthand(aliasMatch[2]) : undefined;
+  if (aliasHost && aliasRepo) {
     return {
-      type: 'github',
-      url: `https://github.com/${owner}/${repo}`,
-      owner,
-      repo,
+      ...describeGitHost(aliasHost, 'https'),
+      url: `https://${aliasHost.host}/${aliasRepo.owner}/${aliasRepo.repo}`,
+      ...aliasRepo,
     };
   }
 
-  // npm package: "npm:package-name" or "@scope/package"
+  // npm package: "npm:package-name" or "@scope/package", optionally with "@version", "@range" or "@tag".
+  // Checked before the GitHub shorthand, which would otherwise match scoped names.
   if (input.startsWith('npm:') || input.startsWith('@')) {
-    const npmPackage = input.startsWith('npm:') ? input.slice(4) : input;
+    const specifier = input.startsWith('npm:') ? input.slice(4) : input;
+    // The "@" of a scope is not a version separator
+    const versionIndex = specifier.indexOf('@', 1);
+    const npmPackage = versionIndex === -1 ? specifier : specifier.slice(0, versionIndex);
+    const ref = versionIndex === -1 ? undefined : specifier.slice(versionIndex + 1) || undefined;
     return {
       type: 'npm',
       url: `https://www.npmjs.com/package/${npmPackage}`,
       npmPackage,
+      ref,
     };
   }
 
-  // Registry: "registry:resource-id"
+  // Registry: "registry:resource-id[@version]"
   if (input.startsWith('registry:')) {
-    const registryId = input.slice(9);
+    const [registryId, ref] = input.slice(9).split('@', 2);
     return {
       type: 'registry',
-      url: input,
+      url: `registry:${registryId}`,
       registryId,
+      ref: ref || undefined,
+    };
+  }
+
+  // GitHub shorthand: "owner/repo[/path][@ref]"
+  const githubRepo = parseRepoShorthand(input);
+  if (githubRepo) {
+    return {
+      type: 'github',
+      url: `https://github.com/${githubRepo.owner}/${githubRepo.repo}`,
+      ...githubRepo,
     };
   }
 
@@ -100,6 +156,115 @@ export function parseSource(input: string): ParsedSource {
   };
 }
 
+/**
+ * Parse "owner/repo[/path/to/dir][@ref]"; everything after the last "@" is the ref
+ */
+function parseRepoShorthand(
+  input: string,
+): Pick<ParsedSource, 'owner' | 'repo' | 'ref' | 'subpath'> | undefined {
+  const match = input.match(/^([^/@]+)\/([^/@]+)(?:\/([^@]*))?(?:@([^@]+))?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, owner, repo, subpath, ref] = match;
+  return { owner, repo, ref, subpath: joinSubpaths(subpath) };
+}
+
+/**
+ * Join subpaths, dropping empty segments and surrounding slashes; undefined when nothing is left
+ */
+function joinSubpaths(...subpaths: (string | undefined)[]): string | undefined {
+  const segments = subpaths.flatMap((subpath) => (subpath ?? '').split('/')).filter(Boolean);
+  return segments.length > 0 ? segments.join('/') : undefined;
+}
+
+/**
+ * Path prefix of a file tree in each provider's repository URLs
+ */
+const GIT_TREE_PATHS: Record<GitHostConfig['provider'], string> = {
+  github: '/tree',
+  gitlab: '/-/tree',
+  bitbucket: '/src',
+  gitea: '/src/(?:branch|tag|commit)',
+};
+
+/**
+ * API path of self-hosted servers
+ */
+const GIT_API_PATHS: Record<GitHostConfig['provider'], string> = {
+  github: '/api/v3',
+  gitlab: '/api/v4',
+  bitbucket: '/rest/api/1.0',
+  gitea: '/api/v1',
+};
+
+/**
+ * Parse a repository fetched with git itself: "<clone URL>[/subpath][@ref]".
+ * The subpath and ref are only recognized after a ".git" suffix.
+ */
+function parseGitUrl(input: string): ParsedSource {
+  const match = input.match(/^(.+?\.git)(?:\/([^@]*?))?\/?(?:@([^@]+))?$/);
+  const url = match ? match[1] : input;
+  const host = url.match(/^(?:[\w+]+:\/\/)?(?:[^@/]+@)?([^:/]+)/)?.[1];
+  return {
+    type: 'git',
+    url,
+    host,
+    ref: match?.[3],
+    subpath: match?.[2] || undefined,
+  };
+}
+
+interface ResolvedGitHost {
+  host: string;
+  config: GitHostConfig;
+  custom: boolean; // Configured by the user rather than built in
+}
+
+function findGitHost(host: string, hosts: GitHostMap): ResolvedGitHost | undefined {
+  const name = host.toLowerCase();
+  if (hosts[name]) {
+    return { host: name, config: hosts[name], custom: true };
+  }
+  if (DEFAULT_GIT_HOSTS[name]) {
+    return { host: name, config: DEFAULT_GIT_HOSTS[name], custom: false };
+  }
+  return undefined;
+}
+
+function findGitHostByAlias(alias: string, hosts: GitHostMap): ResolvedGitHost | undefined {
+  for (const [custom, map] of [
+    [true, hosts],
+    [false, DEFAULT_GIT_HOSTS],
+  ] as const) {
+    const host = Object.keys(map).find((name) => map[name].alias === alias);
+    if (host) {
+      return { host, config: map[host], custom };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Provider, and for configured servers the host and API base, of a git-hosted source
+ */
+function describeGitHost(
+  { host, config, custom }: ResolvedGitHost,
+  protocol: string,
+): Pick<ParsedSource, 'type' | 'host' | 'apiBase'> {
+  if (!custom) {
+    return { type: config.provider };
+  }
+  return {
+    type: config.provider,
+    host,
+    apiBase: (config.apiBase ?? `${protocol}://${host}${GIT_API_PATHS[config.provider]}`).replace(
+      /\/+$/,
+      '',
+    ),
+  };
+}
+
 /**
  * Normalize a path (resolve ~, remove trailing slashes)
  */
@@ -107,9 +272,8 @@ export function normalizePath(path: string): string {
   let normalized = path;
 
   // Expand ~ to home directory
-  if (normalized.startsWith('~/')) {
-    const homeDir = process.env.HOME || process.env.USERPROFILE || '';
-    normalized = normalized.replace('~', homeDir);
+  if (normalized === '~' || normalized.startsWith('~/')) {
+    normalized = homedir() + normalized.slice(1);
   }
 
   // Remove trailing slashes
@@ -328,3 +492,239 @@ export function safeJoin(baseDir: string, ...parts: string[]): string {
   }
   return target;
 }
+
+/**
+ * Compute the hex SHA-256 digest of some content
+ */
+export function sha256(content: string | Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Check whether a string is a hex SHA-256 digest
+ */
+export function isSha256(value: string): boolean {
+  return /^[0-9a-f]{64}$/.test(value);
+}
+
+/**
+ * Check whether a string is a registry resource ID that is safe to use as a path segment
+ */
+export function isRegistryId(value: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(value);
+}
+
+/**
+ * Check whether a string is a full git commit SHA
+ */
+export function isCommitSha(value: string): boolean {
+  return /^[0-9a-f]{40}$/i.test(value);
+}
+
+/**
+ * Combine per-file digests, keyed by relative path, into a single digest.
+ * The result does not depend on key order or on the platform path separator.
+ */
+export function hashFileDigests(files: Record<string, string>): string {
+  // One line per file in the format of sha256sum, ordered by path
+  const lines = Object.entries(files)
+    .map(([path, digest]) => [path.split(sep).join('/'), digest])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([path, digest]) => `${digest}  ${path}\n`);
+  return sha256(lines.join(''));
+}
+
+/**
+ * Compute the digest of a resource from its files
+ */
+export function hashResourceFiles(files: ResourceFile[]): string {
+  return hashFileDigests(
+    Object.fromEntries(
+      files.map((file) => [
+        file.path,
+        sha256(
+          file.linkTarget !== undefined
+            ? `link:${file.linkTarget}`
+            : (getResourceFileData(file) ?? ''),
+        ),
+      ]),
+    ),
+  );
+}
+
+/**
+ * Whether file contents are binary: like git, a NUL byte in the first 8000 bytes, or else
+ * anything that is not valid UTF-8
+ */
+export function isBinaryContent(data: Uint8Array): boolean {
+  if (data.subarray(0, 8000).includes(0)) {
+    return true;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Build a resource file from the bytes read from disk, keeping binary files as bytes
+ */
+export function createResourceFile(path: string, data: Uint8Array, mode?: number): ResourceFile {
+  return isBinaryContent(data)
+    ? { path, data, mode }
+    : { path, content: new TextDecoder('utf-8', { ignoreBOM: true }).decode(data), mode };
+}
+
+/**
+ * The contents to write for a resource file, or undefined when it has none
+ */
+export function getResourceFileData(file: ResourceFile): string | Uint8Array | undefined {
+  return file.data ?? file.content;
+}
+
+/**
+ * Replace `${VAR}` references with environment variables; unset variables become empty
+ */
+export function expandEnvVars(value: string, env: NodeJS.ProcessEnv = process.env): string {
+  return value.replace(/\$\{([^}]+)\}/g, (_, name: string) => env[name] ?? '');
+}
+
+/**
+ * Query parameters that carry credentials in source URLs
+ */
+const CREDENTIAL_QUERY_PARAM =
+  /token|secret|password|signature|^sig$|^key$|api[_-]?key|credential/i;
+
+/**
+ * Remove credentials from a source before it is stored, as in the lock file: the user info of
+ * HTTP URLs, the password of other URLs (keeping SSH user names such as "git") and query
+ * parameters named like tokens. Sources are fetched again with credentials from the
+ * environment or the credentials file.
+ */
+export function stripSourceCredentials(source: string): string {
+  let stripped = source.replace(
+    /^([a-z][a-z0-9+.-]*:\/\/)([^\s/@]+)@/i,
+    (_, scheme: string, userInfo: string) => {
+      if (/^https?:\/\//i.test(scheme)) {
+        return scheme;
+      }
+      return `${scheme}${userInfo.split(':')[0]}@`;
+    },
+  );
+
+  const queryStart = stripped.indexOf('?');
+  if (queryStart !== -1 && /^[a-z][a-z0-9+.-]*:\/\//i.test(stripped)) {
+    const hashIndex = stripped.indexOf('#', queryStart);
+    const queryEnd = hashIndex === -1 ? stripped.length : hashIndex;
+    const params = new URLSearchParams(stripped.slice(queryStart + 1, queryEnd));
+    const names = [...params.keys()].filter((name) => CREDENTIAL_QUERY_PARAM.test(name));
+    if (names.length > 0) {
+      for (const name of names) {
+        params.delete(name);
+      }
+      const query = params.toString();
+      stripped =
+        stripped.slice(0, queryStart) + (query ? `?${query}` : '') + stripped.slice(queryEnd);
+    }
+  }
+
+  return stripped;
+}
+
+/**
+ * Remove credentials from text that may be logged or shown to the user: the given secrets,
+ * passwords in URLs, Authorization header values and well-known token formats
+ */
+export function redactSecrets(text: string, secrets: Iterable<string> = []): string {
+  let redacted = text;
+  // Longest first so that a secret containing another is replaced whole
+  for (const secret of [...secrets].sort((a, b) => b.length - a.length)) {
+    // Very short values would mangle unrelated text
+    if (secret.length >= 4) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted
+    .replace(/(\b[a-z][a-z0-9+.-]*:\/\/)[^\s/@]+@/gi, `$1${REDACTED}@`)
+    .replace(/\b(Bearer|Basic|token)\s+[A-Za-z0-9._~+/=-]{8,}/g, `$1 ${REDACTED}`)
+    .replace(/\b(?:gh[pousr]_[A-Za-z0-9]{20,}|github_pat_\w{20,}|glpat-[\w-]{20,})/g, REDACTED);
+}
+
+/**
+ * Read the source manifest (fabric.json) at the root of a source, or undefined when there is none
+ */
+export async function readSourceManifest(dir: string): Promise<SourceManifest | undefined> {
+  const path = join(dir, SOURCE_MANIFEST_FILE_NAME);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return parseSourceManifest(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${path}: ${error}`);
+  }
+}
+
+/**
+ * Parse and validate the contents of a source manifest
+ */
+export function parseSourceManifest(content: string): SourceManifest {
+  const manifest = JSON.parse(content) as SourceManifest;
+  const fail: (message: string) => never = (message) => {
+    throw new Error(`Invalid ${SOURCE_MANIFEST_FILE_NAME}: ${message}`);
+  };
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    fail('expected an object');
+  }
+
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+  for (const section of SOURCE_MANIFEST_SECTIONS) {
+    const entries: unknown = manifest[section];
+    if (entries === undefined) {
+      continue;
+    }
+    if (!Array.isArray(entries)) {
+      fail(`${section} must be an array`);
+    }
+    (entries as Partial<SourceManifestEntry>[]).forEach((entry, index) => {
+      const at = `${section}[${index}]`;
+      if (typeof entry?.path !== 'string' || !entry.path) {
+        fail(`${at}.path must be a non-empty string`);
+      }
+      if (isAbsolute(entry.path) || entry.path.split(/[\\/]/).includes('..')) {
+        fail(`${at}.path must stay inside the source`);
+      }
+      for (const key of ['name', 'version', 'description'] as const) {
+        if (entry[key] !== undefined && typeof entry[key] !== 'string') {
+          fail(`${at}.${key} must be a string`);
+        }
+      }
+      if (entry.categories !== undefined && !isStringArray(entry.categories)) {
+        fail(`${at}.categories must be an array of strings`);
+      }
+      if (
+        entry.agents !== undefined &&
+        !(isStringArray(entry.agents) && entry.agents.every(isSupportedAgent))
+      ) {
+        fail(`${at}.agents must list supported agents`);
+      }
+      if (
+        entry.dependencies !== undefined &&
+        !(
+          Array.isArray(entry.dependencies) &&
+          entry.dependencies.every(
+            (dependency) =>
+              typeof dependency?.type === 'string' && typeof dependency?.name === 'string',
+          )
+        )
+      ) {
+        fail(`${at}.dependencies must have a type and name`);
+      }
+    });
+  }
+  return manifest;
+}
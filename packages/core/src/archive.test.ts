@@ -0,0 +1,233 @@
+/**
+ * Tests for archive detection and extraction
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { crc32, deflateRawSync } from 'node:zlib';
+import * as tar from 'tar';
+import { DEFAULT_EXTRACT_LIMITS } from '@coding-agent-fabric/common';
+import {
+  ExtractLimitError,
+  detectArchiveFormat,
+  extractArchive,
+  findArchiveRoot,
+} from './archive.js';
+
+/**
+ * Build a zip archive with deflated entries made by a Unix tool
+ */
+function createZip(entries: { name: string; content?: string; mode?: number }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const content = Buffer.from(entry.content ?? '');
+    const data = deflateRawSync(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(content), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc32(content), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((entry.mode ?? 0o100644) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+describe('archive', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `archive-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, 'out'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('detectArchiveFormat', () => {
+    it('should prefer magic bytes', () => {
+      expect(
+        detectArchiveFormat({
+          header: createZip([]),
+          contentType: 'application/octet-stream',
+          url: 'https://example.com/download',
+        }),
+      ).toBe('zip');
+      expect(detectArchiveFormat({ header: Buffer.from([0x1f, 0x8b, 0x08]) })).toBe('tar.gz');
+
+      const tarHeader = Buffer.alloc(512);
+      tarHeader.write('ustar', 257, 'latin1');
+      expect(detectArchiveFormat({ header: tarHeader, url: 'https://example.com/a.zip' })).toBe(
+        'tar',
+      );
+    });
+
+    it('should fall back to the Content-Type header and extension', () => {
+      expect(detectArchiveFormat({ contentType: 'application/zip; charset=binary' })).toBe('zip');
+      expect(detectArchiveFormat({ url: 'https://example.com/skills.tgz?token=1' })).toBe('tar.gz');
+      expect(detectArchiveFormat({ url: 'https://example.com/skills.tar' })).toBe('tar');
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() =>
+        detectArchiveFormat({ header: Buffer.from('hello'), url: 'https://example.com/a.rar' }),
+      ).toThrow(/Unsupported archive format/);
+    });
+  });
+
+  describe('extractArchive', () => {
+    it('should extract zip archives and keep permissions', async () => {
+      const zipPath = join(testDir, 'skills.zip');
+      await writeFile(
+        zipPath,
+        createZip([
+          { name: 'pack/', mode: 0o040755 },
+          { name: 'pack/SKILL.md', content: '# Skill' },
+          { name: 'pack/bin/run.sh', content: 'echo hi', mode: 0o100755 },
+          { name: 'pack/empty.md' },
+          { name: 'pack/large.md', content: 'abc'.repeat(100000) },
+        ]),
+      );
+
+      await extractArchive(zipPath, 'zip', join(testDir, 'out'));
+      expect(await readFile(join(testDir, 'out', 'pack', 'SKILL.md'), 'utf-8')).toBe('# Skill');
+      expect(await readFile(join(testDir, 'out', 'pack', 'empty.md'), 'utf-8')).toBe('');
+      expect(await readFile(join(testDir, 'out', 'pack', 'large.md'), 'utf-8')).toBe(
+        'abc'.repeat(100000),
+      );
+      expect((await stat(join(testDir, 'out', 'pack', 'bin', 'run.sh'))).mode & 0o777).toBe(0o755);
+    });
+
+    it('should skip zip entries that escape the target directory', async () => {
+      const zipPath = join(testDir, 'evil.zip');
+      await writeFile(
+        zipPath,
+        createZip([
+          { name: '../evil.txt', content: 'evil' },
+          { name: '/etc/evil.txt', content: 'evil' },
+          { name: 'link', content: '/etc/passwd', mode: 0o120777 },
+          { name: 'safe.txt', content: 'safe' },
+        ]),
+      );
+
+      await extractArchive(zipPath, 'zip', join(testDir, 'out'));
+      expect(existsSync(join(testDir, 'evil.txt'))).toBe(false);
+      expect(existsSync(join(testDir, 'out', 'link'))).toBe(false);
+      expect(existsSync(join(testDir, 'out', 'safe.txt'))).toBe(true);
+    });
+
+    it('should detect corrupt zip entries', async () => {
+      const zip = createZip([{ name: 'SKILL.md', content: '# Skill' }]);
+      zip.writeUInt32LE(0, zip.length - 22 - 46 - 'SKILL.md'.length + 16);
+      const zipPath = join(testDir, 'corrupt.zip');
+      await writeFile(zipPath, zip);
+
+      await expect(extractArchive(zipPath, 'zip', join(testDir, 'out'))).rejects.toThrow(
+        /checksum mismatch/,
+      );
+    });
+
+    it('should extract plain tar archives', async () => {
+      await mkdir(join(testDir, 'src'), { recursive: true });
+      await writeFile(join(testDir, 'src', 'SKILL.md'), '# Skill');
+      await tar.c({ file: join(testDir, 'skills.tar'), cwd: join(testDir, 'src') }, ['SKILL.md']);
+
+      await extractArchive(join(testDir, 'skills.tar'), 'tar', join(testDir, 'out'));
+      expect(await readFile(join(testDir, 'out', 'SKILL.md'), 'utf-8')).toBe('# Skill');
+    });
+
+    it('should stop tar extraction at the file count and size limits', async () => {
+      await mkdir(join(testDir, 'src'), { recursive: true });
+      for (const name of ['a.md', 'b.md', 'c.md']) {
+        await writeFile(join(testDir, 'src', name), 'x'.repeat(100));
+      }
+      const tarPath = join(testDir, 'skills.tgz');
+      await tar.c({ file: tarPath, gzip: true, cwd: join(testDir, 'src') }, [
+        'a.md',
+        'b.md',
+        'c.md',
+      ]);
+
+      const extract = (limits: Partial<typeof DEFAULT_EXTRACT_LIMITS>) =>
+        extractArchive(tarPath, 'tar.gz', join(testDir, 'out'), {
+          ...DEFAULT_EXTRACT_LIMITS,
+          ...limits,
+        });
+      await expect(extract({ maxFiles: 2 })).rejects.toThrow('Archive contains more than 2 files');
+      await expect(extract({ maxFileBytes: 99 })).rejects.toMatchObject({
+        limit: 'maxFileBytes',
+        max: 99,
+      });
+      await expect(extract({ maxTotalBytes: 250 })).rejects.toBeInstanceOf(ExtractLimitError);
+      await expect(extract({ maxFiles: 3, maxTotalBytes: 300 })).resolves.toBeUndefined();
+    });
+
+    it('should reject zip entries nested too deeply or expanding beyond their size', async () => {
+      const zipPath = join(testDir, 'deep.zip');
+      await writeFile(zipPath, createZip([{ name: 'a/b/c/d/SKILL.md', content: '# Skill' }]));
+      await expect(
+        extractArchive(zipPath, 'zip', join(testDir, 'out'), {
+          ...DEFAULT_EXTRACT_LIMITS,
+          maxDepth: 4,
+        }),
+      ).rejects.toThrow('Archive entry a/b/c/d/SKILL.md is nested deeper than 4 levels');
+
+      // Declare a smaller uncompressed size than the entry inflates to
+      const zip = createZip([{ name: 'SKILL.md', content: '# Skill' }]);
+      zip.writeUInt32LE(2, zip.length - 22 - 46 - 'SKILL.md'.length + 24);
+      await writeFile(zipPath, zip);
+      await expect(extractArchive(zipPath, 'zip', join(testDir, 'out'))).rejects.toThrow(
+        /larger than declared/,
+      );
+    });
+  });
+
+  describe('findArchiveRoot', () => {
+    it('should unwrap a single top-level directory', async () => {
+      await mkdir(join(testDir, 'out', 'owner-repo-abc123'));
+      await mkdir(join(testDir, 'out', '__MACOSX'));
+      expect(await findArchiveRoot(join(testDir, 'out'))).toBe(
+        join(testDir, 'out', 'owner-repo-abc123'),
+      );
+    });
+
+    it('should keep archives with files at the top level', async () => {
+      await mkdir(join(testDir, 'out', 'docs'));
+      await writeFile(join(testDir, 'out', 'SKILL.md'), '# Skill');
+      expect(await findArchiveRoot(join(testDir, 'out'))).toBe(join(testDir, 'out'));
+    });
+  });
+});
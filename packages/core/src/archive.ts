@@ -0,0 +1,414 @@
+/**
+ * Archive format detection and extraction
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, open, readdir, type FileHandle } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { crc32, createInflateRaw } from 'node:zlib';
+import * as tar from 'tar';
+import {
+  DEFAULT_EXTRACT_LIMITS,
+  SUPPORTED_ARCHIVE_FORMATS,
+  type ExtractLimits,
+} from '@coding-agent-fabric/common';
+
+/**
+ * Archive formats SourceParser can extract
+ */
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+/**
+ * Information available to identify an archive
+ */
+export interface ArchiveHints {
+  contentType?: string; // Content-Type response header
+  url?: string; // Download URL, for its extension
+  header?: Uint8Array; // First bytes of the archive (at least 262 to recognize tar)
+}
+
+const CONTENT_TYPES: Record<string, ArchiveFormat> = {
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/gzip': 'tar.gz',
+  'application/x-gzip': 'tar.gz',
+  'application/x-tar': 'tar',
+};
+
+const EXTENSIONS: Record<(typeof SUPPORTED_ARCHIVE_FORMATS)[number], ArchiveFormat> = {
+  '.zip': 'zip',
+  '.tar.gz': 'tar.gz',
+  '.tgz': 'tar.gz',
+  '.tar': 'tar',
+};
+
+/**
+ * Error thrown when a download or an archive's contents exceed one of the ExtractLimits
+ */
+export class ExtractLimitError extends Error {
+  constructor(
+    readonly limit: keyof ExtractLimits,
+    readonly max: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ExtractLimitError';
+  }
+}
+
+/**
+ * Number of leading bytes `detectArchiveFormat` looks at
+ */
+export const ARCHIVE_HEADER_SIZE = 262;
+
+/**
+ * Identify an archive from its magic bytes, falling back to the Content-Type header and the
+ * URL extension. Magic bytes win because release assets are often served as octet-stream.
+ */
+export function detectArchiveFormat(hints: ArchiveHints): ArchiveFormat {
+  const { header } = hints;
+  if (header) {
+    // "PK\x03\x04" starts a zip entry; "PK\x05\x06" is an empty zip
+    if (header[0] === 0x50 && header[1] === 0x4b && (header[2] === 0x03 || header[2] === 0x05)) {
+      return 'zip';
+    }
+    if (header[0] === 0x1f && header[1] === 0x8b) {
+      return 'tar.gz';
+    }
+    if (Buffer.from(header.subarray(257, 262)).toString('latin1') === 'ustar') {
+      return 'tar';
+    }
+  }
+
+  const contentType = hints.contentType?.split(';')[0].trim().toLowerCase();
+  if (contentType && CONTENT_TYPES[contentType]) {
+    return CONTENT_TYPES[contentType];
+  }
+
+  if (hints.url) {
+    const pathname = new URL(hints.url, 'file:///').pathname.toLowerCase();
+    const extension = SUPPORTED_ARCHIVE_FORMATS.find((ext) => pathname.endsWith(ext));
+    if (extension) {
+      return EXTENSIONS[extension];
+    }
+  }
+
+  throw new Error(
+    `Unsupported archive format${hints.url ? ` for ${hints.url}` : ''}` +
+      (contentType ? ` (${contentType})` : ''),
+  );
+}
+
+/**
+ * Check that an archive entry stays inside the extraction directory
+ */
+export function isSafeArchivePath(path: string): boolean {
+  // Prevent path traversal by ensuring no ".." parts
+  const isTraversal = path.split(/[\\/]/).some((part) => part === '..');
+  // Also prevent absolute paths, including Windows drive letters
+  const isAbsolute = path.startsWith('/') || path.startsWith('\\') || /^[A-Z]:/i.test(path);
+  return !isTraversal && !isAbsolute;
+}
+
+/**
+ * Read the first bytes of an archive file for format detection
+ */
+export async function readArchiveHeader(path: string): Promise<Uint8Array> {
+  const handle = await open(path, 'r');
+  try {
+    const buffer = Buffer.alloc(ARCHIVE_HEADER_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, ARCHIVE_HEADER_SIZE, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Extract an archive into a directory.
+ * Entries that would escape the directory are skipped. Extraction stops with an
+ * ExtractLimitError as soon as an entry exceeds one of the limits.
+ */
+export async function extractArchive(
+  archivePath: string,
+  format: ArchiveFormat,
+  targetDir: string,
+  limits: ExtractLimits = DEFAULT_EXTRACT_LIMITS,
+): Promise<void> {
+  const checkEntry = createLimitCheck(limits);
+
+  if (format === 'zip') {
+    await extractZip(archivePath, targetDir, checkEntry);
+    return;
+  }
+
+  // tar detects gzip compression from the stream itself and writes entries as they arrive
+  const unpack = tar.x({
+    cwd: targetDir,
+    filter: (path, entry) => {
+      if (!isSafeArchivePath(path)) {
+        return false;
+      }
+      try {
+        checkEntry(path, 'type' in entry && entry.type === 'Directory' ? undefined : entry.size);
+        return true;
+      } catch (error) {
+        unpack.abort(error as Error);
+        return false;
+      }
+    },
+  });
+  await pipeline(createReadStream(archivePath), unpack);
+}
+
+/**
+ * Create a check that counts the entries of one archive against the limits.
+ * Directories are passed without a size and only count towards the depth limit.
+ */
+function createLimitCheck(limits: ExtractLimits): (path: string, size?: number) => void {
+  let files = 0;
+  let totalBytes = 0;
+
+  return (path, size) => {
+    if (path.split(/[\\/]/).filter(Boolean).length > limits.maxDepth) {
+      throw new ExtractLimitError(
+        'maxDepth',
+        limits.maxDepth,
+        `Archive entry ${path} is nested deeper than ${limits.maxDepth} levels`,
+      );
+    }
+    if (size === undefined) {
+      return;
+    }
+    if (size > limits.maxFileBytes) {
+      throw new ExtractLimitError(
+        'maxFileBytes',
+        limits.maxFileBytes,
+        `Archive entry ${path} is ${size} bytes, more than the limit of ${limits.maxFileBytes}`,
+      );
+    }
+    if (++files > limits.maxFiles) {
+      throw new ExtractLimitError(
+        'maxFiles',
+        limits.maxFiles,
+        `Archive contains more than ${limits.maxFiles} files`,
+      );
+    }
+    totalBytes += size;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new ExtractLimitError(
+        'maxTotalBytes',
+        limits.maxTotalBytes,
+        `Archive expands to more than ${limits.maxTotalBytes} bytes`,
+      );
+    }
+  };
+}
+
+/**
+ * Directory holding an extracted archive's contents.
+ * Archives that wrap everything in one top-level directory (GitHub tarballs, npm packages,
+ * most release zips) are unwrapped; archives with several top-level entries are used as-is.
+ */
+export async function findArchiveRoot(dir: string): Promise<string> {
+  const entries = (await readdir(dir, { withFileTypes: true })).filter(
+    // macOS zips carry resource forks next to the real root
+    (entry) => entry.name !== '__MACOSX',
+  );
+
+  if (entries.length === 0) {
+    throw new Error('Archive is empty');
+  }
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    return join(dir, entries[0].name);
+  }
+  return dir;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Read `length` bytes of an open file, failing when the file ends first
+ */
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new Error('Invalid zip archive: unexpected end of file');
+  }
+  return buffer;
+}
+
+/**
+ * Extract a zip archive file, reading its central directory and then streaming each entry to
+ * disk, so that only one chunk of an entry is in memory at a time.
+ * Stored and deflated entries are supported; symbolic links are skipped.
+ * Entries are checked against the limits by the sizes the central directory declares, and
+ * inflating stops at the declared size so an entry cannot expand beyond it.
+ */
+async function extractZip(
+  archivePath: string,
+  targetDir: string,
+  checkEntry: (path: string, size?: number) => void,
+): Promise<void> {
+  const handle = await open(archivePath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+
+    // The end of central directory record is followed by a comment of up to 64 KiB
+    const tailLength = Math.min(fileSize, 22 + 0xffff);
+    const tail = await readAt(handle, fileSize - tailLength, tailLength);
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new Error('Invalid zip archive: end of central directory not found');
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+    if (directoryOffset + directorySize > fileSize) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+    const directory = await readAt(handle, directoryOffset, directorySize);
+
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (
+        offset + 46 > directory.length ||
+        directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE
+      ) {
+        throw new Error('Invalid zip archive: corrupt central directory');
+      }
+
+      const madeBy = directory.readUInt16LE(offset + 4) >> 8;
+      const flags = directory.readUInt16LE(offset + 8);
+      const method = directory.readUInt16LE(offset + 10);
+      const crc = directory.readUInt32LE(offset + 16);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const size = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const externalAttributes = directory.readUInt32LE(offset + 38);
+      const localOffset = directory.readUInt32LE(offset + 42);
+      const name = directory.toString(
+        flags & 0x800 ? 'utf-8' : 'latin1',
+        offset + 46,
+        offset + 46 + nameLength,
+      );
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      // Permission bits are only recorded by Unix zip tools
+      const unixMode = madeBy === 3 ? externalAttributes >>> 16 : 0;
+      if (!isSafeArchivePath(name) || (unixMode & S_IFMT) === S_IFLNK) {
+        continue;
+      }
+
+      const path = join(targetDir, name);
+      checkEntry(name, name.endsWith('/') ? undefined : size);
+      if (name.endsWith('/')) {
+        await mkdir(path, { recursive: true });
+        continue;
+      }
+
+      if (flags & 0x1) {
+        throw new Error(`Encrypted zip entries are not supported: ${name}`);
+      }
+      if (method !== 0 && method !== 8) {
+        throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+      }
+      const localHeader = await readAt(handle, localOffset, 30);
+      if (localHeader.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Invalid zip archive: corrupt local header for ${name}`);
+      }
+      const dataStart =
+        localOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+      if (dataStart + compressedSize > fileSize) {
+        throw new Error(`Invalid zip archive: ${name} extends past the end of the file`);
+      }
+
+      await mkdir(dirname(path), { recursive: true });
+      const checksum = await writeZipEntry(handle, path, {
+        start: dataStart,
+        compressedSize,
+        size,
+        deflated: method === 8,
+        mode: unixMode & 0o777 || 0o644,
+        name,
+      });
+      if (checksum !== crc) {
+        throw new Error(`Invalid zip archive: checksum mismatch for ${name}`);
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Stream one zip entry from the archive to `path` and return the CRC-32 of its contents.
+ * Fails as soon as the entry expands beyond its declared size.
+ */
+async function writeZipEntry(
+  handle: FileHandle,
+  path: string,
+  entry: {
+    start: number;
+    compressedSize: number;
+    size: number;
+    deflated: boolean;
+    mode: number;
+    name: string;
+  },
+): Promise<number> {
+  let written = 0;
+  let checksum = 0;
+  const check = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      written += chunk.length;
+      if (written > entry.size) {
+        callback(new Error(`Invalid zip archive: ${entry.name} is larger than declared`));
+        return;
+      }
+      checksum = crc32(chunk, checksum);
+      callback(null, chunk);
+    },
+  });
+
+  const output = createWriteStream(path, { mode: entry.mode });
+  if (entry.compressedSize === 0) {
+    await pipeline(Readable.from([]), check, output);
+  } else {
+    // The handle stays open for the next entry
+    const data = handle.createReadStream({
+      start: entry.start,
+      end: entry.start + entry.compressedSize - 1,
+      autoClose: false,
+    });
+    if (entry.deflated) {
+      await pipeline(data, createInflateRaw(), check, output);
+    } else {
+      await pipeline(data, check, output);
+    }
+  }
+
+  if (written !== entry.size) {
+    throw new Error(`Invalid zip archive: checksum mismatch for ${entry.name}`);
+  }
+  return checksum;
+}
@@ -4,7 +4,7 @@
 
 import { userInfo, homedir } from 'node:os';
 import { relative, isAbsolute, join } from 'node:path';
-import type { AuditRecord } from '@coding-agent-fabric/common';
+import { redactSecrets, type AuditRecord } from '@coding-agent-fabric/common';
 
 /**
  * AuditLogger options
@@ -27,6 +27,7 @@ export class AuditLogger {
   private projectRoot?: string;
   private globalRoot?: string;
   private homeDir: string;
+  private secrets = new Set<string>();
 
   constructor(options: AuditLoggerOptions = {}) {
     this.enabled = options.enabled ?? true;
@@ -51,6 +52,15 @@ export class AuditLogger {
     this.globalRoot = root;
   }
 
+  /**
+   * Register credentials that must never appear in audit records
+   */
+  addSecrets(secrets: Iterable<string>): void {
+    for (const secret of secrets) {
+      this.secrets.add(secret);
+    }
+  }
+
   /**
    * Log an audit event
    */
@@ -60,8 +70,10 @@ export class AuditLogger {
     // Sanitize targetPath if present
     const sanitizedRecord = {
       ...record,
+      resourceName: this.redact(record.resourceName),
       targetPath: this.sanitizePath(record.targetPath),
       details: this.sanitizeDetails(record.details),
+      error: record.error && this.redact(record.error),
     };
 
     const auditRecord: AuditRecord = {
@@ -108,7 +120,14 @@ export class AuditLogger {
   }
 
   /**
-   * Recursively sanitize paths in details object
+   * Remove registered secrets and credential-like values from text
+   */
+  public redact(text: string): string {
+    return redactSecrets(text, this.secrets);
+  }
+
+  /**
+   * Recursively sanitize paths and redact credentials in details object
    */
   private sanitizeDetails(details?: Record<string, unknown>): Record<string, unknown> | undefined {
     if (!details) return details;
@@ -116,12 +135,18 @@ export class AuditLogger {
     const sanitized: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(details)) {
       if (typeof value === 'string' && (key.toLowerCase().includes('path') || isAbsolute(value))) {
-        sanitized[key] = this.sanitizePath(value);
+        sanitized[key] = this.sanitizePath(this.redact(value));
+      } else if (typeof value === 'string') {
+        sanitized[key] = this.redact(value);
       } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
         sanitized[key] = this.sanitizeDetails(value as Record<string, unknown>);
       } else if (Array.isArray(value)) {
         sanitized[key] = value.map((item) =>
-          typeof item === 'string' && isAbsolute(item) ? this.sanitizePath(item) : item,
+          typeof item === 'string'
+            ? isAbsolute(item)
+              ? this.sanitizePath(this.redact(item))
+              : this.redact(item)
+            : item,
         );
       } else {
         sanitized[key] = value;
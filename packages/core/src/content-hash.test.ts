@@ -0,0 +1,120 @@
+/**
+ * Tests for content hashing and drift detection
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { hashResourceFiles, sha256 } from '@coding-agent-fabric/common';
+import { detectDrift, hashPath } from './content-hash.js';
+
+describe('content hashing', () => {
+  let testDir: string;
+  let skillDir: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `content-hash-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    );
+    skillDir = join(testDir, 'skill');
+    await mkdir(join(skillDir, 'scripts'), { recursive: true });
+    await writeFile(join(skillDir, 'SKILL.md'), '# Skill');
+    await writeFile(join(skillDir, 'scripts', 'run.sh'), '#!/bin/sh\n');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should hash a directory like the files it was installed from', async () => {
+    const content = await hashPath(skillDir);
+
+    expect(content.kind).toBe('directory');
+    expect(content.files).toEqual({
+      'SKILL.md': sha256('# Skill'),
+      [join('scripts', 'run.sh')]: sha256('#!/bin/sh\n'),
+    });
+    expect(content.digest).toBe(
+      hashResourceFiles([
+        { path: 'SKILL.md', content: '# Skill' },
+        { path: 'scripts/run.sh', content: '#!/bin/sh\n' },
+      ]),
+    );
+  });
+
+  it('should hash single files and symlinks', async () => {
+    expect(await hashPath(join(skillDir, 'SKILL.md'))).toEqual({
+      kind: 'file',
+      digest: sha256('# Skill'),
+    });
+
+    await symlink(skillDir, join(testDir, 'link'));
+    expect(await hashPath(join(testDir, 'link'))).toEqual({
+      kind: 'symlink',
+      digest: sha256(skillDir),
+      target: await hashPath(skillDir),
+    });
+  });
+
+  it('should report changes to the files a symlink points to', async () => {
+    const link = join(testDir, 'link');
+    await symlink(skillDir, link);
+    const content = await hashPath(link);
+    expect(await detectDrift(link, content)).toBeUndefined();
+
+    await writeFile(join(skillDir, 'SKILL.md'), '# Edited');
+    expect(await detectDrift(link, content)).toEqual({
+      status: 'modified',
+      modifiedFiles: ['SKILL.md'],
+      addedFiles: [],
+      removedFiles: [],
+    });
+
+    await rm(skillDir, { recursive: true });
+    expect((await detectDrift(link, content))?.status).toBe('deleted');
+  });
+
+  it('should report no drift for unchanged files', async () => {
+    const content = await hashPath(skillDir);
+    expect(await detectDrift(skillDir, content)).toBeUndefined();
+  });
+
+  it('should report modified, added and removed files', async () => {
+    const content = await hashPath(skillDir);
+    await writeFile(join(skillDir, 'SKILL.md'), '# Edited');
+    await writeFile(join(skillDir, 'notes.md'), 'new');
+    await rm(join(skillDir, 'scripts', 'run.sh'));
+
+    expect(await detectDrift(skillDir, content)).toEqual({
+      status: 'modified',
+      modifiedFiles: ['SKILL.md'],
+      addedFiles: ['notes.md'],
+      removedFiles: [join('scripts', 'run.sh')],
+    });
+  });
+
+  it('should report deleted targets', async () => {
+    const content = await hashPath(skillDir);
+    await rm(skillDir, { recursive: true });
+
+    expect((await detectDrift(skillDir, content))?.status).toBe('deleted');
+  });
+
+  it('should report targets replaced by something else', async () => {
+    const content = await hashPath(skillDir);
+    await rm(skillDir, { recursive: true });
+    await writeFile(skillDir, 'not a skill');
+    expect((await detectDrift(skillDir, content))?.status).toBe('unmanaged');
+
+    await rm(skillDir);
+    await mkdir(join(testDir, 'elsewhere'));
+    const link = join(testDir, 'link');
+    await symlink(join(testDir, 'other'), link);
+    const linked = await hashPath(link);
+    await rm(link);
+    await symlink(join(testDir, 'elsewhere'), link);
+    expect((await detectDrift(link, linked))?.status).toBe('unmanaged');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Content hashing of installed resources and drift detection
+ */
+
+import { lstat, readdir, readFile, readlink, stat } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { hashFileDigests, sha256, type ContentDigest } from '@coding-agent-fabric/common';
+
+/**
+ * How installed files differ from what was recorded
+ * - modified: the files were edited in place
+ * - deleted: nothing exists at the install path anymore
+ * - unmanaged: something of a different kind (or a symlink to elsewhere) took its place
+ */
+export type DriftStatus = 'modified' | 'deleted' | 'unmanaged';
+
+/**
+ * Drift detected for a single install target
+ */
+export interface ContentDrift {
+  status: DriftStatus;
+  modifiedFiles: string[];
+  addedFiles: string[];
+  removedFiles: string[];
+}
+
+/**
+ * Hash the file, directory or symbolic link at `path`.
+ * For a symbolic link, such as a symlink-mode install, what it points to is hashed as well.
+ */
+export async function hashPath(path: string): Promise<ContentDigest> {
+  const stats = await lstat(path);
+
+  if (stats.isSymbolicLink()) {
+    const digest: ContentDigest = { kind: 'symlink', digest: sha256(await readlink(path)) };
+    const targetStats = await stat(path).catch(() => undefined);
+    if (targetStats) {
+      digest.target = await hashContent(path, targetStats.isDirectory());
+    }
+    return digest;
+  }
+
+  return hashContent(path, stats.isDirectory());
+}
+
+/**
+ * Hash a file or a directory, following `path` itself if it is a symbolic link
+ */
+async function hashContent(path: string, isDirectory: boolean): Promise<ContentDigest> {
+  if (!isDirectory) {
+    return { kind: 'file', digest: sha256(await readFile(path)) };
+  }
+
+  const files: Record<string, string> = {};
+  for (const file of await walk(path)) {
+    const fileStats = await lstat(file);
+    files[relative(path, file)] = fileStats.isSymbolicLink()
+      ? sha256(await readlink(file))
+      : sha256(await readFile(file));
+  }
+  return { kind: 'directory', digest: hashFileDigests(files), files };
+}
+
+/**
+ * Compare the files at `path` with their recorded digests.
+ * Returns undefined when nothing changed.
+ */
+export async function detectDrift(
+  path: string,
+  expected: ContentDigest,
+): Promise<ContentDrift | undefined> {
+  // lstat so that a dangling symlink still counts as present
+  const stats = await lstat(path).catch(() => undefined);
+  if (!stats) {
+    return { status: 'deleted', modifiedFiles: [], addedFiles: [], removedFiles: [] };
+  }
+
+  const actual = await hashPath(path);
+  if (actual.kind !== 'symlink' || expected.kind !== 'symlink') {
+    return compareDigests(actual, expected);
+  }
+  if (actual.digest !== expected.digest) {
+    return { status: 'unmanaged', modifiedFiles: [], addedFiles: [], removedFiles: [] };
+  }
+
+  // Entries recorded before link targets were hashed only know where the link points
+  if (!expected.target) {
+    return undefined;
+  }
+  if (!actual.target) {
+    return { status: 'deleted', modifiedFiles: [], addedFiles: [], removedFiles: [] };
+  }
+  return compareDigests(actual.target, expected.target);
+}
+
+/**
+ * Compare the digests of a file or directory with the recorded ones
+ */
+function compareDigests(actual: ContentDigest, expected: ContentDigest): ContentDrift | undefined {
+  if (actual.kind !== expected.kind) {
+    return { status: 'unmanaged', modifiedFiles: [], addedFiles: [], removedFiles: [] };
+  }
+  if (actual.digest === expected.digest) {
+    return undefined;
+  }
+
+  const recorded = expected.files ?? {};
+  const current = actual.files ?? {};
+  return {
+    status: 'modified',
+    modifiedFiles: Object.keys(current).filter(
+      (file) => file in recorded && recorded[file] !== current[file],
+    ),
+    addedFiles: Object.keys(current).filter((file) => !(file in recorded)),
+    removedFiles: Object.keys(recorded).filter((file) => !(file in current)),
+  };
+}
+
+/**
+ * List files and symbolic links below a directory
+ */
+async function walk(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(fullPath)));
+    } else {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,122 @@
+/**
+ * Tests for credential loading and auth headers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  getAuthHeaders,
+  getCredentialSecrets,
+  loadCredentials,
+  parseNetrc,
+} from './credentials.js';
+
+describe('credentials', () => {
+  let testDir: string;
+  let netrcPath: string;
+  let credentialsPath: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `credentials-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    );
+    await mkdir(testDir, { recursive: true });
+    netrcPath = join(testDir, '.netrc');
+    credentialsPath = join(testDir, 'credentials.json');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('parseNetrc', () => {
+    it('reads machine entries and ignores the default entry', () => {
+      const hosts = parseNetrc(
+        [
+          '# comment',
+          'machine git.example.com login ci password pw1',
+          'machine Files.Example.com',
+          '  login alice',
+          '  account team',
+          '  password pw2',
+          'default login anonymous password guest',
+        ].join('\n'),
+      );
+
+      expect(hosts).toEqual({
+        'git.example.com': { username: 'ci', password: 'pw1' },
+        'files.example.com': { username: 'alice', password: 'pw2' },
+      });
+    });
+  });
+
+  describe('loadCredentials', () => {
+    it('lets the environment override the credentials file and netrc', async () => {
+      await writeFile(netrcPath, 'machine github.com login me password netrc-pw');
+      await writeFile(
+        credentialsPath,
+        JSON.stringify({
+          hosts: {
+            'git.example.com': { token: '${EXAMPLE_TOKEN}', header: 'PRIVATE-TOKEN' },
+            'github.com': { token: 'file-token' },
+          },
+        }),
+      );
+
+      const config = loadCredentials({
+        env: { GH_TOKEN: 'env-token', GITLAB_TOKEN: 'gl-token', EXAMPLE_TOKEN: 'expanded' },
+        netrcPath,
+        credentialsPath,
+      });
+
+      expect(config.hosts['github.com']).toEqual({ token: 'env-token' });
+      expect(config.hosts['api.github.com']).toEqual({ token: 'env-token' });
+      expect(config.hosts['gitlab.com']).toEqual({ token: 'gl-token', header: 'PRIVATE-TOKEN' });
+      expect(config.hosts['git.example.com']).toEqual({
+        token: 'expanded',
+        header: 'PRIVATE-TOKEN',
+      });
+    });
+
+    it('fails clearly on an invalid credentials file', async () => {
+      await writeFile(credentialsPath, '{ not json');
+      expect(() => loadCredentials({ env: {}, netrcPath, credentialsPath })).toThrow(
+        /Failed to read .*credentials\.json/,
+      );
+    });
+  });
+
+  describe('getAuthHeaders', () => {
+    const config = {
+      hosts: {
+        'api.github.com': { token: 'gh' },
+        'gitlab.com': { token: 'gl', header: 'PRIVATE-TOKEN' },
+        'files.example.com:8443': { username: 'alice', password: 'pw' },
+      },
+    };
+
+    it('builds the header each host expects', () => {
+      expect(getAuthHeaders(config, 'https://api.github.com/repos/o/r')).toEqual({
+        Authorization: 'Bearer gh',
+      });
+      expect(getAuthHeaders(config, 'https://gitlab.com/api/v4/projects/1')).toEqual({
+        'PRIVATE-TOKEN': 'gl',
+      });
+      expect(getAuthHeaders(config, 'https://files.example.com:8443/a.zip')).toEqual({
+        Authorization: `Basic ${Buffer.from('alice:pw').toString('base64')}`,
+      });
+    });
+
+    it('sends nothing to other hosts', () => {
+      expect(getAuthHeaders(config, 'https://files.example.com/a.zip')).toEqual({});
+      expect(getAuthHeaders(config, 'https://evil.example.org/api.github.com')).toEqual({});
+    });
+
+    it('lists every secret for redaction', () => {
+      expect(getCredentialSecrets(config)).toEqual(['gh', 'gl', 'pw']);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Credentials for private sources: environment tokens, netrc and the credentials file
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { expandEnvVars, CONFIG_DIR_NAME, CREDENTIALS_FILE_NAME } from '@coding-agent-fabric/common';
+
+/**
+ * Credential used for one host
+ */
+export interface HostCredential {
+  token?: string; // Sent as a bearer token, or in `header` when set
+  header?: string; // Header carrying the raw token instead of Authorization, e.g. "PRIVATE-TOKEN"
+  username?: string; // Sent with `password` as Basic authentication
+  password?: string;
+}
+
+/**
+ * Credentials per host name (with the port, if any)
+ */
+export interface CredentialConfig {
+  hosts: Record<string, HostCredential>;
+}
+
+/**
+ * Where to look for credentials; defaults to the process environment and the user's files
+ */
+export interface LoadCredentialsOptions {
+  env?: NodeJS.ProcessEnv;
+  netrcPath?: string;
+  credentialsPath?: string; // Defaults to ~/.coding-agent-fabric/credentials.json
+}
+
+/**
+ * Collect credentials from netrc, the credentials file and the environment, in increasing
+ * order of precedence. `GITHUB_TOKEN`/`GH_TOKEN` apply to github.com, `GITLAB_TOKEN` to gitlab.com
+ * and `BITBUCKET_TOKEN` to bitbucket.org.
+ */
+export function loadCredentials(options: LoadCredentialsOptions = {}): CredentialConfig {
+  const env = options.env ?? process.env;
+  const config: CredentialConfig = { hosts: {} };
+
+  const netrcPath =
+    options.netrcPath ??
+    env.NETRC ??
+    join(homedir(), process.platform === 'win32' ? '_netrc' : '.netrc');
+  if (existsSync(netrcPath)) {
+    Object.assign(config.hosts, parseNetrc(readFileSync(netrcPath, 'utf-8')));
+  }
+
+  const credentialsPath =
+    options.credentialsPath ?? join(homedir(), CONFIG_DIR_NAME, CREDENTIALS_FILE_NAME);
+  if (existsSync(credentialsPath)) {
+    try {
+      const file = JSON.parse(readFileSync(credentialsPath, 'utf-8')) as Partial<CredentialConfig>;
+      for (const [host, credential] of Object.entries(file.hosts ?? {})) {
+        config.hosts[host.toLowerCase()] = expandCredential(credential, env);
+      }
+    } catch (error) {
+      throw new Error(`Failed to read ${credentialsPath}: ${error}`);
+    }
+  }
+
+  const githubToken = env.GITHUB_TOKEN || env.GH_TOKEN;
+  if (githubToken) {
+    // Tarballs are requested from the API host
+    config.hosts['github.com'] = { token: githubToken };
+    config.hosts['api.github.com'] = { token: githubToken };
+  }
+  if (env.BITBUCKET_TOKEN) {
+    config.hosts['bitbucket.org'] = { token: env.BITBUCKET_TOKEN };
+    config.hosts['api.bitbucket.org'] = { token: env.BITBUCKET_TOKEN };
+  }
+  if (env.GITLAB_TOKEN) {
+    config.hosts['gitlab.com'] = { token: env.GITLAB_TOKEN, header: 'PRIVATE-TOKEN' };
+  }
+
+  return config;
+}
+
+/**
+ * Read machine entries from a netrc file.
+ * The `default` entry is ignored so credentials are only sent to hosts they were written for.
+ */
+export function parseNetrc(content: string): Record<string, HostCredential> {
+  const hosts: Record<string, HostCredential> = {};
+  const tokens = content
+    .split('\n')
+    .filter((line) => !line.trim().startsWith('#'))
+    .join('\n')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  let current: HostCredential | undefined;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === 'machine') {
+      current = {};
+      hosts[(tokens[++i] ?? '').toLowerCase()] = current;
+    } else if (token === 'default') {
+      current = undefined;
+    } else if (token === 'login' && current) {
+      current.username = tokens[++i];
+    } else if (token === 'password' && current) {
+      current.password = tokens[++i];
+    } else if (token === 'account') {
+      i++;
+    }
+  }
+  return hosts;
+}
+
+/**
+ * Headers that authenticate a request to a URL, or none when no credential matches its host
+ */
+export function getAuthHeaders(config: CredentialConfig, url: string): Record<string, string> {
+  const { host, hostname } = new URL(url);
+  const credential = config.hosts[host.toLowerCase()] ?? config.hosts[hostname.toLowerCase()];
+  if (!credential) {
+    return {};
+  }
+
+  if (credential.token) {
+    return credential.header
+      ? { [credential.header]: credential.token }
+      : { Authorization: `Bearer ${credential.token}` };
+  }
+  if (credential.username && credential.password) {
+    const basic = Buffer.from(`${credential.username}:${credential.password}`).toString('base64');
+    return { Authorization: `Basic ${basic}` };
+  }
+  return {};
+}
+
+/**
+ * Every secret in the configuration, for redaction
+ */
+export function getCredentialSecrets(config: CredentialConfig): string[] {
+  return Object.values(config.hosts).flatMap((credential) =>
+    [credential.token, credential.password].filter((secret): secret is string => !!secret),
+  );
+}
+
+function expandCredential(credential: HostCredential, env: NodeJS.ProcessEnv): HostCredential {
+  return Object.fromEntries(
+    Object.entries(credential).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? expandEnvVars(value, env) : value,
+    ]),
+  ) as HostCredential;
+}
@@ -0,0 +1,94 @@
+/**
+ * Tests for file locks
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync } from 'node:fs';
+import { mkdir, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { hostname, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { acquireFileLock } from './file-lock.js';
+
+describe('acquireFileLock', () => {
+  let testDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `file-lock-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+    lockPath = join(testDir, 'lock.json.lock');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should create and release the lock file', async () => {
+    const release = await acquireFileLock(lockPath);
+    expect(existsSync(lockPath)).toBe(true);
+
+    await release();
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('should time out while another holder has the lock', async () => {
+    const release = await acquireFileLock(lockPath);
+
+    await expect(acquireFileLock(lockPath, { timeout: 100, retryInterval: 10 })).rejects.toThrow(
+      /Timed out after 100ms/,
+    );
+    await release();
+  });
+
+  it('should wait for the lock to be released', async () => {
+    const release = await acquireFileLock(lockPath);
+    setTimeout(() => void release(), 50);
+
+    const second = await acquireFileLock(lockPath, { timeout: 2000, retryInterval: 10 });
+    expect(existsSync(lockPath)).toBe(true);
+    await second();
+  });
+
+  it('should take over locks left by processes that no longer exist', async () => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({ pid: 2 ** 22 + 1, hostname: hostname(), createdAt: Date.now() }),
+    );
+
+    const release = await acquireFileLock(lockPath, { timeout: 100 });
+    await release();
+  });
+
+  it('should take over locks from other hosts that are no longer refreshed', async () => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({ pid: process.pid, hostname: 'elsewhere', createdAt: Date.now() - 10000 }),
+    );
+    const refreshed = new Date(Date.now() - 10000);
+    await utimes(lockPath, refreshed, refreshed);
+
+    const release = await acquireFileLock(lockPath, { timeout: 100, staleTimeout: 1000 });
+    await release();
+  });
+
+  it('should keep old locks of live processes on this host', async () => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({ pid: process.pid, hostname: hostname(), createdAt: Date.now() - 10000 }),
+    );
+
+    await expect(
+      acquireFileLock(lockPath, { timeout: 100, staleTimeout: 1000, retryInterval: 10 }),
+    ).rejects.toThrow(/Timed out/);
+  });
+
+  it('should refresh held locks so other hosts do not take them over', async () => {
+    const release = await acquireFileLock(lockPath, { staleTimeout: 100 });
+    const acquiredAt = Date.now();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const { mtimeMs } = await stat(lockPath);
+    expect(mtimeMs).toBeGreaterThan(acquiredAt);
+    await release();
+  });
+});
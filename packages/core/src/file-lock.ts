@@ -0,0 +1,148 @@
+/**
+ * Cross-process advisory file locks
+ */
+
+import { open, readFile, stat, unlink, utimes } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { LOCK_ACQUIRE_TIMEOUT_MS, STALE_LOCK_TIMEOUT_MS } from '@coding-agent-fabric/common';
+
+/**
+ * File lock options
+ */
+export interface FileLockOptions {
+  timeout?: number; // How long to wait for the lock (ms)
+  staleTimeout?: number; // Time after which an unrefreshed lock from another host is removed (ms)
+  retryInterval?: number; // Delay between attempts (ms)
+}
+
+/**
+ * Contents of a lock file
+ */
+interface FileLockOwner {
+  pid: number;
+  hostname: string;
+  createdAt: number;
+}
+
+/**
+ * Release function returned when a lock is acquired
+ */
+export type ReleaseFileLock = () => Promise<void>;
+
+/**
+ * Acquire an exclusive advisory lock by creating `path`.
+ * Locks left behind by crashed processes are removed automatically. While the lock is held its
+ * modification time is refreshed, so that processes on other hosts, which cannot check whether
+ * the owner is alive, only take it over once the owner stops refreshing it.
+ */
+export async function acquireFileLock(
+  path: string,
+  options: FileLockOptions = {},
+): Promise<ReleaseFileLock> {
+  const timeout = options.timeout ?? LOCK_ACQUIRE_TIMEOUT_MS;
+  const staleTimeout = options.staleTimeout ?? STALE_LOCK_TIMEOUT_MS;
+  const retryInterval = options.retryInterval ?? 50;
+  const deadline = Date.now() + timeout;
+
+  const owner: FileLockOwner = { pid: process.pid, hostname: hostname(), createdAt: Date.now() };
+
+  for (;;) {
+    try {
+      const handle = await open(path, 'wx');
+      try {
+        await handle.writeFile(JSON.stringify(owner), 'utf-8');
+      } finally {
+        await handle.close();
+      }
+      const heartbeat = setInterval(() => {
+        const now = new Date();
+        void utimes(path, now, now).catch(() => undefined);
+      }, staleTimeout / 2);
+      heartbeat.unref();
+      return () => {
+        clearInterval(heartbeat);
+        return releaseFileLock(path, owner);
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw new Error(`Failed to acquire lock ${path}: ${error}`);
+      }
+    }
+
+    const staleOwner = await getStaleOwner(path, staleTimeout);
+    if (staleOwner) {
+      // Only remove the lock we judged stale, not one a competing process just took
+      await releaseFileLock(path, staleOwner);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      const holder = await readOwner(path);
+      throw new Error(
+        `Timed out after ${timeout}ms waiting for lock ${path}` +
+          (holder ? ` (held by pid ${holder.pid} on ${holder.hostname})` : ''),
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, retryInterval));
+  }
+}
+
+/**
+ * Release a lock if it is still held by the given owner
+ */
+async function releaseFileLock(path: string, owner: FileLockOwner): Promise<void> {
+  const current = await readOwner(path);
+  if (
+    current &&
+    current.pid === owner.pid &&
+    current.hostname === owner.hostname &&
+    current.createdAt === owner.createdAt
+  ) {
+    await unlink(path).catch(() => undefined);
+  }
+}
+
+/**
+ * Get the owner of a lock abandoned by a crashed process: a process on this host that no
+ * longer exists, or a lock from another host that has not been refreshed within `staleTimeout`
+ */
+async function getStaleOwner(
+  path: string,
+  staleTimeout: number,
+): Promise<FileLockOwner | undefined> {
+  const owner = await readOwner(path);
+  if (!owner) {
+    // The lock was released, or its owner has not finished writing it yet
+    return undefined;
+  }
+
+  if (owner.hostname === hostname()) {
+    return isProcessAlive(owner.pid) ? undefined : owner;
+  }
+
+  try {
+    const expired = Date.now() - (await stat(path)).mtimeMs > staleTimeout;
+    return expired ? owner : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readOwner(path: string): Promise<FileLockOwner | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as FileLockOwner;
+  } catch {
+    return undefined;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Tests for fetching sources with git
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { lsRemote, sparseFetch } from './git-fetch.js';
+
+describe('git fetch', () => {
+  let testDir: string;
+  let url: string;
+  let first: string;
+  let second: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', args, {
+      cwd: join(testDir, 'repo'),
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'test',
+        GIT_AUTHOR_EMAIL: 'test@example.com',
+        GIT_COMMITTER_NAME: 'test',
+        GIT_COMMITTER_EMAIL: 'test@example.com',
+      },
+    })
+      .toString()
+      .trim();
+
+  beforeAll(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'git-fetch-test-'));
+    const repoDir = join(testDir, 'repo');
+    await mkdir(join(repoDir, 'skills', 'react'), { recursive: true });
+    await mkdir(join(repoDir, 'docs'), { recursive: true });
+    await writeFile(join(repoDir, 'skills', 'react', 'SKILL.md'), '# React v1');
+    await writeFile(join(repoDir, 'docs', 'README.md'), '# Docs');
+
+    git('init', '--quiet', '--initial-branch', 'main');
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'first');
+    git('tag', '-a', 'v1', '-m', 'v1');
+    first = git('rev-parse', 'HEAD');
+
+    await writeFile(join(repoDir, 'skills', 'react', 'SKILL.md'), '# React v2');
+    git('commit', '--quiet', '-am', 'second');
+    second = git('rev-parse', 'HEAD');
+
+    url = `file://${repoDir}`;
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('lsRemote', () => {
+    it('resolves HEAD, branches and annotated tags to commits', async () => {
+      expect(await lsRemote(url)).toBe(second);
+      expect(await lsRemote(url, 'main')).toBe(second);
+      expect(await lsRemote(url, 'v1')).toBe(first);
+      expect(await lsRemote(url, first)).toBe(first);
+    });
+
+    it('rejects unknown refs', async () => {
+      await expect(lsRemote(url, 'missing')).rejects.toThrow('Ref "missing" not found');
+    });
+
+    it('rejects refs git would read as options', async () => {
+      await expect(lsRemote(url, '--upload-pack=touch pwned')).rejects.toThrow('Invalid ref');
+    });
+  });
+
+  describe('sparseFetch', () => {
+    it('checks out only the subpath at the requested commit', async () => {
+      const dir = join(testDir, 'checkout');
+      await sparseFetch(url, dir, { commit: first, ref: 'v1', subpath: 'skills' });
+
+      expect(await readFile(join(dir, 'skills', 'react', 'SKILL.md'), 'utf-8')).toBe('# React v1');
+      expect(existsSync(join(dir, 'docs'))).toBe(false);
+    });
+
+    it('only fetches full commit SHAs', async () => {
+      const pwned = join(testDir, 'pwned');
+      await expect(
+        sparseFetch(url, join(testDir, 'injected'), {
+          commit: `--upload-pack=touch ${pwned}; git-upload-pack`,
+        }),
+      ).rejects.toThrow('Invalid commit');
+      await expect(
+        sparseFetch(url, join(testDir, 'injected'), {
+          commit: '0'.repeat(40),
+          ref: `--upload-pack=touch ${pwned}; git-upload-pack`,
+        }),
+      ).rejects.toThrow('Invalid ref');
+      expect(existsSync(pwned)).toBe(false);
+    });
+  });
+});
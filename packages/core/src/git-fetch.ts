@@ -0,0 +1,133 @@
+/**
+ * Fetching sources with git itself, for servers without an archive API
+ */
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { isCommitSha } from '@coding-agent-fabric/common';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run git without ever prompting for credentials; failures carry git's own error output
+ */
+async function git(args: string[], cwd?: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || (error as Error).message);
+  }
+}
+
+/**
+ * Refs are passed to git as arguments; one starting with "-" would be read as an option
+ */
+function assertRef(ref: string): void {
+  if (ref.startsWith('-')) {
+    throw new Error(`Invalid ref: ${ref}`);
+  }
+}
+
+/**
+ * Look up the commit a branch or tag (default: HEAD) of a remote repository points to.
+ * Like git, tags win over branches of the same name.
+ */
+export async function lsRemote(url: string, ref?: string): Promise<string> {
+  if (ref && isCommitSha(ref)) {
+    return ref;
+  }
+  if (ref) {
+    assertRef(ref);
+  }
+
+  const output = await git([
+    'ls-remote',
+    '--end-of-options',
+    url,
+    ...(ref ? [ref, `${ref}^{}`] : ['HEAD']),
+  ]);
+  const refs = new Map(
+    output
+      .trim()
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [sha, name] = line.split('\t');
+        return [name, sha] as const;
+      }),
+  );
+
+  // Annotated tags are listed twice; the peeled "^{}" entry names the commit
+  const candidates = ref
+    ? [`refs/tags/${ref}^{}`, `refs/tags/${ref}`, `refs/heads/${ref}`, ref]
+    : ['HEAD'];
+  const sha = candidates.map((name) => refs.get(name)).find(Boolean);
+  if (!sha) {
+    throw new Error(`Ref "${ref || 'HEAD'}" not found in ${url}`);
+  }
+  return sha;
+}
+
+/**
+ * Shallow-fetch one commit into a new directory, checking out only `subpath` when given.
+ * Servers that support partial clone then send only the files under the subpath.
+ * `ref` is fetched instead when the server refuses to serve the commit by its SHA.
+ */
+export async function sparseFetch(
+  url: string,
+  dir: string,
+  options: { commit: string; ref?: string; subpath?: string },
+): Promise<void> {
+  const { commit, ref, subpath } = options;
+  if (!isCommitSha(commit)) {
+    throw new Error(`Invalid commit: ${commit}`);
+  }
+  if (ref) {
+    assertRef(ref);
+  }
+
+  await git(['init', '--quiet', '--end-of-options', dir]);
+  await git(['remote', 'add', '--end-of-options', 'origin', url], dir);
+  if (subpath) {
+    await git(
+      ['sparse-checkout', 'set', '--no-cone', `/${subpath.replace(/^\/+|\/+$/g, '')}/`],
+      dir,
+    );
+  }
+
+  const fetch = (target: string) =>
+    git(
+      [
+        'fetch',
+        '--quiet',
+        '--depth',
+        '1',
+        '--filter=blob:none',
+        '--end-of-options',
+        'origin',
+        target,
+      ],
+      dir,
+    );
+  try {
+    await fetch(commit);
+  } catch (error) {
+    if (!ref || isCommitSha(ref)) {
+      throw error;
+    }
+    await fetch(ref);
+  }
+
+  // A fetched annotated tag points at a tag object rather than the commit
+  const fetched = (await git(['rev-parse', 'FETCH_HEAD^{commit}'], dir)).trim();
+  if (fetched !== commit) {
+    throw new Error(`${ref} moved from ${commit} to ${fetched} while fetching`);
+  }
+  await git(['checkout', '--quiet', 'FETCH_HEAD'], dir);
+}
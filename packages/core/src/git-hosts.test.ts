@@ -0,0 +1,46 @@
+/**
+ * Tests for the self-hosted git server configuration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { loadGitHosts } from './git-hosts.js';
+
+describe('loadGitHosts', () => {
+  let testDir: string;
+  let hostsPath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `git-hosts-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+    hostsPath = join(testDir, 'hosts.json');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('returns no hosts without a config file', () => {
+    expect(loadGitHosts(hostsPath)).toEqual({});
+  });
+
+  it('reads servers by lower-cased host name', async () => {
+    await writeFile(
+      hostsPath,
+      JSON.stringify({ hosts: { 'Git.Corp.Example': { provider: 'github', alias: 'ghe' } } }),
+    );
+    expect(loadGitHosts(hostsPath)).toEqual({
+      'git.corp.example': { provider: 'github', alias: 'ghe', apiBase: undefined },
+    });
+  });
+
+  it('rejects unknown providers', async () => {
+    await writeFile(
+      hostsPath,
+      JSON.stringify({ hosts: { 'git.corp.example': { provider: 'svn' } } }),
+    );
+    expect(() => loadGitHosts(hostsPath)).toThrow(/provider must be one of github, gitlab/);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Self-hosted GitHub Enterprise, GitLab and Gitea/Forgejo servers
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import {
+  CONFIG_DIR_NAME,
+  HOSTS_FILE_NAME,
+  type GitHostConfig,
+  type GitHostMap,
+} from '@coding-agent-fabric/common';
+
+// Bitbucket is only supported as Bitbucket Cloud, whose API differs from Bitbucket Data Center's
+const PROVIDERS: GitHostConfig['provider'][] = ['github', 'gitlab', 'gitea'];
+
+/**
+ * Read the servers configured in ~/.coding-agent-fabric/hosts.json:
+ *
+ *   { "hosts": { "git.corp.example": { "provider": "github", "alias": "ghe" } } }
+ *
+ * Returns an empty map when the file does not exist.
+ */
+export function loadGitHosts(
+  path: string = join(homedir(), CONFIG_DIR_NAME, HOSTS_FILE_NAME),
+): GitHostMap {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  let file: { hosts?: Record<string, Partial<GitHostConfig>> };
+  try {
+    file = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${path}: ${error}`);
+  }
+
+  const hosts: GitHostMap = {};
+  for (const [host, config] of Object.entries(file.hosts ?? {})) {
+    if (!config.provider || !PROVIDERS.includes(config.provider)) {
+      throw new Error(
+        `Invalid host "${host}" in ${path}: provider must be one of ${PROVIDERS.join(', ')}`,
+      );
+    }
+    hosts[host.toLowerCase()] = {
+      provider: config.provider,
+      apiBase: config.apiBase,
+      alias: config.alias,
+    };
+  }
+  return hosts;
+}
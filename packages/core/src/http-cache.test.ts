@@ -0,0 +1,141 @@
+/**
+ * Tests for HttpCache
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { HttpCache } from './http-cache.js';
+
+describe('HttpCache', () => {
+  const url = 'https://example.com/archive.tar.gz';
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = join(
+      tmpdir(),
+      `http-cache-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    );
+    await mkdir(cacheDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should revalidate cached responses with their ETag', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('contents', { headers: { ETag: '"v1"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const cache = new HttpCache(cacheDir);
+
+    const first = await cache.fetch(url);
+    expect(first.fromCache).toBe(false);
+    expect(first.entry.etag).toBe('"v1"');
+
+    const second = await cache.fetch(url);
+    expect(second.fromCache).toBe(true);
+    expect(await readFile(second.path, 'utf-8')).toBe('contents');
+    expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"');
+  });
+
+  it('should replace responses that changed', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValueOnce(new Response('v1')).mockResolvedValueOnce(new Response('v2')),
+    );
+    const cache = new HttpCache(cacheDir);
+
+    await cache.fetch(url);
+    expect(await cache.fetchText(url)).toBe('v2');
+    expect(await cache.list()).toHaveLength(1);
+  });
+
+  it('should only serve cached responses offline', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response('contents')));
+    await new HttpCache(cacheDir).fetch(url);
+
+    const offline = new HttpCache(cacheDir, { offline: true });
+    expect(await offline.fetchText(url)).toBe('contents');
+    await expect(offline.fetch('https://example.com/other.tar.gz')).rejects.toThrow(
+      /not in the cache/,
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should detect corrupt and missing bodies', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (input: string) => new Response(`body of ${input}`)),
+    );
+    const cache = new HttpCache(cacheDir);
+    const corrupt = await cache.fetch(url);
+    const missing = await cache.fetch('https://example.com/other.tar.gz');
+    await cache.fetch('https://example.com/ok.tar.gz');
+
+    await writeFile(corrupt.path, 'tampered');
+    await rm(missing.path);
+
+    const statuses = Object.fromEntries(
+      (await cache.verify()).map((result) => [result.entry.url, result.status]),
+    );
+    expect(statuses).toEqual({
+      [url]: 'corrupt',
+      'https://example.com/other.tar.gz': 'missing',
+      'https://example.com/ok.tar.gz': 'ok',
+    });
+  });
+
+  it('should pass the body to onData when downloaded and when cached', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce(new Response('contents', { headers: { ETag: '"v1"' } }))
+        .mockResolvedValueOnce(new Response(null, { status: 304 })),
+    );
+    const cache = new HttpCache(cacheDir);
+
+    for (const fromCache of [false, true]) {
+      const chunks: Buffer[] = [];
+      const result = await cache.fetch(url, {}, { onData: (chunk) => chunks.push(chunk) });
+      expect(result.fromCache).toBe(fromCache);
+      expect(Buffer.concat(chunks).toString()).toBe('contents');
+    }
+  });
+
+  it('should abort downloads larger than maxBytes', async () => {
+    const stream = () =>
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('x'.repeat(64)));
+          controller.enqueue(new TextEncoder().encode('x'.repeat(64)));
+          controller.close();
+        },
+      });
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce(new Response(stream()))
+        .mockResolvedValueOnce(new Response(stream(), { headers: { 'Content-Length': '128' } }))
+        .mockResolvedValueOnce(new Response(stream())),
+    );
+    const cache = new HttpCache(cacheDir);
+
+    await expect(cache.fetch(url, {}, { maxBytes: 100 })).rejects.toMatchObject({
+      limit: 'maxTotalBytes',
+      message: `${url} is larger than 100 bytes`,
+    });
+    await expect(cache.fetch(url, {}, { maxBytes: 100 })).rejects.toThrow(/larger than 100/);
+    expect(await cache.list()).toEqual([]);
+    expect(await readdir(join(cacheDir, 'blobs'))).toEqual([]);
+
+    const { entry } = await cache.fetch(url, {}, { maxBytes: 128 });
+    expect(entry.size).toBe(128);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * HttpCache - Persistent cache of downloaded sources with conditional requests
+ */
+
+import { createHash } from 'node:crypto';
+import { createReadStream, createWriteStream, existsSync } from 'node:fs';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream } from 'node:stream/web';
+import {
+  getCurrentTimestamp,
+  retry,
+  sha256,
+  RETRY_CONFIG,
+  USER_AGENT,
+} from '@coding-agent-fabric/common';
+import { ExtractLimitError } from './archive.js';
+
+/**
+ * A cached response, stored under the SHA-256 digest of its body
+ */
+export interface HttpCacheEntry {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  contentType?: string;
+  contentHash: string;
+  size: number;
+  fetchedAt: string;
+}
+
+/**
+ * Response served by the cache
+ */
+export interface CachedResponse {
+  entry: HttpCacheEntry;
+  path: string; // File containing the response body
+  fromCache: boolean; // The body was not downloaded again
+}
+
+/**
+ * Result of checking one cached response against its digest
+ */
+export interface HttpCacheVerification {
+  entry: HttpCacheEntry;
+  status: 'ok' | 'missing' | 'corrupt';
+}
+
+/**
+ * HttpCache options
+ */
+export interface HttpCacheOptions {
+  offline?: boolean; // Serve only from the cache and never touch the network
+}
+
+/**
+ * Options for one download
+ */
+export interface HttpFetchOptions {
+  maxBytes?: number; // Abort downloads larger than this with an ExtractLimitError
+  onData?: (chunk: Buffer) => void; // Sees the body as it is written to disk or read from the cache
+}
+
+interface HttpCacheIndex {
+  version: 1;
+  entries: Record<string, HttpCacheEntry>;
+}
+
+/**
+ * HttpCache keeps downloaded responses across runs.
+ * Responses are revalidated with If-None-Match / If-Modified-Since so unchanged sources
+ * are not downloaded again, and bodies are content-addressed so identical downloads share storage.
+ */
+export class HttpCache {
+  private indexPath: string;
+  private blobsDir: string;
+  private offline: boolean;
+
+  constructor(cacheDir: string, options: HttpCacheOptions = {}) {
+    this.indexPath = join(cacheDir, 'index.json');
+    this.blobsDir = join(cacheDir, 'blobs');
+    this.offline = options.offline ?? false;
+  }
+
+  /**
+   * Fetch a URL, reusing the cached body when the server reports it unchanged.
+   * Bodies are streamed to disk rather than held in memory.
+   */
+  async fetch(
+    url: string,
+    headers: Record<string, string> = {},
+    options: HttpFetchOptions = {},
+  ): Promise<CachedResponse> {
+    const index = await this.readIndex();
+    const cached = index.entries[url];
+    const cachedPath = cached && this.getBlobPath(cached.contentHash);
+    const hasBody = cachedPath !== undefined && existsSync(cachedPath);
+
+    if (this.offline) {
+      if (!hasBody) {
+        throw new Error(`${url} is not in the cache; run without --offline to download it`);
+      }
+      await this.replay(cachedPath, options.onData);
+      return { entry: cached, path: cachedPath, fromCache: true };
+    }
+
+    const response = await retry(async () => {
+      const res = await fetch(url, {
+        headers: {
+          'User-Agent': USER_AGENT,
+          ...(hasBody && cached.etag ? { 'If-None-Match': cached.etag } : {}),
+          ...(hasBody && cached.lastModified ? { 'If-Modified-Since': cached.lastModified } : {}),
+          ...headers,
+        },
+      });
+
+      if (!res.ok && res.status !== 304) {
+        throw new Error(`Failed to download ${url}: ${res.status} ${res.statusText}`);
+      }
+      return res;
+    }, RETRY_CONFIG);
+
+    if (response.status === 304 && hasBody) {
+      await this.replay(cachedPath, options.onData);
+      return { entry: cached, path: cachedPath, fromCache: true };
+    }
+
+    const { contentHash, size } = await this.saveBody(url, response, options);
+    const entry: HttpCacheEntry = {
+      url,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      contentType: response.headers.get('content-type') ?? undefined,
+      contentHash,
+      size,
+      fetchedAt: getCurrentTimestamp(),
+    };
+    const path = this.getBlobPath(contentHash);
+
+    // Re-read the index so entries written by other downloads in the meantime are kept
+    const latest = await this.readIndex();
+    latest.entries[url] = entry;
+    await this.writeAtomic(this.indexPath, JSON.stringify(latest, null, 2));
+
+    return { entry, path, fromCache: false };
+  }
+
+  /**
+   * Fetch a URL and return its body as text
+   */
+  async fetchText(url: string, headers: Record<string, string> = {}): Promise<string> {
+    const { path } = await this.fetch(url, headers);
+    return readFile(path, 'utf-8');
+  }
+
+  /**
+   * List cached responses, most recently fetched first
+   */
+  async list(): Promise<HttpCacheEntry[]> {
+    const index = await this.readIndex();
+    return Object.values(index.entries).sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt));
+  }
+
+  /**
+   * Re-hash every cached body and report those that are missing or do not match their digest
+   */
+  async verify(): Promise<HttpCacheVerification[]> {
+    const results: HttpCacheVerification[] = [];
+    for (const entry of await this.list()) {
+      const path = this.getBlobPath(entry.contentHash);
+      if (!existsSync(path)) {
+        results.push({ entry, status: 'missing' });
+        continue;
+      }
+      const content = await readFile(path);
+      results.push({ entry, status: sha256(content) === entry.contentHash ? 'ok' : 'corrupt' });
+    }
+    return results;
+  }
+
+  /**
+   * Path of a cached body
+   */
+  getBlobPath(contentHash: string): string {
+    return join(this.blobsDir, contentHash.slice(0, 2), contentHash);
+  }
+
+  /**
+   * Stream a response body into the blob store, hashing it on the way
+   */
+  private async saveBody(
+    url: string,
+    response: Response,
+    options: HttpFetchOptions,
+  ): Promise<{ contentHash: string; size: number }> {
+    const { maxBytes = Infinity, onData } = options;
+    const tooLarge = () =>
+      new ExtractLimitError('maxTotalBytes', maxBytes, `${url} is larger than ${maxBytes} bytes`);
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      await response.body?.cancel();
+      throw tooLarge();
+    }
+
+    await mkdir(this.blobsDir, { recursive: true });
+    const tempPath = join(this.blobsDir, `download.${process.pid}.${Date.now()}.tmp`);
+    const hash = createHash('sha256');
+    let size = 0;
+
+    try {
+      await pipeline(
+        response.body ? Readable.fromWeb(response.body as ReadableStream) : Readable.from([]),
+        new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            size += chunk.length;
+            if (size > maxBytes) {
+              callback(tooLarge());
+              return;
+            }
+            hash.update(chunk);
+            onData?.(chunk);
+            callback(null, chunk);
+          },
+        }),
+        createWriteStream(tempPath),
+      );
+
+      const contentHash = hash.digest('hex');
+      const path = this.getBlobPath(contentHash);
+      if (existsSync(path)) {
+        await rm(tempPath, { force: true });
+      } else {
+        await mkdir(dirname(path), { recursive: true });
+        await rename(tempPath, path);
+      }
+      return { contentHash, size };
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a cached body to `onData`
+   */
+  private async replay(path: string, onData?: (chunk: Buffer) => void): Promise<void> {
+    if (!onData) {
+      return;
+    }
+    for await (const chunk of createReadStream(path)) {
+      onData(chunk as Buffer);
+    }
+  }
+
+  private async readIndex(): Promise<HttpCacheIndex> {
+    if (!existsSync(this.indexPath)) {
+      return { version: 1, entries: {} };
+    }
+    try {
+      return JSON.parse(await readFile(this.indexPath, 'utf-8')) as HttpCacheIndex;
+    } catch {
+      // A damaged index only costs a re-download
+      return { version: 1, entries: {} };
+    }
+  }
+
+  /**
+   * Write to a temporary name first so readers never see partial contents
+   */
+  private async writeAtomic(path: string, content: string | Buffer): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    const tempPath = `${path}.${process.pid}.tmp`;
+    try {
+      await writeFile(tempPath, content);
+      await rename(tempPath, path);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
@@ -19,6 +19,95 @@ export type { SubagentsHandlerOptions } from './subagents-handler.js';
 export { RulesHandler } from './rules-handler.js';
 export type { RulesHandlerOptions } from './rules-handler.js';
 
+// Export LockManager
+export { LockManager } from './lock-manager.js';
+export type {
+  LockManagerOptions,
+  LockMigrateOptions,
+  LockMigrateResult,
+  RollbackOptions,
+} from './lock-manager.js';
+
+// Export content hashing
+export { detectDrift, hashPath } from './content-hash.js';
+export type { ContentDrift, DriftStatus } from './content-hash.js';
+
+// Export SnapshotStore
+export { SnapshotStore } from './snapshot-store.js';
+export type { SnapshotFile, SnapshotGcResult, SnapshotManifest } from './snapshot-store.js';
+export { LOCK_MIGRATIONS, migrateLockFile } from './lock-migrations.js';
+export type { LockMigration, LockMigrationResult, RawLockFile } from './lock-migrations.js';
+export { hasConflictMarkers, mergeLockFiles, parseConflictMarkers } from './lock-merge.js';
+export type { ConflictedLockFile, LockMergeConflict, LockMergeResult } from './lock-merge.js';
+export { diffLockFiles, isEmptyLockDiff } from './lock-diff.js';
+export type {
+  LockChangeKind,
+  LockDiff,
+  LockPluginChange,
+  LockResourceChange,
+  LockTargetChange,
+} from './lock-diff.js';
+
+// Export SBOM generation
+export {
+  SBOM_FORMATS,
+  createCycloneDxSbom,
+  createSbom,
+  createSpdxSbom,
+  getSbomComponents,
+} from './sbom.js';
+export type { SbomComponent, SbomFormat, SbomOptions } from './sbom.js';
+
+// Export SourceParser
+export { SourceParser } from './source-parser.js';
+export type { DownloadOptions, SourceParseResult } from './source-parser.js';
+
+export { HttpCache } from './http-cache.js';
+export {
+  ExtractLimitError,
+  detectArchiveFormat,
+  extractArchive,
+  findArchiveRoot,
+} from './archive.js';
+export type { ArchiveFormat, ArchiveHints } from './archive.js';
+export {
+  applyNpmrc,
+  createIntegrityCheck,
+  getNpmAuthHeaders,
+  getPackumentUrl,
+  getRegistryUrl,
+  loadNpmConfig,
+  resolveNpmVersion,
+  verifyIntegrity,
+} from './npm-registry.js';
+export type { IntegrityCheck, NpmConfig, NpmDist, NpmPackument } from './npm-registry.js';
+export {
+  getAuthHeaders,
+  getCredentialSecrets,
+  loadCredentials,
+  parseNetrc,
+} from './credentials.js';
+export type { CredentialConfig, HostCredential, LoadCredentialsOptions } from './credentials.js';
+export { loadGitHosts } from './git-hosts.js';
+export { collectResourceFiles, readResourceFile, writeResourceFile } from './resource-files.js';
+export { walkFiles } from './source-walker.js';
+export type { WalkedFile, WalkOptions } from './source-walker.js';
+export type {
+  CachedResponse,
+  HttpCacheEntry,
+  HttpCacheOptions,
+  HttpCacheVerification,
+  HttpFetchOptions,
+} from './http-cache.js';
+
+// Export RegistryClient
+export { RegistryClient } from './registry-client.js';
+export type {
+  RegistryResource,
+  RegistrySearchOptions,
+  RegistrySearchResult,
+} from './registry-client.js';
+
 // Export PluginManager
 export { PluginManager } from './plugin-manager.js';
 
@@ -26,6 +115,9 @@ export { PluginManager } from './plugin-manager.js';
 export { AuditLogger, auditLogger } from './audit-logger.js';
 export type { AuditLoggerOptions } from './audit-logger.js';
 
+// Re-export the handler contract for consumers that drive handlers generically
+export type { ResourceHandler } from '@coding-agent-fabric/plugin-api';
+
 // Re-export common types for convenience
 export type {
   PluginLockEntry,
@@ -42,4 +134,9 @@ export type {
   InstallMode,
   SourceType,
   NamingStrategy,
+  LockFile,
+  LockInstallTarget,
+  ContentDigest,
+  ResourceLockEntry,
+  ScopedResourceLockEntry,
 } from '@coding-agent-fabric/common';
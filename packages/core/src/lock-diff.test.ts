@@ -0,0 +1,170 @@
+/**
+ * Tests for lock file diffs
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { LockFile, SkillLockEntry } from '@coding-agent-fabric/common';
+import { diffLockFiles, isEmptyLockDiff } from './lock-diff.js';
+
+const createLockFile = (
+  resources: Record<string, SkillLockEntry> = {},
+  plugins: LockFile['plugins'] = {},
+): LockFile => ({
+  version: 2,
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  config: {
+    preferredAgents: [],
+    defaultScope: 'project',
+    historyLimit: 10,
+    updateStrategy: 'parallel',
+  },
+  plugins,
+  resources,
+});
+
+const createSkill = (name: string, overrides: Partial<SkillLockEntry> = {}): SkillLockEntry => ({
+  type: 'skills',
+  name,
+  version: '1.0.0',
+  handler: 'built-in',
+  source: 'owner/repo',
+  sourceType: 'github',
+  sourceUrl: 'https://github.com/owner/repo',
+  installedAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  installedFor: [{ agent: 'claude-code', scope: 'project', path: `.claude/skills/${name}` }],
+  skillFolderHash: 'a'.repeat(64),
+  categories: [],
+  namingStrategy: 'smart-disambiguation',
+  originalName: name,
+  installedName: name,
+  sourcePath: name,
+  ...overrides,
+});
+
+describe('diffLockFiles', () => {
+  it('should report added and removed resources', () => {
+    const diff = diffLockFiles(
+      createLockFile({ old: createSkill('old') }),
+      createLockFile({ new: createSkill('new') }),
+    );
+
+    expect(diff.resources.map((change) => [change.kind, change.name])).toEqual([
+      ['added', 'new'],
+      ['removed', 'old'],
+    ]);
+  });
+
+  it('should ignore timestamps and snapshots', () => {
+    const diff = diffLockFiles(
+      createLockFile({ skill: createSkill('skill') }),
+      createLockFile({
+        skill: createSkill('skill', {
+          updatedAt: '2026-02-01T00:00:00.000Z',
+          installedFor: [
+            {
+              agent: 'claude-code',
+              scope: 'project',
+              path: '.claude/skills/skill',
+              snapshot: 'f'.repeat(64),
+            },
+          ],
+        }),
+      }),
+    );
+
+    expect(isEmptyLockDiff(diff)).toBe(true);
+  });
+
+  it('should report version, source, content and target changes', () => {
+    const diff = diffLockFiles(
+      createLockFile({ skill: createSkill('skill') }),
+      createLockFile({
+        skill: createSkill('skill', {
+          version: '1.1.0',
+          source: 'fork/repo',
+          skillFolderHash: 'b'.repeat(64),
+          installedFor: [
+            {
+              agent: 'claude-code',
+              scope: 'project',
+              path: '.claude/skills/skill',
+              mode: 'symlink',
+            },
+            { agent: 'cursor', scope: 'project', path: '.cursor/skills/skill' },
+          ],
+        }),
+      }),
+    );
+
+    expect(diff.resources).toHaveLength(1);
+    expect(diff.resources[0]).toMatchObject({
+      kind: 'updated',
+      fromVersion: '1.0.0',
+      toVersion: '1.1.0',
+      fromSource: 'owner/repo',
+      toSource: 'fork/repo',
+      contentChanged: true,
+      rollback: false,
+    });
+    expect(diff.resources[0].targets.map((change) => [change.kind, change.agent])).toEqual([
+      ['updated', 'claude-code'],
+      ['added', 'cursor'],
+    ]);
+  });
+
+  it('should report pinned commit changes', () => {
+    const diff = diffLockFiles(
+      createLockFile({ skill: createSkill('skill', { resolvedRef: 'a'.repeat(40) }) }),
+      createLockFile({ skill: createSkill('skill', { resolvedRef: 'b'.repeat(40) }) }),
+    );
+
+    expect(diff.resources[0]).toMatchObject({
+      kind: 'updated',
+      fromCommit: 'a'.repeat(40),
+      toCommit: 'b'.repeat(40),
+    });
+  });
+
+  it('should detect rollbacks from the history', () => {
+    const diff = diffLockFiles(
+      createLockFile({
+        skill: createSkill('skill', {
+          version: '2.0.0',
+          history: [
+            { version: '1.0.0', updatedAt: '2026-01-01T00:00:00.000Z', source: 'owner/repo' },
+          ],
+        }),
+      }),
+      createLockFile({ skill: createSkill('skill') }),
+    );
+
+    expect(diff.resources[0]).toMatchObject({ kind: 'updated', rollback: true });
+  });
+
+  it('should report plugin changes', () => {
+    const plugin = {
+      version: '1.0.0',
+      installedAt: '2026-01-01T00:00:00.000Z',
+      enabled: true,
+      location: 'project' as const,
+    };
+    const diff = diffLockFiles(
+      createLockFile({}, { a: plugin, b: plugin }),
+      createLockFile({}, { a: { ...plugin, version: '1.1.0' }, c: plugin }),
+    );
+
+    expect(diff.plugins).toEqual([
+      {
+        kind: 'updated',
+        id: 'a',
+        fromVersion: '1.0.0',
+        toVersion: '1.1.0',
+        fromEnabled: true,
+        toEnabled: true,
+      },
+      { kind: 'removed', id: 'b', fromVersion: '1.0.0', fromEnabled: true },
+      { kind: 'added', id: 'c', toVersion: '1.0.0', toEnabled: true },
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Structured differences between two lock files
+ */
+
+import type {
+  LockFile,
+  LockInstallTarget,
+  PluginLockEntry,
+  ResourceLockEntry,
+} from '@coding-agent-fabric/common';
+
+/**
+ * Kind of change to an entry
+ */
+export type LockChangeKind = 'added' | 'removed' | 'updated';
+
+/**
+ * Change to one install target of a resource, identified by agent and scope
+ */
+export interface LockTargetChange {
+  kind: LockChangeKind;
+  agent: LockInstallTarget['agent'];
+  scope: LockInstallTarget['scope'];
+  before?: LockInstallTarget;
+  after?: LockInstallTarget;
+}
+
+/**
+ * Change to a resource
+ */
+export interface LockResourceChange {
+  kind: LockChangeKind;
+  name: string;
+  type: string;
+  fromVersion?: string;
+  toVersion?: string;
+  fromSource?: string;
+  toSource?: string;
+  fromCommit?: string; // Pinned commit SHA of git-hosted sources
+  toCommit?: string;
+  contentChanged: boolean; // The recorded content hashes differ
+  rollback: boolean; // Returned to a version recorded in its history
+  targets: LockTargetChange[];
+}
+
+/**
+ * Change to a plugin
+ */
+export interface LockPluginChange {
+  kind: LockChangeKind;
+  id: string;
+  fromVersion?: string;
+  toVersion?: string;
+  fromEnabled?: boolean;
+  toEnabled?: boolean;
+}
+
+/**
+ * Differences between two lock files, sorted by name
+ */
+export interface LockDiff {
+  resources: LockResourceChange[];
+  plugins: LockPluginChange[];
+}
+
+/**
+ * Compare two lock files.
+ * Timestamps and snapshot ids are ignored; only changes a reviewer acts on are reported.
+ */
+export function diffLockFiles(before: LockFile, after: LockFile): LockDiff {
+  const resources: LockResourceChange[] = [];
+  for (const name of sortedKeys(before.resources, after.resources)) {
+    const change = diffResource(name, before.resources[name], after.resources[name]);
+    if (change) resources.push(change);
+  }
+
+  const plugins: LockPluginChange[] = [];
+  for (const id of sortedKeys(before.plugins, after.plugins)) {
+    const change = diffPlugin(id, before.plugins[id], after.plugins[id]);
+    if (change) plugins.push(change);
+  }
+
+  return { resources, plugins };
+}
+
+/**
+ * Check whether a diff contains any change
+ */
+export function isEmptyLockDiff(diff: LockDiff): boolean {
+  return diff.resources.length === 0 && diff.plugins.length === 0;
+}
+
+function diffResource(
+  name: string,
+  before: ResourceLockEntry | undefined,
+  after: ResourceLockEntry | undefined,
+): LockResourceChange | undefined {
+  if (!before || !after) {
+    const entry = (before ?? after)!;
+    return {
+      kind: before ? 'removed' : 'added',
+      name,
+      type: entry.type,
+      fromVersion: before?.version,
+      toVersion: after?.version,
+      fromSource: before?.source,
+      toSource: after?.source,
+      fromCommit: before?.resolvedRef,
+      toCommit: after?.resolvedRef,
+      contentChanged: false,
+      rollback: false,
+      targets: diffTargets(before?.installedFor ?? [], after?.installedFor ?? []),
+    };
+  }
+
+  const targets = diffTargets(before.installedFor, after.installedFor);
+  const contentChanged =
+    getContentHash(before) !== getContentHash(after) ||
+    before.installedFor.some((target) => {
+      const current = after.installedFor.find((t) => isSameTarget(t, target));
+      return current?.content && target.content && current.content.digest !== target.content.digest;
+    });
+
+  if (
+    before.version === after.version &&
+    before.source === after.source &&
+    before.resolvedRef === after.resolvedRef &&
+    before.type === after.type &&
+    !contentChanged &&
+    targets.length === 0
+  ) {
+    return undefined;
+  }
+
+  return {
+    kind: 'updated',
+    name,
+    type: after.type,
+    fromVersion: before.version,
+    toVersion: after.version,
+    fromSource: before.source,
+    toSource: after.source,
+    fromCommit: before.resolvedRef,
+    toCommit: after.resolvedRef,
+    contentChanged,
+    rollback:
+      (before.history ?? []).some(
+        (item) =>
+          item.version === after.version &&
+          item.source === after.source &&
+          item.resolvedRef === after.resolvedRef,
+      ) &&
+      (after.version !== before.version ||
+        after.source !== before.source ||
+        after.resolvedRef !== before.resolvedRef),
+    targets,
+  };
+}
+
+function diffTargets(before: LockInstallTarget[], after: LockInstallTarget[]): LockTargetChange[] {
+  const changes: LockTargetChange[] = [];
+
+  for (const target of before) {
+    const current = after.find((t) => isSameTarget(t, target));
+    if (!current) {
+      changes.push({ kind: 'removed', agent: target.agent, scope: target.scope, before: target });
+    } else if (
+      current.path !== target.path ||
+      (current.mode ?? 'copy') !== (target.mode ?? 'copy')
+    ) {
+      changes.push({
+        kind: 'updated',
+        agent: target.agent,
+        scope: target.scope,
+        before: target,
+        after: current,
+      });
+    }
+  }
+
+  for (const target of after) {
+    if (!before.some((t) => isSameTarget(t, target))) {
+      changes.push({ kind: 'added', agent: target.agent, scope: target.scope, after: target });
+    }
+  }
+
+  return changes;
+}
+
+function diffPlugin(
+  id: string,
+  before: PluginLockEntry | undefined,
+  after: PluginLockEntry | undefined,
+): LockPluginChange | undefined {
+  if (before && after && before.version === after.version && before.enabled === after.enabled) {
+    return undefined;
+  }
+
+  return {
+    kind: !before ? 'added' : !after ? 'removed' : 'updated',
+    id,
+    fromVersion: before?.version,
+    toVersion: after?.version,
+    fromEnabled: before?.enabled,
+    toEnabled: after?.enabled,
+  };
+}
+
+/**
+ * Hash recorded for the resource contents, if its type records one
+ */
+function getContentHash(entry: ResourceLockEntry): string | undefined {
+  const record = entry as unknown as Record<string, unknown>;
+  const hash = record.skillFolderHash ?? record.configHash;
+  if (typeof hash === 'string') {
+    return hash;
+  }
+  // Plugin resources keep their state in metadata
+  return record.metadata === undefined ? undefined : JSON.stringify(record.metadata);
+}
+
+function isSameTarget(a: LockInstallTarget, b: LockInstallTarget): boolean {
+  return a.agent === b.agent && a.scope === b.scope;
+}
+
+function sortedKeys(...records: Record<string, unknown>[]): string[] {
+  return [...new Set(records.flatMap((record) => Object.keys(record)))].sort();
+}
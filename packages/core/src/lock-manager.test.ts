@@ -4,10 +4,11 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { existsSync } from 'node:fs';
-import { rm, mkdir } from 'node:fs/promises';
+import { rm, mkdir, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { LockManager } from './lock-manager.js';
+import type { LockMigration } from './lock-migrations.js';
 import type { SkillLockEntry, ResourceLockEntry } from '@coding-agent-fabric/common';
 
 describe('LockManager', () => {
@@ -21,7 +22,7 @@ describe('LockManager', () => {
       `lock-manager-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
     );
     await mkdir(testDir, { recursive: true });
-    lockManager = new LockManager({ projectRoot: testDir });
+    lockManager = new LockManager({ projectRoot: testDir, globalRoot: join(testDir, 'home') });
   });
 
   afterEach(async () => {
@@ -67,14 +68,92 @@ describe('LockManager', () => {
       expect(loaded.config).toBeDefined();
     });
 
-    it('should create new lock file if it does not exist', async () => {
+    it('should not create a missing lock file until it is changed', async () => {
       const loaded = await lockManager.load();
 
       expect(loaded.version).toBe(2);
+      expect(lockManager.exists()).toBe(false);
+
+      await lockManager.updateConfig({ preferredAgents: ['cursor'] });
       expect(lockManager.exists()).toBe(true);
     });
   });
 
+  describe('migrate', () => {
+    const v1LockFile = {
+      version: 1,
+      lastUpdated: '2026-01-01T00:00:00.000Z',
+      resources: {},
+    };
+    // No schema before v2 was released, so a made-up one exercises the migration plumbing
+    const migrations: LockMigration[] = [
+      {
+        from: 1,
+        to: 2,
+        description: 'Add config and plugins',
+        migrate: (lockFile) => ({
+          ...lockFile,
+          config: { preferredAgents: [], defaultScope: 'project' },
+          plugins: {},
+        }),
+      },
+    ];
+
+    beforeEach(async () => {
+      lockManager = new LockManager({ projectRoot: testDir, migrations });
+      await mkdir(join(testDir, '.coding-agent-fabric'), { recursive: true });
+      await writeFile(lockManager.getPath(), JSON.stringify(v1LockFile), 'utf-8');
+    });
+
+    it('should migrate older lock files in memory on load', async () => {
+      const lockFile = await lockManager.load();
+
+      expect(lockFile.version).toBe(2);
+      expect(existsSync(`${lockManager.getPath()}.v1.bak`)).toBe(false);
+      const saved = JSON.parse(await readFile(lockManager.getPath(), 'utf-8'));
+      expect(saved.version).toBe(1);
+    });
+
+    it('should write migrated lock files and keep a backup when they change', async () => {
+      await lockManager.updateConfig({ preferredAgents: ['cursor'] });
+
+      const backup = JSON.parse(await readFile(`${lockManager.getPath()}.v1.bak`, 'utf-8'));
+      expect(backup).toEqual(v1LockFile);
+      const saved = JSON.parse(await readFile(lockManager.getPath(), 'utf-8'));
+      expect(saved.version).toBe(2);
+      expect(saved.config.preferredAgents).toEqual(['cursor']);
+    });
+
+    it('should migrate the lock file on disk when asked to', async () => {
+      const result = await lockManager.migrate();
+
+      expect(result.backupPath).toBe(`${lockManager.getPath()}.v1.bak`);
+      const saved = JSON.parse(await readFile(lockManager.getPath(), 'utf-8'));
+      expect(saved.version).toBe(2);
+    });
+
+    it('should not write anything in dry-run mode', async () => {
+      const result = await lockManager.migrate({ dryRun: true });
+
+      expect(result.toVersion).toBe(2);
+      expect(result.backupPath).toBeUndefined();
+      expect(existsSync(`${lockManager.getPath()}.v1.bak`)).toBe(false);
+      const saved = JSON.parse(await readFile(lockManager.getPath(), 'utf-8'));
+      expect(saved.version).toBe(1);
+    });
+
+    it('should fail clearly on versions no migration is known for', async () => {
+      await expect(new LockManager({ projectRoot: testDir }).load()).rejects.toThrow(
+        'Lock file version 1 cannot be upgraded to version 2',
+      );
+    });
+
+    it('should fail clearly on newer lock files', async () => {
+      await writeFile(lockManager.getPath(), JSON.stringify({ version: 99 }), 'utf-8');
+      await expect(lockManager.load()).rejects.toThrow(/version 99 is newer/);
+    });
+  });
+
   describe('resource management', () => {
     beforeEach(async () => {
       await lockManager.initialize();
@@ -132,6 +211,35 @@ describe('LockManager', () => {
       expect(retrieved).toBeUndefined();
     });
 
+    it('should remove installation targets and drop entries without targets', async () => {
+      await lockManager.addResource({
+        type: 'rules',
+        handler: 'built-in',
+        name: 'test-rule',
+        source: 'owner/repo',
+        sourceType: 'github',
+        sourceUrl: 'https://github.com/owner/repo',
+        installedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        installedFor: [
+          { agent: 'cursor', scope: 'project', path: '.cursor/rules/test-rule.mdc' },
+          { agent: 'claude-code', scope: 'project', path: '.claude/rules/test-rule.md' },
+        ],
+        configHash: 'abc',
+      });
+
+      await lockManager.removeResourceTargets('test-rule', [{ agent: 'cursor', scope: 'project' }]);
+      const remaining = await lockManager.getResource('test-rule');
+      expect(remaining?.installedFor).toEqual([
+        { agent: 'claude-code', scope: 'project', path: '.claude/rules/test-rule.md' },
+      ]);
+
+      await lockManager.removeResourceTargets('test-rule', [
+        { agent: 'claude-code', scope: 'project' },
+      ]);
+      expect(await lockManager.getResource('test-rule')).toBeUndefined();
+    });
+
     it('should get all resources', async () => {
       const entry1: SkillLockEntry = {
         type: 'skills',
@@ -279,6 +387,99 @@ describe('LockManager', () => {
       expect(current?.version).toBe('1.0.0');
     });
 
+    it('should restore the pinned commit when rolling back', async () => {
+      const entry = {
+        type: 'skills',
+        handler: 'built-in',
+        name: 'pinned-skill',
+        source: 'owner/repo',
+        resolvedRef: 'a'.repeat(40),
+        updatedAt: '2026-01-01',
+        installedFor: [],
+      } as unknown as ResourceLockEntry;
+      await lockManager.addResource(entry);
+      await lockManager.addResource({ ...entry, resolvedRef: 'b'.repeat(40) });
+
+      const rolledBack = await lockManager.rollbackResource('pinned-skill');
+      expect(rolledBack.resolvedRef).toBe('a'.repeat(40));
+      expect(rolledBack.history?.[0]?.resolvedRef).toBe('b'.repeat(40));
+    });
+
+    it('should restore snapshotted files when rolling back', async () => {
+      const skillDir = join(testDir, '.claude', 'skills', 'snap-skill');
+      await mkdir(skillDir, { recursive: true });
+      const createEntry = (version: string, snapshot: string) =>
+        ({
+          type: 'skills',
+          handler: 'built-in',
+          name: 'snap-skill',
+          version,
+          source: 'owner/repo',
+          updatedAt: `2026-0${version[0]}-01`,
+          installedFor: [
+            { agent: 'claude-code', scope: 'project', path: '.claude/skills/snap-skill', snapshot },
+          ],
+        }) as unknown as ResourceLockEntry;
+
+      for (const version of ['1.0.0', '2.0.0', '3.0.0']) {
+        await writeFile(join(skillDir, 'SKILL.md'), `version ${version}`);
+        await lockManager.transaction(async () => {
+          const snapshot = await lockManager.captureSnapshot(skillDir, 'project');
+          await lockManager.addResource(createEntry(version, snapshot));
+        });
+      }
+
+      const rolledBack = await lockManager.rollbackResource('snap-skill', { to: 2 });
+
+      expect(rolledBack.version).toBe('1.0.0');
+      expect(await readFile(join(skillDir, 'SKILL.md'), 'utf-8')).toBe('version 1.0.0');
+      expect(rolledBack.history?.map((item) => item.version)).toEqual(['3.0.0', '2.0.0']);
+    });
+
+    it('should reject rolling back further than the recorded history', async () => {
+      const entry = {
+        type: 'skills',
+        handler: 'built-in',
+        name: 'short-history',
+        source: 'owner/repo',
+        updatedAt: '2026-01-01',
+        installedFor: [],
+      } as unknown as ResourceLockEntry;
+      await lockManager.addResource(entry);
+      await lockManager.addResource({ ...entry, updatedAt: '2026-02-01' });
+
+      await expect(lockManager.rollbackResource('short-history', { to: 3 })).rejects.toThrow(
+        'only 1 recorded',
+      );
+    });
+
+    it('should garbage collect snapshots beyond the history limit', async () => {
+      await lockManager.updateConfig({ historyLimit: 1 });
+      const file = join(testDir, 'rule.md');
+      const snapshots: string[] = [];
+
+      for (const version of ['1', '2', '3']) {
+        await writeFile(file, `rule ${version}`);
+        await lockManager.transaction(async () => {
+          const snapshot = await lockManager.captureSnapshot(file, 'project');
+          snapshots.push(snapshot);
+          await lockManager.addResource({
+            type: 'rules',
+            handler: 'built-in',
+            name: 'gc-rule',
+            source: 'owner/repo',
+            updatedAt: `2026-0${version}-01`,
+            installedFor: [{ agent: 'cursor', scope: 'project', path: 'rule.md', snapshot }],
+          } as unknown as ResourceLockEntry);
+        });
+      }
+
+      const store = lockManager.getSnapshotStore('project');
+      expect(store.has(snapshots[0])).toBe(false);
+      expect(store.has(snapshots[1])).toBe(true);
+      expect(store.has(snapshots[2])).toBe(true);
+    });
+
     it('should respect history limit', async () => {
       await lockManager.updateConfig({ historyLimit: 2 });
 
@@ -302,6 +503,146 @@ describe('LockManager', () => {
     });
   });
 
+  describe('scopes', () => {
+    const createEntry = (
+      name: string,
+      scopes: ('project' | 'global')[],
+      source = 'owner/repo',
+    ): SkillLockEntry => ({
+      type: 'skills',
+      name,
+      handler: 'built-in',
+      source,
+      sourceType: 'github',
+      sourceUrl: `https://github.com/${source}`,
+      installedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      installedFor: scopes.map((scope) => ({ agent: 'claude-code', scope, path: name })),
+      categories: [],
+      namingStrategy: 'smart-disambiguation',
+      originalName: name,
+      installedName: name,
+      sourcePath: name,
+    });
+
+    it('should record global targets in the global lock file', async () => {
+      await lockManager.addResource(createEntry('global-skill', ['global']));
+
+      const global = JSON.parse(await readFile(lockManager.getPath('global'), 'utf-8'));
+      expect(lockManager.exists('project')).toBe(false);
+      expect(global.resources['global-skill'].installedFor).toHaveLength(1);
+      expect(lockManager.getPath('global')).toBe(
+        join(testDir, 'home', '.coding-agent-fabric', 'lock.json'),
+      );
+    });
+
+    it('should split entries installed in both scopes', async () => {
+      await lockManager.addResource(createEntry('both', ['project', 'global']));
+
+      const project = await lockManager.getAllResources('project');
+      const global = await lockManager.getAllResources('global');
+      expect(project.both.installedFor.map((target) => target.scope)).toEqual(['project']);
+      expect(global.both.installedFor.map((target) => target.scope)).toEqual(['global']);
+    });
+
+    it('should merge both lock files and mark where entries came from', async () => {
+      await lockManager.addResource(createEntry('shared', ['global'], 'owner/global'));
+      await lockManager.addResource(createEntry('shared', ['project'], 'owner/project'));
+      await lockManager.addResource(createEntry('global-only', ['global']));
+
+      const resources = await lockManager.getAllResources();
+      expect(resources.shared.source).toBe('owner/project');
+      expect(resources.shared.lockScope).toBe('project');
+      expect(resources['global-only'].lockScope).toBe('global');
+
+      const forAgent = await lockManager.getResourcesForAgent('claude-code');
+      expect(forAgent.map((entry) => `${entry.name}:${entry.lockScope}`).sort()).toEqual([
+        'global-only:global',
+        'shared:global',
+        'shared:project',
+      ]);
+    });
+
+    it('should remove targets from the lock file of their scope', async () => {
+      await lockManager.addResource(createEntry('both', ['project', 'global']));
+      await lockManager.removeResourceTargets('both', [{ agent: 'claude-code', scope: 'global' }]);
+
+      expect(await lockManager.getAllResources('global')).toEqual({});
+      expect((await lockManager.getResource('both'))?.lockScope).toBe('project');
+    });
+
+    it('should not create the global lock file for project installs', async () => {
+      await lockManager.addResource(createEntry('local', ['project']));
+      await lockManager.getAllResources();
+
+      expect(lockManager.exists('global')).toBe(false);
+    });
+  });
+
+  describe('transaction', () => {
+    const createSkill = (name: string): SkillLockEntry => ({
+      type: 'skills',
+      name,
+      handler: 'built-in',
+      source: 'owner/repo',
+      sourceType: 'github',
+      sourceUrl: 'https://github.com/owner/repo',
+      installedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      installedFor: [],
+      categories: [],
+      namingStrategy: 'smart-disambiguation',
+      originalName: name,
+      installedName: name,
+      sourcePath: name,
+    });
+
+    it('should write all changes at the end', async () => {
+      await lockManager.initialize();
+
+      await lockManager.transaction(async () => {
+        await lockManager.addResource(createSkill('one'));
+        await lockManager.addResource(createSkill('two'));
+
+        // Changes are visible inside the transaction but not yet on disk
+        expect(await lockManager.getResource('one')).toBeDefined();
+        const saved = JSON.parse(await readFile(lockManager.getPath(), 'utf-8'));
+        expect(saved.resources).toEqual({});
+      });
+
+      const saved = JSON.parse(await readFile(lockManager.getPath(), 'utf-8'));
+      expect(Object.keys(saved.resources)).toEqual(['one', 'two']);
+      expect(existsSync(`${lockManager.getPath()}.lock`)).toBe(false);
+    });
+
+    it('should discard changes when the transaction fails', async () => {
+      await lockManager.initialize();
+
+      await expect(
+        lockManager.transaction(async () => {
+          await lockManager.addResource(createSkill('one'));
+          throw new Error('install failed');
+        }),
+      ).rejects.toThrow('install failed');
+
+      expect(await lockManager.getAllResources()).toEqual({});
+      expect(existsSync(`${lockManager.getPath()}.lock`)).toBe(false);
+    });
+
+    it('should serialize concurrent writers', async () => {
+      await lockManager.initialize();
+      const other = new LockManager({ projectRoot: testDir, globalRoot: join(testDir, 'home') });
+
+      await Promise.all([
+        lockManager.addResource(createSkill('one')),
+        other.addResource(createSkill('two')),
+      ]);
+
+      const resources = await lockManager.getAllResources();
+      expect(Object.keys(resources).sort()).toEqual(['one', 'two']);
+    });
+  });
+
   describe('plugin management', () => {
     beforeEach(async () => {
       await lockManager.initialize();
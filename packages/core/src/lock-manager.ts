@@ -2,17 +2,21 @@
  * LockManager - Manages the lock file (v2 schema)
  */
 
-import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { readFile, writeFile, copyFile, mkdir, rename, rm } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
-import { join, dirname } from 'node:path';
+import { join, dirname, resolve } from 'node:path';
+import { homedir } from 'node:os';
 import {
   LockFile,
   ResourceLockEntry,
+  ScopedResourceLockEntry,
   SkillLockEntry,
   SubagentLockEntry,
+  RuleLockEntry,
   PluginResourceLockEntry,
   PluginLockEntry,
   LockFileConfig,
+  LockInstallTarget,
   AgentType,
   Scope,
   NamingStrategy,
@@ -24,29 +28,84 @@ import {
   CONFIG_DIR_NAME,
   DEFAULT_UPDATE_STRATEGY,
   DEFAULT_HISTORY_LIMIT,
+  SNAPSHOT_STORE_DIR_NAME,
 } from '@coding-agent-fabric/common';
 import { auditLogger, AuditLogger } from './audit-logger.js';
+import { SnapshotStore } from './snapshot-store.js';
+import { acquireFileLock, type FileLockOptions, type ReleaseFileLock } from './file-lock.js';
+import {
+  LOCK_MIGRATIONS,
+  getLockFileVersion,
+  migrateLockFile,
+  type LockMigration,
+  type LockMigrationResult,
+  type RawLockFile,
+} from './lock-migrations.js';
+
+export interface LockMigrateOptions {
+  dryRun?: boolean; // Report changes without writing the lock file
+  scope?: Scope; // Lock file to migrate (default: project)
+}
+
+export interface LockMigrateResult extends LockMigrationResult {
+  backupPath?: string;
+}
+
+export interface RollbackOptions {
+  to?: number; // History entry to restore (1 = the previous version)
+  scope?: Scope; // Lock file holding the resource (default: project, then global)
+}
 
 export interface LockManagerOptions {
   projectRoot: string;
-  globalRoot?: string;
+  globalRoot?: string; // Root of the global lock file (default: home directory)
   auditLogger?: AuditLogger;
+  lockTimeout?: number; // How long to wait for other processes to release the lock file (ms)
+  staleLockTimeout?: number; // Time after which an unrefreshed lock from another host is removed (ms)
+  migrations?: LockMigration[]; // Schema upgrades for older lock files; defaults to LOCK_MIGRATIONS
 }
 
 /**
- * LockManager manages the lock file for tracking installed resources
+ * Lock files in the order they are locked and queried; project entries take precedence
+ */
+const LOCK_SCOPES: Scope[] = ['project', 'global'];
+
+/**
+ * LockManager manages the lock files for tracking installed resources.
+ * Project-scope installs are tracked in the project, global-scope installs under the home directory.
  */
 export class LockManager {
   private projectRoot: string;
   private globalRoot?: string;
-  private lockFilePath: string;
+  private lockFilePaths: Record<Scope, string>;
+  private snapshotStores: Record<Scope, SnapshotStore>;
   private auditLogger: AuditLogger;
+  private fileLockOptions: FileLockOptions;
+  private migrations: LockMigration[];
+  private inTransaction = false;
+  private pending: Partial<Record<Scope, LockFile>> = {}; // Lock files read by the active transaction
+  private dirty = new Set<Scope>(); // Lock files changed by the active transaction
+  private migratedFrom: Partial<Record<Scope, number>> = {}; // On-disk versions of pending lock files
 
   constructor(options: LockManagerOptions) {
     this.projectRoot = options.projectRoot;
     this.globalRoot = options.globalRoot;
-    this.lockFilePath = join(this.projectRoot, CONFIG_DIR_NAME, LOCK_FILE_NAME);
+    this.lockFilePaths = {
+      project: join(this.projectRoot, CONFIG_DIR_NAME, LOCK_FILE_NAME),
+      global: join(this.globalRoot ?? homedir(), CONFIG_DIR_NAME, LOCK_FILE_NAME),
+    };
+    this.snapshotStores = {
+      project: new SnapshotStore(join(this.projectRoot, CONFIG_DIR_NAME, SNAPSHOT_STORE_DIR_NAME)),
+      global: new SnapshotStore(
+        join(this.globalRoot ?? homedir(), CONFIG_DIR_NAME, SNAPSHOT_STORE_DIR_NAME),
+      ),
+    };
     this.auditLogger = options.auditLogger || auditLogger;
+    this.migrations = options.migrations ?? LOCK_MIGRATIONS;
+    this.fileLockOptions = {
+      timeout: options.lockTimeout,
+      staleTimeout: options.staleLockTimeout,
+    };
 
     // Configure audit logger with roots for path sanitization
     if (this.projectRoot) this.auditLogger.setProjectRoot(this.projectRoot);
@@ -56,13 +115,22 @@ export class LockManager {
   /**
    * Initialize a new lock file with default configuration
    */
-  async initialize(config?: Partial<LockFileConfig>): Promise<LockFile> {
-    const lockFile: LockFile = {
+  async initialize(config?: Partial<LockFileConfig>, scope: Scope = 'project'): Promise<LockFile> {
+    const lockFile = this.createLockFile(config, scope);
+    await this.save(lockFile, scope);
+    return lockFile;
+  }
+
+  /**
+   * Build a lock file with default configuration without writing it
+   */
+  private createLockFile(config: Partial<LockFileConfig> | undefined, scope: Scope): LockFile {
+    return {
       version: LOCK_FILE_VERSION,
       lastUpdated: getCurrentTimestamp(),
       config: {
         preferredAgents: config?.preferredAgents || [],
-        defaultScope: config?.defaultScope || 'project',
+        defaultScope: config?.defaultScope || scope,
         historyLimit: config?.historyLimit || DEFAULT_HISTORY_LIMIT,
         updateStrategy: config?.updateStrategy || DEFAULT_UPDATE_STRATEGY,
         namingStrategy: config?.namingStrategy,
@@ -70,43 +138,108 @@ export class LockManager {
       plugins: {},
       resources: {},
     };
+  }
+
+  /**
+   * Load a lock file from disk.
+   * Missing and older lock files are created and migrated in memory only; they are written
+   * when a transaction changes them.
+   */
+  async load(scope: Scope = 'project'): Promise<LockFile> {
+    const pending = this.pending[scope];
+    if (pending) {
+      return pending;
+    }
+
+    let lockFile: LockFile;
+    if (!existsSync(this.getPath(scope))) {
+      lockFile = this.createLockFile(undefined, scope);
+    } else {
+      try {
+        const result = await this.readMigration(scope);
+        lockFile = result.lockFile;
+        if (this.inTransaction && result.fromVersion !== result.toVersion) {
+          this.migratedFrom[scope] = result.fromVersion;
+        }
+      } catch (error) {
+        throw new Error(`Failed to load lock file: ${error}`);
+      }
+    }
 
-    await this.save(lockFile);
+    if (this.inTransaction) {
+      this.pending[scope] = lockFile;
+    }
     return lockFile;
   }
 
   /**
-   * Load the lock file from disk
+   * Upgrade a lock file to the current schema version.
+   * The original file is backed up before it is rewritten.
    */
-  async load(): Promise<LockFile> {
-    if (!existsSync(this.lockFilePath)) {
-      return this.initialize();
+  async migrate(options: LockMigrateOptions = {}): Promise<LockMigrateResult> {
+    const scope = options.scope ?? 'project';
+    if (options.dryRun) {
+      return this.readMigration(scope);
     }
 
-    try {
-      const content = await readFile(this.lockFilePath, 'utf-8');
-      const lockFile = JSON.parse(content) as LockFile;
-
-      // Validate version
-      if (lockFile.version !== LOCK_FILE_VERSION) {
-        throw new Error(
-          `Lock file version mismatch: expected ${LOCK_FILE_VERSION}, got ${lockFile.version}`,
-        );
+    return this.transaction(async () => {
+      const result = await this.readMigration(scope);
+      if (result.fromVersion === result.toVersion) {
+        return result;
       }
+      const backupPath = await this.writeMigration(scope, result.lockFile, result.fromVersion);
+      return { ...result, backupPath };
+    });
+  }
 
-      return lockFile;
-    } catch (error) {
-      throw new Error(`Failed to load lock file: ${error}`);
+  /**
+   * Read a lock file and upgrade it to the current schema version in memory
+   */
+  private async readMigration(scope: Scope): Promise<LockMigrateResult> {
+    const raw = JSON.parse(await readFile(this.getPath(scope), 'utf-8')) as RawLockFile;
+
+    if (getLockFileVersion(raw) === LOCK_FILE_VERSION) {
+      return {
+        fromVersion: LOCK_FILE_VERSION,
+        toVersion: LOCK_FILE_VERSION,
+        changes: [],
+        lockFile: raw as unknown as LockFile,
+      };
     }
+
+    return migrateLockFile(raw, LOCK_FILE_VERSION, this.migrations);
   }
 
   /**
-   * Save the lock file to disk
+   * Back up a lock file at an older schema version, then replace it with its migrated form
    */
-  async save(lockFile: LockFile): Promise<void> {
+  private async writeMigration(
+    scope: Scope,
+    lockFile: LockFile,
+    fromVersion: number,
+  ): Promise<string> {
+    const lockFilePath = this.getPath(scope);
+    const backupPath = `${lockFilePath}.v${fromVersion}.bak`;
+    await copyFile(lockFilePath, backupPath);
+    await this.save(lockFile, scope);
+
+    this.auditLogger.success('lock-migrate', LOCK_FILE_NAME, 'lock', lockFilePath, {
+      fromVersion,
+      toVersion: LOCK_FILE_VERSION,
+      backupPath,
+    });
+
+    return backupPath;
+  }
+
+  /**
+   * Save a lock file to disk
+   */
+  async save(lockFile: LockFile, scope: Scope = 'project'): Promise<void> {
+    const lockFilePath = this.getPath(scope);
     try {
       // Ensure directory exists
-      const dir = dirname(this.lockFilePath);
+      const dir = dirname(lockFilePath);
       if (!existsSync(dir)) {
         await mkdir(dir, { recursive: true });
       }
@@ -114,119 +247,318 @@ export class LockManager {
       // Update lastUpdated timestamp
       lockFile.lastUpdated = getCurrentTimestamp();
 
-      // Write with pretty formatting
+      // Write with pretty formatting to a temporary file, then swap it in atomically
       const content = JSON.stringify(lockFile, null, 2);
-      await writeFile(this.lockFilePath, content, 'utf-8');
+      const tempPath = `${lockFilePath}.${process.pid}.tmp`;
+      try {
+        await writeFile(tempPath, content, 'utf-8');
+        await rename(tempPath, lockFilePath);
+      } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+      }
     } catch (error) {
       throw new Error(`Failed to save lock file: ${error}`);
     }
   }
 
   /**
-   * Check if lock file exists
+   * Run several lock file changes as a single update.
+   * Both lock files are locked against other processes for the duration and changed lock files
+   * are written once at the end; nothing is written if `fn` throws. Nested transactions join
+   * the outer one.
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.inTransaction) {
+      return fn();
+    }
+
+    const releases: ReleaseFileLock[] = [];
+    try {
+      for (const scope of LOCK_SCOPES) {
+        const lockFilePath = this.getPath(scope);
+        await mkdir(dirname(lockFilePath), { recursive: true });
+        releases.push(await acquireFileLock(`${lockFilePath}.lock`, this.fileLockOptions));
+      }
+
+      this.inTransaction = true;
+      const result = await fn();
+      for (const scope of this.dirty) {
+        const fromVersion = this.migratedFrom[scope];
+        if (fromVersion === undefined) {
+          await this.save(this.pending[scope]!, scope);
+        } else {
+          await this.writeMigration(scope, this.pending[scope]!, fromVersion);
+        }
+        await this.collectSnapshots(scope, this.pending[scope]!);
+      }
+      return result;
+    } finally {
+      this.inTransaction = false;
+      this.pending = {};
+      this.migratedFrom = {};
+      this.dirty.clear();
+      for (const release of releases.reverse()) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Apply a change to a lock file inside a transaction
    */
-  exists(): boolean {
-    return existsSync(this.lockFilePath);
+  private update<T>(scope: Scope, fn: (lockFile: LockFile) => T | Promise<T>): Promise<T> {
+    return this.transaction(async () => {
+      const lockFile = await this.load(scope);
+      this.dirty.add(scope);
+      return fn(lockFile);
+    });
   }
 
   /**
-   * Get lock file path
+   * Load the lock files to query, skipping a global lock file that was never created
    */
-  getPath(): string {
-    return this.lockFilePath;
+  private async loadScopes(scope?: Scope): Promise<[Scope, LockFile][]> {
+    const loaded: [Scope, LockFile][] = [];
+    for (const candidate of scope ? [scope] : LOCK_SCOPES) {
+      if (candidate === 'global' && !this.pending.global && !this.exists('global')) {
+        continue;
+      }
+      loaded.push([candidate, await this.load(candidate)]);
+    }
+    return loaded;
   }
 
   /**
-   * Add or update a resource entry
+   * Check if a lock file exists
+   */
+  exists(scope: Scope = 'project'): boolean {
+    return existsSync(this.getPath(scope));
+  }
+
+  /**
+   * Get a lock file path
+   */
+  getPath(scope: Scope = 'project'): string {
+    return this.lockFilePaths[scope];
+  }
+
+  /**
+   * Add or update a resource entry.
+   * Targets are recorded in the lock file of their scope.
    */
   async addResource(entry: ResourceLockEntry): Promise<void> {
-    const lockFile = await this.load();
-    const existing = lockFile.resources[entry.name];
-
-    if (existing) {
-      // Add to history
-      const historyEntry = {
-        version: existing.version,
-        updatedAt: existing.updatedAt,
-        source: existing.source,
-        metadata: this.getEntryMetadata(existing),
+    const { lockScope: _lockScope, ...resource } = entry as ScopedResourceLockEntry;
+
+    await this.transaction(async () => {
+      for (const [scope, scoped] of this.splitByScope(resource as ResourceLockEntry)) {
+        await this.update(scope, (lockFile) => {
+          const existing = lockFile.resources[scoped.name];
+
+          if (existing) {
+            // Add to history
+            const historyEntry = {
+              version: existing.version,
+              updatedAt: existing.updatedAt,
+              source: existing.source,
+              ref: existing.ref,
+              resolvedRef: existing.resolvedRef,
+              metadata: this.getEntryMetadata(existing),
+              installedFor: existing.installedFor,
+            };
+
+            if (!scoped.history) {
+              scoped.history = existing.history || [];
+            }
+            scoped.history.unshift(historyEntry);
+
+            // Trim history
+            const limit = lockFile.config.historyLimit || DEFAULT_HISTORY_LIMIT;
+            if (scoped.history.length > limit) {
+              scoped.history = scoped.history.slice(0, limit);
+            }
+          }
+
+          lockFile.resources[scoped.name] = scoped;
+        });
+        this.auditLogger.success(
+          'lock-add-resource',
+          scoped.name,
+          scoped.type,
+          this.getPath(scope),
+          {
+            version: scoped.version,
+            handler: scoped.handler,
+          },
+        );
+      }
+    });
+  }
+
+  /**
+   * Split an entry into one entry per lock file, by the scope of its targets
+   */
+  private splitByScope(entry: ResourceLockEntry): [Scope, ResourceLockEntry][] {
+    const scopes = LOCK_SCOPES.filter((scope) =>
+      entry.installedFor.some((target) => target.scope === scope),
+    );
+    if (scopes.length <= 1) {
+      return [[scopes[0] ?? 'project', entry]];
+    }
+
+    return scopes.map((scope) => [
+      scope,
+      {
+        ...entry,
+        installedFor: entry.installedFor.filter((target) => target.scope === scope),
+        history: entry.history && [...entry.history],
+      },
+    ]);
+  }
+
+  /**
+   * Find the lock file holding a resource, preferring the project lock file
+   */
+  private async findResourceScope(name: string): Promise<Scope> {
+    for (const [scope, lockFile] of await this.loadScopes()) {
+      if (lockFile.resources[name]) {
+        return scope;
+      }
+    }
+    return 'project';
+  }
+
+  /**
+   * Roll a resource back to an earlier version and restore its files from the snapshot store.
+   * Targets recorded without a snapshot keep their current files.
+   */
+  async rollbackResource(name: string, options: RollbackOptions = {}): Promise<ResourceLockEntry> {
+    const lockScope = options.scope ?? (await this.findResourceScope(name));
+    const steps = options.to ?? 1;
+
+    return this.update(lockScope, async (lockFile) => {
+      const entry = lockFile.resources[name];
+
+      if (!entry) {
+        throw new Error(`Resource "${name}" not found`);
+      }
+
+      if (!entry.history || entry.history.length === 0) {
+        throw new Error(`No history found for resource "${name}"`);
+      }
+
+      if (!Number.isInteger(steps) || steps < 1 || steps > entry.history.length) {
+        throw new Error(
+          `Cannot roll back "${name}" ${steps} version(s): only ${entry.history.length} recorded`,
+        );
+      }
+
+      const newHistory = [...entry.history];
+      const [previous] = newHistory.splice(steps - 1, 1);
+
+      // Preserve the current state in the history for future rollbacks
+      const currentHistoryEntry = {
+        version: entry.version,
+        updatedAt: entry.updatedAt,
+        source: entry.source,
+        ref: entry.ref,
+        resolvedRef: entry.resolvedRef,
+        metadata: this.getEntryMetadata(entry),
+        installedFor: entry.installedFor,
+      };
+      newHistory.unshift(currentHistoryEntry);
+
+      const rolledBackEntry: ResourceLockEntry = {
+        ...entry,
+        version: previous.version,
+        source: previous.source,
+        ref: previous.ref,
+        resolvedRef: previous.resolvedRef,
+        updatedAt: getCurrentTimestamp(),
+        installedFor: previous.installedFor ?? entry.installedFor,
+        history: newHistory,
       };
 
-      if (!entry.history) {
-        entry.history = existing.history || [];
+      // Restore metadata from history if available
+      if (previous.metadata) {
+        this.setEntryMetadata(rolledBackEntry, previous.metadata);
       }
-      entry.history.unshift(historyEntry);
 
-      // Trim history
-      const limit = lockFile.config.historyLimit || DEFAULT_HISTORY_LIMIT;
-      if (entry.history.length > limit) {
-        entry.history = entry.history.slice(0, limit);
+      // Check every snapshot before touching any file
+      const restorable = rolledBackEntry.installedFor.filter((target) => target.snapshot);
+      for (const target of restorable) {
+        if (!this.snapshotStores[target.scope].has(target.snapshot!)) {
+          throw new Error(
+            `Snapshot for ${target.agent} (${target.scope}) is missing from the snapshot store`,
+          );
+        }
+      }
+      for (const target of restorable) {
+        await this.snapshotStores[target.scope].restore(
+          target.snapshot!,
+          this.resolveTargetPath(target),
+        );
       }
-    }
 
-    lockFile.resources[entry.name] = entry;
-    await this.save(lockFile);
-    this.auditLogger.success('lock-add-resource', entry.name, entry.type, this.lockFilePath, {
-      version: entry.version,
-      handler: entry.handler,
+      lockFile.resources[name] = rolledBackEntry;
+
+      this.auditLogger.success(
+        'lock-rollback-resource',
+        name,
+        rolledBackEntry.type,
+        this.getPath(lockScope),
+        {
+          fromVersion: entry.version,
+          toVersion: rolledBackEntry.version,
+          restoredTargets: restorable.length,
+        },
+      );
+
+      return rolledBackEntry;
     });
   }
 
   /**
-   * Rollback a resource to a previous version
+   * Store the installed files at `path` in the snapshot store of a scope.
+   * Call this inside a transaction so the snapshot is referenced before garbage collection.
    */
-  async rollbackResource(name: string): Promise<ResourceLockEntry> {
-    const lockFile = await this.load();
-    const entry = lockFile.resources[name];
+  async captureSnapshot(path: string, scope: Scope): Promise<string> {
+    return this.snapshotStores[scope].capture(path);
+  }
 
-    if (!entry) {
-      throw new Error(`Resource "${name}" not found`);
-    }
+  /**
+   * Get the snapshot store of a scope
+   */
+  getSnapshotStore(scope: Scope = 'project'): SnapshotStore {
+    return this.snapshotStores[scope];
+  }
 
-    if (!entry.history || entry.history.length === 0) {
-      throw new Error(`No history found for resource "${name}"`);
+  /**
+   * Remove snapshots no longer referenced by a lock file's entries or their history
+   */
+  private async collectSnapshots(scope: Scope, lockFile: LockFile): Promise<void> {
+    const referenced = new Set<string>();
+    for (const entry of Object.values(lockFile.resources)) {
+      const targets = [
+        ...entry.installedFor,
+        ...(entry.history ?? []).flatMap((item) => item.installedFor ?? []),
+      ];
+      for (const target of targets) {
+        if (target.snapshot && target.scope === scope) referenced.add(target.snapshot);
+      }
     }
 
-    const newHistory = [...(entry.history || [])];
-    const previous = newHistory.shift()!;
-
-    // Preserve the current state in the history for future rollbacks
-    const currentHistoryEntry = {
-      version: entry.version,
-      updatedAt: entry.updatedAt,
-      source: entry.source,
-      metadata: this.getEntryMetadata(entry),
-    };
-    newHistory.unshift(currentHistoryEntry);
-
-    const rolledBackEntry: ResourceLockEntry = {
-      ...entry,
-      version: previous.version,
-      source: previous.source,
-      updatedAt: getCurrentTimestamp(),
-      history: newHistory,
-    };
+    await this.snapshotStores[scope].gc(referenced);
+  }
 
-    // Restore metadata from history if available
-    if (previous.metadata) {
-      this.setEntryMetadata(rolledBackEntry, previous.metadata);
+  /**
+   * Resolve an install target path recorded in a lock file
+   */
+  private resolveTargetPath(target: LockInstallTarget): string {
+    if (target.path === '~' || target.path.startsWith('~/')) {
+      return join(this.globalRoot ?? homedir(), target.path.slice(1));
     }
-
-    lockFile.resources[name] = rolledBackEntry;
-    await this.save(lockFile);
-
-    this.auditLogger.success(
-      'lock-rollback-resource',
-      name,
-      rolledBackEntry.type,
-      this.lockFilePath,
-      {
-        fromVersion: entry.version,
-        toVersion: rolledBackEntry.version,
-      },
-    );
-
-    return rolledBackEntry;
+    return resolve(this.projectRoot, target.path);
   }
 
   /**
@@ -250,6 +582,12 @@ export class LockManager {
         format: e.format,
         configHash: e.configHash,
       };
+    } else if (entry.type === 'rules') {
+      const e = entry as RuleLockEntry;
+      return {
+        globs: e.globs,
+        configHash: e.configHash,
+      };
     } else {
       return (entry as PluginResourceLockEntry).metadata;
     }
@@ -278,62 +616,142 @@ export class LockManager {
           | 'claude-code-yaml'
           | 'markdown-frontmatter';
       if (m.configHash) e.configHash = m.configHash as string;
+    } else if (entry.type === 'rules') {
+      const e = entry as RuleLockEntry;
+      const m = metadata as Record<string, unknown>;
+      if (m.globs) e.globs = m.globs as string[];
+      if (m.configHash) e.configHash = m.configHash as string;
     } else {
       (entry as PluginResourceLockEntry).metadata = metadata;
     }
   }
 
   /**
-   * Remove a resource entry
+   * Remove a resource entry from one or both lock files
    */
-  async removeResource(name: string): Promise<void> {
-    const lockFile = await this.load();
-    const entry = lockFile.resources[name];
-    delete lockFile.resources[name];
-    await this.save(lockFile);
-    if (entry) {
-      this.auditLogger.success('lock-remove-resource', name, entry.type, this.lockFilePath);
-    }
+  async removeResource(name: string, scope?: Scope): Promise<void> {
+    await this.transaction(async () => {
+      for (const lockScope of this.getWritableScopes(scope)) {
+        const entry = await this.update(lockScope, (lockFile) => {
+          const removed = lockFile.resources[name];
+          delete lockFile.resources[name];
+          return removed;
+        });
+        if (entry) {
+          this.auditLogger.success(
+            'lock-remove-resource',
+            name,
+            entry.type,
+            this.getPath(lockScope),
+          );
+        }
+      }
+    });
   }
 
   /**
-   * Get a resource entry by name
+   * Remove installation targets from a resource entry.
+   * The entry itself is removed once no targets remain in its lock file.
    */
-  async getResource(name: string): Promise<ResourceLockEntry | undefined> {
-    const lockFile = await this.load();
-    return lockFile.resources[name];
+  async removeResourceTargets(
+    name: string,
+    targets: { agent: AgentType; scope: Scope }[],
+  ): Promise<void> {
+    await this.transaction(async () => {
+      for (const lockScope of this.getWritableScopes()) {
+        const scopedTargets = targets.filter((target) => target.scope === lockScope);
+        if (scopedTargets.length === 0) {
+          continue;
+        }
+
+        await this.update(lockScope, (lockFile) => {
+          const entry = lockFile.resources[name];
+          if (!entry) {
+            return;
+          }
+
+          entry.installedFor = entry.installedFor.filter(
+            (installed) =>
+              !scopedTargets.some(
+                (target) => target.agent === installed.agent && target.scope === installed.scope,
+              ),
+          );
+
+          if (entry.installedFor.length === 0) {
+            delete lockFile.resources[name];
+          }
+
+          this.auditLogger.success(
+            'lock-remove-targets',
+            name,
+            entry.type,
+            this.getPath(lockScope),
+            {
+              targets: scopedTargets.map((target) => `${target.agent}:${target.scope}`),
+              remaining: entry.installedFor.length,
+            },
+          );
+        });
+      }
+    });
   }
 
   /**
-   * Get all resource entries
+   * Lock files a removal applies to; a global lock file that was never created is left alone
    */
-  async getAllResources(): Promise<Record<string, ResourceLockEntry>> {
-    const lockFile = await this.load();
-    return lockFile.resources;
+  private getWritableScopes(scope?: Scope): Scope[] {
+    return (scope ? [scope] : LOCK_SCOPES).filter(
+      (candidate) => candidate === 'project' || this.pending.global || this.exists('global'),
+    );
+  }
+
+  /**
+   * Get a resource entry by name, preferring the project lock file
+   */
+  async getResource(name: string): Promise<ScopedResourceLockEntry | undefined> {
+    for (const [lockScope, lockFile] of await this.loadScopes()) {
+      const entry = lockFile.resources[name];
+      if (entry) {
+        return { ...entry, lockScope };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get all resource entries by name.
+   * Without a scope both lock files are merged and project entries take precedence.
+   */
+  async getAllResources(scope?: Scope): Promise<Record<string, ScopedResourceLockEntry>> {
+    const resources: Record<string, ScopedResourceLockEntry> = {};
+    for (const entry of await this.listResources(scope)) {
+      resources[entry.name] ??= entry;
+    }
+    return resources;
   }
 
   /**
    * Get resources by type
    */
-  async getResourcesByType(type: string): Promise<ResourceLockEntry[]> {
-    const lockFile = await this.load();
-    return Object.values(lockFile.resources).filter((entry) => entry.type === type);
+  async getResourcesByType(type: string, scope?: Scope): Promise<ScopedResourceLockEntry[]> {
+    const entries = await this.listResources(scope);
+    return entries.filter((entry) => entry.type === type);
   }
 
   /**
    * Get resources by handler
    */
-  async getResourcesByHandler(handler: string): Promise<ResourceLockEntry[]> {
-    const lockFile = await this.load();
-    return Object.values(lockFile.resources).filter((entry) => entry.handler === handler);
+  async getResourcesByHandler(handler: string, scope?: Scope): Promise<ScopedResourceLockEntry[]> {
+    const entries = await this.listResources(scope);
+    return entries.filter((entry) => entry.handler === handler);
   }
 
   /**
    * Get resources installed for a specific agent
    */
-  async getResourcesForAgent(agent: AgentType, scope?: Scope): Promise<ResourceLockEntry[]> {
-    const lockFile = await this.load();
-    return Object.values(lockFile.resources).filter((entry) =>
+  async getResourcesForAgent(agent: AgentType, scope?: Scope): Promise<ScopedResourceLockEntry[]> {
+    const entries = await this.listResources(scope);
+    return entries.filter((entry) =>
       entry.installedFor.some(
         (target) => target.agent === agent && (scope === undefined || target.scope === scope),
       ),
@@ -341,46 +759,69 @@ export class LockManager {
   }
 
   /**
-   * Add or update a plugin entry
+   * List the entries of both lock files (or one), marked with the lock file they came from
+   */
+  private async listResources(scope?: Scope): Promise<ScopedResourceLockEntry[]> {
+    const entries: ScopedResourceLockEntry[] = [];
+    for (const [lockScope, lockFile] of await this.loadScopes(scope)) {
+      for (const entry of Object.values(lockFile.resources)) {
+        entries.push({ ...entry, lockScope });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Add or update a plugin entry.
+   * Globally installed plugins are recorded in the global lock file.
    */
   async addPlugin(name: string, entry: PluginLockEntry): Promise<void> {
-    const lockFile = await this.load();
-    lockFile.plugins[name] = entry;
-    await this.save(lockFile);
+    await this.update(entry.location === 'global' ? 'global' : 'project', (lockFile) => {
+      lockFile.plugins[name] = entry;
+    });
   }
 
   /**
    * Remove a plugin entry
    */
   async removePlugin(name: string): Promise<void> {
-    const lockFile = await this.load();
-    delete lockFile.plugins[name];
-    await this.save(lockFile);
+    await this.transaction(async () => {
+      for (const lockScope of this.getWritableScopes()) {
+        await this.update(lockScope, (lockFile) => {
+          delete lockFile.plugins[name];
+        });
+      }
+    });
   }
 
   /**
    * Get a plugin entry by name
    */
   async getPlugin(name: string): Promise<PluginLockEntry | undefined> {
-    const lockFile = await this.load();
-    return lockFile.plugins[name];
+    const plugins = await this.getAllPlugins();
+    return plugins[name];
   }
 
   /**
-   * Get all plugin entries
+   * Get all plugin entries, preferring project entries
    */
   async getAllPlugins(): Promise<Record<string, PluginLockEntry>> {
-    const lockFile = await this.load();
-    return lockFile.plugins;
+    const plugins: Record<string, PluginLockEntry> = {};
+    for (const [, lockFile] of await this.loadScopes()) {
+      for (const [name, entry] of Object.entries(lockFile.plugins)) {
+        plugins[name] ??= entry;
+      }
+    }
+    return plugins;
   }
 
   /**
    * Update configuration
    */
   async updateConfig(config: Partial<LockFileConfig>): Promise<void> {
-    const lockFile = await this.load();
-    lockFile.config = { ...lockFile.config, ...config };
-    await this.save(lockFile);
+    await this.update('project', (lockFile) => {
+      lockFile.config = { ...lockFile.config, ...config };
+    });
   }
 
   /**
@@ -0,0 +1,175 @@
+/**
+ * Tests for lock file merging
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { LockFile, SkillLockEntry } from '@coding-agent-fabric/common';
+import { hasConflictMarkers, mergeLockFiles, parseConflictMarkers } from './lock-merge.js';
+
+const createLockFile = (resources: Record<string, SkillLockEntry> = {}): LockFile => ({
+  version: 2,
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  config: {
+    preferredAgents: [],
+    defaultScope: 'project',
+    historyLimit: 10,
+    updateStrategy: 'parallel',
+  },
+  plugins: {},
+  resources,
+});
+
+const createSkill = (name: string, overrides: Partial<SkillLockEntry> = {}): SkillLockEntry => ({
+  type: 'skills',
+  name,
+  version: '1.0.0',
+  handler: 'built-in',
+  source: 'owner/repo',
+  sourceType: 'github',
+  sourceUrl: 'https://github.com/owner/repo',
+  installedAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  installedFor: [{ agent: 'claude-code', scope: 'project', path: `.claude/skills/${name}` }],
+  categories: [],
+  namingStrategy: 'smart-disambiguation',
+  originalName: name,
+  installedName: name,
+  sourcePath: name,
+  ...overrides,
+});
+
+describe('lock merge', () => {
+  describe('parseConflictMarkers', () => {
+    it('should split a conflicted file into both sides', () => {
+      const content = [
+        '{',
+        '<<<<<<< HEAD',
+        '  "a": 1',
+        '=======',
+        '  "b": 2',
+        '>>>>>>> feature',
+        '}',
+      ].join('\n');
+
+      expect(hasConflictMarkers(content)).toBe(true);
+      expect(parseConflictMarkers(content)).toEqual({
+        base: undefined,
+        ours: '{\n  "a": 1\n}',
+        theirs: '{\n  "b": 2\n}',
+      });
+    });
+
+    it('should extract the base side of diff3 conflicts', () => {
+      const content = [
+        '<<<<<<< HEAD',
+        'ours',
+        '||||||| merged common ancestors',
+        'base',
+        '=======',
+        'theirs',
+        '>>>>>>> feature',
+      ].join('\n');
+
+      expect(parseConflictMarkers(content).base).toBe('base');
+    });
+
+    it('should reject unterminated conflicts', () => {
+      expect(() => parseConflictMarkers('<<<<<<< HEAD\nours\n=======\n')).toThrow('Unterminated');
+    });
+  });
+
+  describe('mergeLockFiles', () => {
+    it('should keep resources added on both branches', () => {
+      const base = createLockFile();
+      const ours = createLockFile({ one: createSkill('one') });
+      const theirs = createLockFile({ two: createSkill('two') });
+
+      const result = mergeLockFiles(base, ours, theirs);
+
+      expect(Object.keys(result.lockFile.resources)).toEqual(['one', 'two']);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should apply removals of unchanged resources', () => {
+      const base = createLockFile({ one: createSkill('one') });
+      const ours = createLockFile({ one: createSkill('one') });
+      const theirs = createLockFile();
+
+      expect(mergeLockFiles(base, ours, theirs).lockFile.resources).toEqual({});
+    });
+
+    it('should take the changed side when only one side changed', () => {
+      const base = createLockFile({ one: createSkill('one') });
+      const updated = createSkill('one', {
+        version: '2.0.0',
+        updatedAt: '2026-02-01T00:00:00.000Z',
+      });
+
+      const result = mergeLockFiles(base, base, createLockFile({ one: updated }));
+      expect(result.lockFile.resources.one.version).toBe('2.0.0');
+    });
+
+    it('should merge targets and history of the same source', () => {
+      const ours = createSkill('one', {
+        version: '2.0.0',
+        updatedAt: '2026-02-01T00:00:00.000Z',
+        history: [
+          { version: '1.0.0', updatedAt: '2026-01-01T00:00:00.000Z', source: 'owner/repo' },
+        ],
+      });
+      const theirs = createSkill('one', {
+        installedFor: [
+          ...createSkill('one').installedFor,
+          { agent: 'cursor', scope: 'project', path: '.cursor/skills/one' },
+        ],
+      });
+
+      const result = mergeLockFiles(
+        createLockFile({ one: createSkill('one') }),
+        createLockFile({ one: ours }),
+        createLockFile({ one: theirs }),
+      );
+      const merged = result.lockFile.resources.one;
+
+      expect(result.conflicts).toEqual([]);
+      expect(merged.version).toBe('2.0.0');
+      expect(merged.installedFor.map((target) => target.agent)).toEqual(['claude-code', 'cursor']);
+      expect(merged.history).toHaveLength(1);
+    });
+
+    it('should keep targets removed on one side removed', () => {
+      const cursor = { agent: 'cursor', scope: 'project' as const, path: '.cursor/skills/one' };
+      const base = createSkill('one', {
+        installedFor: [...createSkill('one').installedFor, cursor],
+      });
+      // We removed the cursor target; they updated the resource
+      const ours = createSkill('one', { updatedAt: '2026-01-15T00:00:00.000Z' });
+      const theirs = createSkill('one', {
+        ...base,
+        version: '2.0.0',
+        updatedAt: '2026-02-01T00:00:00.000Z',
+      });
+
+      const result = mergeLockFiles(
+        createLockFile({ one: base }),
+        createLockFile({ one: ours }),
+        createLockFile({ one: theirs }),
+      );
+      const merged = result.lockFile.resources.one;
+
+      expect(merged.version).toBe('2.0.0');
+      expect(merged.installedFor.map((target) => target.agent)).toEqual(['claude-code']);
+    });
+
+    it('should report resources installed from diverging sources', () => {
+      const ours = createLockFile({ one: createSkill('one', { source: 'owner/a' }) });
+      const theirs = createLockFile({ one: createSkill('one', { source: 'owner/b' }) });
+
+      const result = mergeLockFiles(undefined, ours, theirs);
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].theirs.source).toBe('owner/b');
+      expect(result.lockFile.resources.one.source).toBe('owner/a');
+    });
+  });
+});
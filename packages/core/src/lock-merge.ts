@@ -0,0 +1,286 @@
+/**
+ * Three-way merging of lock files
+ */
+
+import {
+  DEFAULT_HISTORY_LIMIT,
+  type LockFile,
+  type LockInstallTarget,
+  type PluginLockEntry,
+  type ResourceLockEntry,
+} from '@coding-agent-fabric/common';
+
+/**
+ * The sides of a conflicted lock file
+ */
+export interface ConflictedLockFile {
+  base?: string;
+  ours: string;
+  theirs: string;
+}
+
+/**
+ * A resource that was installed from different sources on each side
+ */
+export interface LockMergeConflict {
+  name: string;
+  ours: ResourceLockEntry;
+  theirs: ResourceLockEntry;
+}
+
+/**
+ * Result of merging two lock files.
+ * Conflicting resources hold our entry until the conflict is resolved.
+ */
+export interface LockMergeResult {
+  lockFile: LockFile;
+  conflicts: LockMergeConflict[];
+}
+
+type HistoryEntry = NonNullable<ResourceLockEntry['history']>[number];
+
+/**
+ * Check whether a lock file contains git conflict markers
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return /^<{7}(?: |$)/m.test(content) && /^>{7}(?: |$)/m.test(content);
+}
+
+/**
+ * Split a lock file containing git conflict markers into its sides.
+ * The base side is only available when the conflict was written in diff3 style.
+ */
+export function parseConflictMarkers(content: string): ConflictedLockFile {
+  const ours: string[] = [];
+  const theirs: string[] = [];
+  const base: string[] = [];
+  let hasBase = true;
+  let hunkHasBase = false;
+  let section: 'common' | 'ours' | 'base' | 'theirs' = 'common';
+
+  for (const line of content.split('\n')) {
+    if (/^<{7}(?: |$)/.test(line) && section === 'common') {
+      section = 'ours';
+      hunkHasBase = false;
+      continue;
+    }
+    if (/^\|{7}(?: |$)/.test(line) && section === 'ours') {
+      section = 'base';
+      hunkHasBase = true;
+      continue;
+    }
+    if (/^={7}$/.test(line) && (section === 'ours' || section === 'base')) {
+      section = 'theirs';
+      continue;
+    }
+    if (/^>{7}(?: |$)/.test(line) && section === 'theirs') {
+      section = 'common';
+      hasBase &&= hunkHasBase;
+      continue;
+    }
+
+    if (section === 'common' || section === 'ours') ours.push(line);
+    if (section === 'common' || section === 'theirs') theirs.push(line);
+    if (section === 'common' || section === 'base') base.push(line);
+  }
+
+  if (section !== 'common') {
+    throw new Error('Unterminated conflict marker in lock file');
+  }
+
+  return {
+    base: hasBase ? base.join('\n') : undefined,
+    ours: ours.join('\n'),
+    theirs: theirs.join('\n'),
+  };
+}
+
+/**
+ * Merge two lock files entry by entry, using their common ancestor when available
+ */
+export function mergeLockFiles(
+  base: LockFile | undefined,
+  ours: LockFile,
+  theirs: LockFile,
+): LockMergeResult {
+  const conflicts: LockMergeConflict[] = [];
+  const historyLimit = ours.config.historyLimit || DEFAULT_HISTORY_LIMIT;
+
+  const resources = mergeRecords(
+    base?.resources,
+    ours.resources,
+    theirs.resources,
+    (name, ourEntry, theirEntry, original) => {
+      if (ourEntry.source !== theirEntry.source) {
+        conflicts.push({ name, ours: ourEntry, theirs: theirEntry });
+        return ourEntry;
+      }
+      return mergeResourceEntries(original, ourEntry, theirEntry, historyLimit);
+    },
+  );
+
+  const plugins = mergeRecords(base?.plugins, ours.plugins, theirs.plugins, (_name, a, b) =>
+    newer(a, b, (entry: PluginLockEntry) => entry.installedAt),
+  );
+
+  const config = { ...ours.config };
+  for (const key of Object.keys(theirs.config) as (keyof LockFile['config'])[]) {
+    // Take their setting only when we left it untouched
+    if (base && isEqual(ours.config[key], base.config[key])) {
+      Object.assign(config, { [key]: theirs.config[key] });
+    }
+  }
+
+  return {
+    lockFile: {
+      version: Math.max(ours.version, theirs.version),
+      lastUpdated: newer(ours, theirs, (lockFile: LockFile) => lockFile.lastUpdated).lastUpdated,
+      config,
+      plugins,
+      resources,
+    },
+    conflicts,
+  };
+}
+
+/**
+ * Merge records keyed by name.
+ * `both` is called when each side changed the same entry differently.
+ */
+function mergeRecords<T>(
+  base: Record<string, T> | undefined,
+  ours: Record<string, T>,
+  theirs: Record<string, T>,
+  both: (name: string, ours: T, theirs: T, original: T | undefined) => T,
+): Record<string, T> {
+  const merged: Record<string, T> = {};
+  const names = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+
+  for (const name of names) {
+    const original = base?.[name];
+    const ourEntry = ours[name];
+    const theirEntry = theirs[name];
+
+    if (ourEntry === undefined || theirEntry === undefined) {
+      const remaining = (ourEntry ?? theirEntry) as T;
+      // An unchanged entry removed on the other side stays removed
+      if (original === undefined || !isEqual(remaining, original)) {
+        merged[name] = remaining;
+      }
+      continue;
+    }
+
+    if (isEqual(ourEntry, theirEntry) || isEqual(theirEntry, original)) {
+      merged[name] = ourEntry;
+    } else if (isEqual(ourEntry, original)) {
+      merged[name] = theirEntry;
+    } else {
+      merged[name] = both(name, ourEntry, theirEntry, original);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge two entries for the same resource installed from the same source
+ */
+function mergeResourceEntries(
+  base: ResourceLockEntry | undefined,
+  ours: ResourceLockEntry,
+  theirs: ResourceLockEntry,
+  historyLimit: number,
+): ResourceLockEntry {
+  const latest = newer(ours, theirs, (entry: ResourceLockEntry) => entry.updatedAt);
+  const other = latest === ours ? theirs : ours;
+
+  const installedFor = mergeInstallTargets(
+    base?.installedFor,
+    latest.installedFor,
+    other.installedFor,
+  );
+
+  const history: HistoryEntry[] = [];
+  for (const item of [...(latest.history ?? []), ...(other.history ?? [])]) {
+    if (!history.some((existing) => isEqual(existing, item))) {
+      history.push(item);
+    }
+  }
+  // The superseded side's current state becomes history when it was a different version
+  if (other.updatedAt !== latest.updatedAt || other.version !== latest.version) {
+    const superseded: HistoryEntry = {
+      version: other.version,
+      updatedAt: other.updatedAt,
+      source: other.source,
+    };
+    if (
+      !history.some(
+        (existing) =>
+          existing.updatedAt === superseded.updatedAt && existing.version === superseded.version,
+      )
+    ) {
+      history.push(superseded);
+    }
+  }
+  history.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  return {
+    ...latest,
+    installedAt: ours.installedAt < theirs.installedAt ? ours.installedAt : theirs.installedAt,
+    installedFor,
+    history: history.length > 0 ? history.slice(0, historyLimit) : undefined,
+  };
+}
+
+/**
+ * Merge the install targets of two entries, one per agent and scope.
+ * A target only one side has was either added there or removed on the other side; without
+ * a common ancestor it is kept.
+ */
+function mergeInstallTargets(
+  base: LockInstallTarget[] | undefined,
+  latest: LockInstallTarget[],
+  other: LockInstallTarget[],
+): LockInstallTarget[] {
+  const find = (targets: LockInstallTarget[] | undefined, target: LockInstallTarget) =>
+    targets?.find((t) => t.agent === target.agent && t.scope === target.scope);
+
+  const merged: LockInstallTarget[] = [];
+  for (const target of [...latest, ...other]) {
+    if (find(merged, target)) {
+      continue;
+    }
+    if (find(latest, target) && find(other, target)) {
+      merged.push(find(latest, target)!);
+      continue;
+    }
+    // Removing an unchanged target wins over keeping it
+    const original = find(base, target);
+    if (!original || !isEqual(target, original)) {
+      merged.push(target);
+    }
+  }
+  return merged;
+}
+
+function newer<T>(a: T, b: T, timestamp: (value: T) => string): T {
+  return timestamp(b) > timestamp(a) ? b : a;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, item]) => [key, sortKeys(item)]),
+    );
+  }
+  return value;
+}
@@ -0,0 +1,44 @@
+/**
+ * Tests for lock file migrations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { migrateLockFile, type LockMigration } from './lock-migrations.js';
+
+describe('lock migrations', () => {
+  it('should reject versions no migration is known for', () => {
+    expect(() => migrateLockFile({ version: 1 })).toThrow(
+      'Lock file version 1 cannot be upgraded to version 2: no migration is known for it',
+    );
+  });
+
+  it('should not modify the input lock file', () => {
+    const input = { version: 1, resources: {} };
+    const migrations: LockMigration[] = [
+      { from: 1, to: 2, description: 'a', migrate: (lock) => ({ ...lock, plugins: {} }) },
+    ];
+
+    const result = migrateLockFile(input, 2, migrations);
+    expect(result.lockFile.version).toBe(2);
+    expect(input).toEqual({ version: 1, resources: {} });
+  });
+
+  it('should chain migrations in order', () => {
+    const migrations: LockMigration[] = [
+      { from: 1, to: 2, description: 'a', migrate: (lock, report) => (report('a'), { ...lock }) },
+      { from: 2, to: 3, description: 'b', migrate: (lock, report) => (report('b'), { ...lock }) },
+    ];
+
+    const result = migrateLockFile({ version: 1 }, 3, migrations);
+    expect(result.toVersion).toBe(3);
+    expect(result.changes).toEqual(['v1 → v2: a', 'v2 → v3: b']);
+  });
+
+  it('should reject lock files newer than the supported version', () => {
+    expect(() => migrateLockFile({ version: 3 }, 2)).toThrow(/newer than the supported version 2/);
+  });
+
+  it('should reject lock files without a valid version', () => {
+    expect(() => migrateLockFile({})).toThrow('Invalid lock file version');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Lock file schema migrations
+ */
+
+import { LOCK_FILE_VERSION, type LockFile } from '@coding-agent-fabric/common';
+
+/**
+ * Lock file contents whose schema has not been validated yet
+ */
+export type RawLockFile = Record<string, unknown>;
+
+/**
+ * A single schema upgrade from one lock file version to the next
+ */
+export interface LockMigration {
+  from: number;
+  to: number;
+  description: string;
+  /**
+   * Upgrade the lock file, reporting each change made through `report`
+   */
+  migrate(lockFile: RawLockFile, report: (change: string) => void): RawLockFile;
+}
+
+/**
+ * Result of migrating a lock file
+ */
+export interface LockMigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  changes: string[];
+  lockFile: LockFile;
+}
+
+/**
+ * All known migrations, in order. No lock file schema before version 2 is documented, so
+ * there is nothing to migrate from yet; add a migration here with each version bump.
+ */
+export const LOCK_MIGRATIONS: LockMigration[] = [];
+
+/**
+ * Read the schema version of a lock file
+ */
+export function getLockFileVersion(lockFile: RawLockFile): number {
+  const { version } = lockFile;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid lock file version: ${JSON.stringify(version)}`);
+  }
+  return version;
+}
+
+/**
+ * Upgrade a lock file to the given version by chaining migrations
+ */
+export function migrateLockFile(
+  lockFile: RawLockFile,
+  targetVersion: number = LOCK_FILE_VERSION,
+  migrations: LockMigration[] = LOCK_MIGRATIONS,
+): LockMigrationResult {
+  const fromVersion = getLockFileVersion(lockFile);
+
+  if (fromVersion > targetVersion) {
+    throw new Error(
+      `Lock file version ${fromVersion} is newer than the supported version ${targetVersion}. ` +
+        'Upgrade coding-agent-fabric to use this lock file.',
+    );
+  }
+
+  const changes: string[] = [];
+  let current = lockFile;
+  let version = fromVersion;
+
+  while (version < targetVersion) {
+    const migration = migrations.find((candidate) => candidate.from === version);
+    if (!migration) {
+      throw new Error(
+        `Lock file version ${version} cannot be upgraded to version ${targetVersion}: ` +
+          'no migration is known for it. Remove the lock file and reinstall its resources.',
+      );
+    }
+
+    current = migration.migrate(current, (change) =>
+      changes.push(`v${migration.from} → v${migration.to}: ${change}`),
+    );
+    current.version = migration.to;
+    version = migration.to;
+  }
+
+  return {
+    fromVersion,
+    toVersion: version,
+    changes,
+    lockFile: current as unknown as LockFile,
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Tests for npm registry configuration, version resolution and integrity checks
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import {
+  applyNpmrc,
+  createIntegrityCheck,
+  getNpmAuthHeaders,
+  getPackumentUrl,
+  resolveNpmVersion,
+  verifyIntegrity,
+  type NpmConfig,
+} from './npm-registry.js';
+
+function createConfig(): NpmConfig {
+  return { registry: 'https://registry.npmjs.org', scopes: {}, authTokens: {} };
+}
+
+describe('npm registry', () => {
+  describe('applyNpmrc', () => {
+    afterEach(() => {
+      delete process.env.TEST_NPM_TOKEN;
+    });
+
+    it('reads registries and auth tokens', () => {
+      process.env.TEST_NPM_TOKEN = 'secret';
+      const config = applyNpmrc(
+        createConfig(),
+        [
+          '# comment',
+          'registry=https://npm.example.com/',
+          '@acme:registry = "https://npm.acme.dev/api/npm/"',
+          '//npm.acme.dev/api/npm/:_authToken=${TEST_NPM_TOKEN}',
+          'save-exact=true',
+        ].join('\n'),
+      );
+
+      expect(config.registry).toBe('https://npm.example.com');
+      expect(config.scopes).toEqual({ '@acme': 'https://npm.acme.dev/api/npm' });
+      expect(config.authTokens).toEqual({ '//npm.acme.dev/api/npm/': 'secret' });
+    });
+
+    it('builds packument URLs from the scope registry', () => {
+      const config = applyNpmrc(createConfig(), '@acme:registry=https://npm.acme.dev');
+
+      expect(getPackumentUrl(config, '@acme/rules')).toBe('https://npm.acme.dev/@acme%2frules');
+      expect(getPackumentUrl(config, 'rules')).toBe('https://registry.npmjs.org/rules');
+    });
+  });
+
+  describe('getNpmAuthHeaders', () => {
+    it('uses the token with the longest matching prefix', () => {
+      const config = createConfig();
+      config.authTokens = {
+        '//npm.acme.dev/': 'host',
+        '//npm.acme.dev/api/npm/': 'path',
+      };
+
+      expect(getNpmAuthHeaders(config, 'https://npm.acme.dev/api/npm/@acme%2frules')).toEqual({
+        Authorization: 'Bearer path',
+      });
+      expect(getNpmAuthHeaders(config, 'https://npm.acme.dev/other')).toEqual({
+        Authorization: 'Bearer host',
+      });
+      expect(getNpmAuthHeaders(config, 'https://registry.npmjs.org/rules')).toEqual({});
+    });
+  });
+
+  describe('resolveNpmVersion', () => {
+    const packument = {
+      name: 'rules',
+      'dist-tags': { latest: '1.2.0', beta: '2.0.0-beta.1' },
+      versions: { '1.0.0': {}, '1.2.0': {}, '1.3.0': {}, '2.0.0-beta.1': {} },
+    };
+
+    it('resolves dist-tags and defaults to latest', () => {
+      expect(resolveNpmVersion(packument)).toBe('1.2.0');
+      expect(resolveNpmVersion(packument, 'beta')).toBe('2.0.0-beta.1');
+    });
+
+    it('prefers latest when it satisfies the range', () => {
+      expect(resolveNpmVersion(packument, '^1.0.0')).toBe('1.2.0');
+      expect(resolveNpmVersion(packument, '>=1.3')).toBe('1.3.0');
+      expect(resolveNpmVersion(packument, '1.0.0')).toBe('1.0.0');
+    });
+
+    it('rejects specifiers that match nothing', () => {
+      expect(() => resolveNpmVersion(packument, '^3')).toThrow('No version of rules matches "^3"');
+      expect(() => resolveNpmVersion(packument, 'nightly')).toThrow(
+        '"nightly" is neither a dist-tag nor a version range of rules',
+      );
+    });
+  });
+
+  describe('verifyIntegrity', () => {
+    const data = Buffer.from('package contents');
+    const sha512 = `sha512-${createHash('sha512').update(data).digest('base64')}`;
+    const sha1 = `sha1-${createHash('sha1').update(data).digest('base64')}`;
+
+    it('accepts matching digests using the strongest algorithm', () => {
+      expect(verifyIntegrity(data, `sha1-AAAA ${sha512}`)).toBe(true);
+      expect(verifyIntegrity(data, sha1)).toBe(true);
+    });
+
+    it('rejects mismatching digests', () => {
+      expect(() => verifyIntegrity(Buffer.from('tampered'), `${sha1} ${sha512}`)).toThrow(
+        'Integrity check failed',
+      );
+    });
+
+    it('falls back to the hex shasum', () => {
+      const shasum = createHash('sha1').update(data).digest('hex');
+      expect(verifyIntegrity(data, undefined, shasum)).toBe(true);
+      expect(() => verifyIntegrity(data, undefined, '0'.repeat(40))).toThrow(
+        'Integrity check failed',
+      );
+    });
+
+    it('reports when there is nothing to check against', () => {
+      expect(verifyIntegrity(data, undefined)).toBe(false);
+    });
+
+    it('checks data fed in chunks', () => {
+      const check = createIntegrityCheck(sha512);
+      check.update(data.subarray(0, 7));
+      check.update(data.subarray(7));
+      expect(check.verify()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * npm registry support: .npmrc configuration, version resolution and integrity checks
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import semver from 'semver';
+import { expandEnvVars, NPM_REGISTRY_URL } from '@coding-agent-fabric/common';
+
+/**
+ * Registry settings read from .npmrc files
+ */
+export interface NpmConfig {
+  registry: string; // Default registry URL
+  scopes: Record<string, string>; // Registry URL per "@scope"
+  authTokens: Record<string, string>; // Auth token per "//host/path/" prefix
+}
+
+/**
+ * Download information of a published version
+ */
+export interface NpmDist {
+  tarball?: string;
+  integrity?: string; // Subresource Integrity string
+  shasum?: string; // Hex SHA-1, published by old clients
+}
+
+/**
+ * The parts of a packument (package document) used to pick a version
+ */
+export interface NpmPackument {
+  name?: string;
+  'dist-tags'?: Record<string, string>;
+  versions?: Record<string, { dist?: NpmDist }>;
+}
+
+/**
+ * Read registry URLs and auth tokens from the user's and the project's .npmrc.
+ * Project settings take precedence; `${VAR}` references are expanded from the environment.
+ */
+export function loadNpmConfig(projectRoot: string = process.cwd()): NpmConfig {
+  const config: NpmConfig = { registry: NPM_REGISTRY_URL, scopes: {}, authTokens: {} };
+
+  for (const path of [join(homedir(), '.npmrc'), join(projectRoot, '.npmrc')]) {
+    if (existsSync(path)) {
+      applyNpmrc(config, readFileSync(path, 'utf-8'));
+    }
+  }
+  return config;
+}
+
+/**
+ * Apply the settings of one .npmrc file
+ */
+export function applyNpmrc(config: NpmConfig, content: string): NpmConfig {
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim();
+    const value = expandEnvVars(
+      line
+        .slice(separator + 1)
+        .trim()
+        .replace(/^(["'])(.*)\1$/, '$2'),
+    );
+
+    if (key === 'registry') {
+      config.registry = trimSlash(value);
+    } else if (/^@[^:]+:registry$/.test(key)) {
+      config.scopes[key.slice(0, key.indexOf(':'))] = trimSlash(value);
+    } else if (key.startsWith('//') && key.endsWith(':_authToken')) {
+      config.authTokens[key.slice(0, -':_authToken'.length)] = value;
+    }
+  }
+  return config;
+}
+
+/**
+ * Registry URL serving a package
+ */
+export function getRegistryUrl(config: NpmConfig, packageName: string): string {
+  const scope = packageName.startsWith('@') ? packageName.split('/')[0] : undefined;
+  return (scope && config.scopes[scope]) || config.registry;
+}
+
+/**
+ * URL of a package's packument; the "/" of scoped names is encoded as the registry expects
+ */
+export function getPackumentUrl(config: NpmConfig, packageName: string): string {
+  return `${getRegistryUrl(config, packageName)}/${packageName.replace('/', '%2f')}`;
+}
+
+/**
+ * Authorization header for a registry URL, using the token with the longest matching prefix
+ */
+export function getNpmAuthHeaders(config: NpmConfig, url: string): Record<string, string> {
+  const { host, pathname } = new URL(url);
+  const target = `//${host}${pathname}`;
+  const match = Object.keys(config.authTokens)
+    .filter((prefix) => target.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? { Authorization: `Bearer ${config.authTokens[match]}` } : {};
+}
+
+/**
+ * Pick the version a specifier refers to: a dist-tag, an exact version or a range.
+ * Like npm, `latest` is preferred when it satisfies a range.
+ */
+export function resolveNpmVersion(packument: NpmPackument, spec?: string): string {
+  const name = packument.name ?? 'package';
+  const tags = packument['dist-tags'] ?? {};
+  const versions = Object.keys(packument.versions ?? {});
+  const wanted = spec || 'latest';
+
+  if (tags[wanted]) {
+    return tags[wanted];
+  }
+  if (!semver.validRange(wanted)) {
+    throw new Error(`"${wanted}" is neither a dist-tag nor a version range of ${name}`);
+  }
+  if (tags.latest && semver.satisfies(tags.latest, wanted)) {
+    return tags.latest;
+  }
+
+  const version = semver.maxSatisfying(versions, wanted);
+  if (!version) {
+    throw new Error(`No version of ${name} matches "${wanted}"`);
+  }
+  return version;
+}
+
+/**
+ * Incremental check of data against published hashes
+ */
+export interface IntegrityCheck {
+  update(chunk: Uint8Array): void;
+  /** Throws on a mismatch; returns false when there was no hash to check against */
+  verify(): boolean;
+}
+
+/**
+ * Start checking data against a Subresource Integrity string ("sha512-<base64> ..."), using the
+ * strongest algorithm listed. Falls back to a hex SHA-1 `shasum` for old packages.
+ * Data is fed in chunks, so that downloads can be checked while they are streamed to disk.
+ */
+export function createIntegrityCheck(
+  integrity: string | undefined,
+  shasum?: string,
+): IntegrityCheck {
+  const strengths = ['sha512', 'sha384', 'sha256', 'sha1'];
+  const hashes = (integrity ?? '')
+    .split(/\s+/)
+    .map((item) => {
+      const match = item.match(/^(sha\d+)-([A-Za-z0-9+/=]+)(?:\?.*)?$/);
+      return match && strengths.includes(match[1])
+        ? { algorithm: match[1], digest: match[2] }
+        : null;
+    })
+    .filter((hash) => hash !== null)
+    .sort((a, b) => strengths.indexOf(a.algorithm) - strengths.indexOf(b.algorithm));
+
+  const algorithm = hashes[0]?.algorithm ?? (shasum ? 'sha1' : undefined);
+  const hash = algorithm ? createHash(algorithm) : undefined;
+
+  return {
+    update(chunk) {
+      hash?.update(chunk);
+    },
+    verify() {
+      if (!hash) {
+        return false;
+      }
+      const actual = hash.digest();
+
+      if (hashes.length > 0) {
+        const matches = hashes
+          .filter((expected) => expected.algorithm === algorithm)
+          .some((expected) => {
+            const digest = Buffer.from(expected.digest, 'base64');
+            return digest.length === actual.length && timingSafeEqual(digest, actual);
+          });
+        if (!matches) {
+          throw new Error(`Integrity check failed: expected ${integrity}`);
+        }
+        return true;
+      }
+
+      if (actual.toString('hex') !== shasum!.toLowerCase()) {
+        throw new Error(`Integrity check failed: expected SHA-1 ${shasum}`);
+      }
+      return true;
+    },
+  };
+}
+
+/**
+ * Check data against a Subresource Integrity string or a hex SHA-1 `shasum`; see
+ * createIntegrityCheck(). Throws on a mismatch; returns false when there was no hash to check.
+ */
+export function verifyIntegrity(
+  data: Uint8Array,
+  integrity: string | undefined,
+  shasum?: string,
+): boolean {
+  const check = createIntegrityCheck(integrity, shasum);
+  check.update(data);
+  return check.verify();
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
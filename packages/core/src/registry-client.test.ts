@@ -0,0 +1,76 @@
+/**
+ * Tests for RegistryClient
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RegistryClient } from './registry-client.js';
+
+describe('RegistryClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const resource = {
+    id: 'react-pack',
+    name: 'react-best-practices',
+    type: 'skills',
+    description: 'Guidelines for React development',
+  };
+
+  it('sends every filter and the page', async () => {
+    const fetchMock = vi.fn(
+      async () => new Response(JSON.stringify({ resources: [resource], total: 41, page: 3 })),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new RegistryClient({ baseUrl: 'https://registry.example.com/' });
+    const result = await client.search({
+      query: 'react hooks',
+      type: 'skills',
+      agent: 'cursor',
+      category: 'frontend',
+      page: 3,
+      pageSize: 10,
+    });
+
+    expect(result).toEqual({ resources: [resource], total: 41, page: 3, pageSize: 10 });
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://registry.example.com/resources?q=react+hooks&type=skills&agent=cursor&category=frontend&page=3&pageSize=10',
+    );
+  });
+
+  it('authenticates with credentials for the registry host', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ resources: [] })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new RegistryClient({
+      baseUrl: 'https://registry.example.com',
+      credentials: { hosts: { 'registry.example.com': { token: 'secret' } } },
+    });
+    const result = await client.search();
+
+    expect(result).toEqual({ resources: [], total: 0, page: 1, pageSize: 20 });
+    const init = (fetchMock.mock.calls[0] as unknown[])[1] as RequestInit;
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+  });
+
+  it('rejects failed requests and unexpected responses', async () => {
+    const client = new RegistryClient({ baseUrl: 'https://registry.example.com' });
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('', { status: 503, statusText: 'Service Unavailable' })),
+    );
+    await expect(client.search({ query: 'react' })).rejects.toThrow(
+      'Registry request failed: 503 Service Unavailable',
+    );
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify({ items: [] }))),
+    );
+    await expect(client.search({ query: 'react' })).rejects.toThrow('missing resources');
+
+    await expect(client.search({ page: 0 })).rejects.toThrow('Invalid page: 0');
+  });
+});
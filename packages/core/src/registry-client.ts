@@ -0,0 +1,129 @@
+/**
+ * RegistryClient - Searches the resource registry
+ */
+
+import { DEFAULT_REGISTRY_URL, USER_AGENT, type AgentType } from '@coding-agent-fabric/common';
+import { getAuthHeaders, loadCredentials, type CredentialConfig } from './credentials.js';
+
+/**
+ * Default number of results per page
+ */
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * A resource published to the registry
+ */
+export interface RegistryResource {
+  id: string; // Installed as the source "registry:<id>"
+  name: string;
+  type: string; // Resource type, e.g. "skills" or "mcp"
+  description?: string;
+  version?: string; // Latest version
+  agents?: AgentType[];
+  categories?: string[];
+  author?: string;
+  downloads?: number;
+}
+
+/**
+ * Search filters; every filter given must match
+ */
+export interface RegistrySearchOptions {
+  query?: string; // Keywords matched against names, descriptions and tags
+  type?: string;
+  agent?: AgentType;
+  category?: string;
+  page?: number; // Starts at 1
+  pageSize?: number;
+}
+
+/**
+ * One page of search results
+ */
+export interface RegistrySearchResult {
+  resources: RegistryResource[];
+  total: number; // Matches across all pages
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * RegistryClient queries the registry API at DEFAULT_REGISTRY_URL (or another base URL)
+ */
+export class RegistryClient {
+  private baseUrl: string;
+  private credentials?: CredentialConfig; // Loaded on the first request when not given
+
+  constructor(options: { baseUrl?: string; credentials?: CredentialConfig } = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_REGISTRY_URL).replace(/\/+$/, '');
+    this.credentials = options.credentials;
+  }
+
+  /**
+   * Search published resources, one page at a time
+   */
+  async search(options: RegistrySearchOptions = {}): Promise<RegistrySearchResult> {
+    const page = options.page ?? 1;
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error(`Invalid page: ${options.page}`);
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error(`Invalid page size: ${options.pageSize}`);
+    }
+
+    const url = new URL(`${this.baseUrl}/resources`);
+    const params = {
+      q: options.query,
+      type: options.type,
+      agent: options.agent,
+      category: options.category,
+    };
+    for (const [name, value] of Object.entries(params)) {
+      if (value) {
+        url.searchParams.set(name, value);
+      }
+    }
+    url.searchParams.set('page', String(page));
+    url.searchParams.set('pageSize', String(pageSize));
+
+    const body = (await this.request(url.toString())) as Partial<RegistrySearchResult>;
+    if (!Array.isArray(body.resources)) {
+      throw new Error(`Invalid registry response from ${url}: missing resources`);
+    }
+    return {
+      resources: body.resources,
+      total: body.total ?? body.resources.length,
+      page: body.page ?? page,
+      pageSize: body.pageSize ?? pageSize,
+    };
+  }
+
+  /**
+   * GET a JSON document from the registry
+   */
+  private async request(url: string): Promise<unknown> {
+    this.credentials ??= loadCredentials();
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          Accept: 'application/json',
+          'User-Agent': USER_AGENT,
+          ...getAuthHeaders(this.credentials, url),
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to reach the registry at ${this.baseUrl}: ${error}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Registry request failed: ${response.status} ${response.statusText}`);
+    }
+    try {
+      return await response.json();
+    } catch (error) {
+      throw new Error(`Invalid registry response from ${url}: ${error}`);
+    }
+  }
+}
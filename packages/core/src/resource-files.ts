@@ -0,0 +1,60 @@
+/**
+ * Reading and writing resource files byte for byte
+ */
+
+import { chmod, mkdir, readFile, rm, stat, symlink, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import {
+  createResourceFile,
+  getResourceFileData,
+  type ResourceFile,
+} from '@coding-agent-fabric/common';
+import { walkFiles, type WalkOptions } from './source-walker.js';
+
+/**
+ * Read a file as a resource file stored at `path`, with its permissions
+ */
+export async function readResourceFile(fullPath: string, path: string): Promise<ResourceFile> {
+  const [data, stats] = await Promise.all([readFile(fullPath), stat(fullPath)]);
+  return createResourceFile(path, data, stats.mode);
+}
+
+/**
+ * Read every file under a directory, with paths relative to it
+ */
+export async function collectResourceFiles(
+  dir: string,
+  options?: WalkOptions,
+): Promise<ResourceFile[]> {
+  const files = await walkFiles(dir, options);
+  return Promise.all(
+    files.map(({ fullPath, path, linkTarget }) =>
+      linkTarget !== undefined ? { path, linkTarget } : readResourceFile(fullPath, path),
+    ),
+  );
+}
+
+/**
+ * Write a resource file's contents and permissions, or its link, to `destPath`.
+ * Files without contents are skipped.
+ */
+export async function writeResourceFile(destPath: string, file: ResourceFile): Promise<void> {
+  if (file.linkTarget !== undefined) {
+    await mkdir(dirname(destPath), { recursive: true });
+    await rm(destPath, { recursive: true, force: true });
+    await symlink(file.linkTarget, destPath);
+    return;
+  }
+
+  const data = getResourceFileData(file);
+  if (data === undefined) {
+    return;
+  }
+
+  await mkdir(dirname(destPath), { recursive: true });
+  await writeFile(destPath, data, { mode: file.mode });
+  // writeFile applies the mode only when it creates the file, and then masked by the umask
+  if (file.mode !== undefined) {
+    await chmod(destPath, file.mode & 0o777);
+  }
+}
@@ -119,6 +119,27 @@ globs: "src/**/*.ts"
       const resources = await handler.discoverFromPath(rulesDir);
       expect(resources[0].metadata.globs).toEqual(['src/**/*.ts']);
     });
+
+    it('should only discover the rules listed in fabric.json', async () => {
+      const sourceDir = join(testDir, 'manifest-source');
+      await mkdir(join(sourceDir, 'rules'), { recursive: true });
+      await writeFile(join(sourceDir, 'README.md'), '# About this repository');
+      await writeFile(join(sourceDir, 'rules', 'style.md'), '# Style');
+      await writeFile(
+        join(sourceDir, 'fabric.json'),
+        JSON.stringify({
+          version: '1.4.0',
+          rules: [{ path: 'rules/style.md', name: 'house-style', agents: ['cursor'] }],
+        }),
+      );
+
+      const resources = await handler.discoverFromPath(sourceDir);
+
+      expect(resources).toHaveLength(1);
+      expect(resources[0].name).toBe('house-style');
+      expect(resources[0].version).toBe('1.4.0');
+      expect(resources[0].metadata.agents).toEqual(['cursor']);
+    });
   });
 
   describe('validate', () => {
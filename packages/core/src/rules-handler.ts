@@ -26,10 +26,16 @@ import {
   generateSmartName,
   sanitizeFileName,
   isExcludedName,
+  hashResourceFiles,
+  readSourceManifest,
+  safeJoin,
+  SOURCE_MANIFEST_FILE_NAME,
+  type SourceManifestEntry,
 } from '@coding-agent-fabric/common';
 import { ResourceHandler } from '@coding-agent-fabric/plugin-api';
 import { AgentRegistry } from './agent-registry.js';
 import { auditLogger, AuditLogger } from './audit-logger.js';
+import { walkFiles } from './source-walker.js';
 
 export interface RulesHandlerOptions {
   agentRegistry: AgentRegistry;
@@ -79,60 +85,88 @@ export class RulesHandler implements ResourceHandler {
   }
 
   /**
-   * Discover rules from a local directory path
+   * Discover rules from a local directory path: those listed in its fabric.json manifest,
+   * or else every .md and .mdc file
    */
   async discoverFromPath(localPath: string, options?: DiscoverOptions): Promise<Resource[]> {
+    const manifest = await readSourceManifest(localPath);
+    if (manifest) {
+      const resources: Resource[] = [];
+      for (const entry of manifest.rules ?? []) {
+        const rulePath = safeJoin(localPath, entry.path);
+        if (!existsSync(rulePath)) {
+          throw new Error(`Rule "${entry.path}" in ${SOURCE_MANIFEST_FILE_NAME} does not exist`);
+        }
+        const resource = await this.createRuleResource(localPath, rulePath, options, entry);
+        resource.version ??= manifest.version;
+        resources.push(resource);
+      }
+      return resources;
+    }
+
     const resources: Resource[] = [];
 
     // Recursively find all rule files (*.md, *.mdc)
-    const ruleFiles = await this.findRuleFiles(localPath);
+    const ruleFiles = await this.findRuleFiles(localPath, options);
 
     for (const rulePath of ruleFiles) {
-      const ruleDir = dirname(rulePath);
-      const ruleContent = await readFile(rulePath, 'utf-8');
-
-      // Extract metadata from rule file
-      const metadata = this.parseRuleMetadata(ruleContent, rulePath);
-      const originalName = metadata.name || basename(rulePath, extname(rulePath));
-
-      // Extract categories from path
-      const relativePath = relative(localPath, ruleDir);
-      const pathParts = relativePath.split(sep).filter(Boolean);
-      // If the file is in a 'rules' directory, don't include that in categories
-      const agentNames = this.agentRegistry.getAllNames().map((name) => `.${name}`);
-      const categoryParts = pathParts.filter((p) => p !== 'rules' && !agentNames.includes(p));
-      const categories = options?.categories || categoryParts;
-
-      // Generate smart name based on strategy
-      const namingStrategy = options?.namingStrategy || 'smart-disambiguation';
-      const installedName = this.generateInstalledName(originalName, categories, namingStrategy);
-
-      resources.push({
-        type: this.type,
-        name: installedName,
-        version: metadata.version,
-        description: metadata.description || '',
-        metadata: {
-          originalName,
-          categories,
-          namingStrategy,
-          globs: metadata.globs,
-          sourcePath: relative(localPath, rulePath),
-          sourceDir: ruleDir,
-          configHash: this.generateConfigHash(metadata, ruleContent),
-        },
-        files: [
-          {
-            path: basename(rulePath),
-            content: ruleContent,
-          },
-        ],
-      });
+      resources.push(await this.createRuleResource(localPath, rulePath, options));
     }
 
     return resources;
   }
 
+  /**
+   * Build the resource for one rule file; manifest entries override its front matter
+   */
+  private async createRuleResource(
+    localPath: string,
+    rulePath: string,
+    options?: DiscoverOptions,
+    entry?: SourceManifestEntry,
+  ): Promise<Resource> {
+    const ruleDir = dirname(rulePath);
+    const ruleContent = await readFile(rulePath, 'utf-8');
+
+    // Extract metadata from rule file
+    const metadata = this.parseRuleMetadata(ruleContent, rulePath);
+    const originalName = entry?.name || metadata.name || basename(rulePath, extname(rulePath));
+
+    // Extract categories from path
+    const relativePath = relative(localPath, ruleDir);
+    const pathParts = relativePath.split(sep).filter(Boolean);
+    // If the file is in a 'rules' directory, don't include that in categories
+    const agentNames = this.agentRegistry.getAllNames().map((name) => `.${name}`);
+    const categoryParts = pathParts.filter((p) => p !== 'rules' && !agentNames.includes(p));
+    const categories = options?.categories || entry?.categories || categoryParts;
+
+    // Generate smart name based on strategy
+    const namingStrategy = options?.namingStrategy || 'smart-disambiguation';
+    const installedName = this.generateInstalledName(originalName, categories, namingStrategy);
+
+    const files = [{ path: basename(rulePath), content: ruleContent }];
+
+    return {
+      type: this.type,
+      name: installedName,
+      version: entry?.version ?? metadata.version,
+      description: entry?.description || metadata.description || '',
+      metadata: {
+        originalName,
+        categories,
+        namingStrategy,
+        globs: metadata.globs,
+        license: metadata.license,
+        sourcePath: relative(localPath, rulePath),
+        sourceDir: ruleDir,
+        agents: entry?.agents,
+        configHash: hashResourceFiles(files),
+      },
+      files,
+      dependencies: entry?.dependencies,
+    };
+  }
+
   /**
    * Install a rule to target agents
    */
@@ -156,10 +190,7 @@ export class RulesHandler implements ResourceHandler {
       // Ensure install directory exists
       await mkdir(installPath, { recursive: true });
 
-      // Determine extension based on agent
-      const extension = target.agent === 'cursor' ? '.mdc' : '.md';
-      const targetFileName = `${sanitizeFileName(resource.name)}${extension}`;
-      const targetPath = join(installPath, targetFileName);
+      const targetPath = this.getTargetPath(resource.name, target.agent, target.scope);
 
       // Install file
       if (target.mode === 'symlink') {
@@ -381,39 +412,37 @@ export class RulesHandler implements ResourceHandler {
   }
 
   /**
-   * Recursively find all rule files
+   * Get the installed location of a rule file for an agent
    */
-  private async findRuleFiles(dir: string): Promise<string[]> {
-    const ruleFiles: string[] = [];
+  getTargetPath(name: string, agent: AgentType, scope: Scope): string {
+    // Determine extension based on agent
+    const extension = agent === 'cursor' ? '.mdc' : '.md';
+    return join(this.getInstallPath(agent, scope), `${sanitizeFileName(name)}${extension}`);
+  }
 
+  /**
+   * Recursively find all rule files
+   */
+  private async findRuleFiles(dir: string, options?: DiscoverOptions): Promise<string[]> {
     if (!existsSync(dir)) {
-      return ruleFiles;
+      return [];
     }
 
-    const entries = await readdir(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-
-      if (isExcludedName(entry.name, EXCLUDE_PATTERNS)) {
-        continue;
-      }
-
-      if (entry.isDirectory()) {
-        const subFiles = await this.findRuleFiles(fullPath);
-        ruleFiles.push(...subFiles);
-      } else if (entry.isFile()) {
-        const ext = extname(entry.name);
-        if (RULE_FILE_EXTENSIONS.includes(ext as (typeof RULE_FILE_EXTENSIONS)[number])) {
-          // Avoid picking up SKILL.md as a rule
-          if (entry.name !== 'SKILL.md') {
-            ruleFiles.push(fullPath);
-          }
-        }
-      }
-    }
-
-    return ruleFiles;
+    const files = await walkFiles(dir, {
+      symlinks: options?.symlinks,
+      exclude: (name) => isExcludedName(name, EXCLUDE_PATTERNS),
+      auditLogger: this.auditLogger,
+    });
+    return files
+      .filter((file) => {
+        const ext = extname(file.path);
+        // Avoid picking up SKILL.md as a rule
+        return (
+          RULE_FILE_EXTENSIONS.includes(ext as (typeof RULE_FILE_EXTENSIONS)[number]) &&
+          basename(file.path) !== 'SKILL.md'
+        );
+      })
+      .map((file) => file.fullPath);
   }
 
   /**
@@ -427,9 +456,15 @@ export class RulesHandler implements ResourceHandler {
     version?: string;
     description?: string;
     globs?: string[];
+    license?: string;
   } {
-    const metadata: { name?: string; version?: string; description?: string; globs?: string[] } =
-      {};
+    const metadata: {
+      name?: string;
+      version?: string;
+      description?: string;
+      globs?: string[];
+      license?: string;
+    } = {};
 
     // Extract front matter if present
     const frontMatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
@@ -439,10 +474,12 @@ export class RulesHandler implements ResourceHandler {
       const versionMatch = frontMatter.match(/^version:\s*(.+)$/m);
       const descMatch = frontMatter.match(/^description:\s*(.+)$/m);
       const globsMatch = frontMatter.match(/^globs:\s*(.+)$/m);
+      const licenseMatch = frontMatter.match(/^license:\s*(.+)$/m);
 
       if (nameMatch) metadata.name = nameMatch[1].trim();
       if (versionMatch) metadata.version = versionMatch[1].trim();
       if (descMatch) metadata.description = descMatch[1].trim();
+      if (licenseMatch) metadata.license = licenseMatch[1].trim();
 
       if (globsMatch) {
         try {
@@ -468,23 +505,6 @@ export class RulesHandler implements ResourceHandler {
     return metadata;
   }
 
-  /**
-   * Generate config hash for update detection
-   */
-  private generateConfigHash(
-    metadata: { name?: string; version?: string; description?: string; globs?: string[] },
-    content: string,
-  ): string {
-    const str = JSON.stringify(metadata) + content;
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16);
-  }
-
   /**
    * Generate installed name based on naming strategy
    */
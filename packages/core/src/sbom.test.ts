@@ -0,0 +1,149 @@
+/**
+ * Tests for SBOM export
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { LockFile } from '@coding-agent-fabric/common';
+import { createCycloneDxSbom, createSpdxSbom, getSbomComponents } from './sbom.js';
+
+const hash = 'a'.repeat(64);
+
+const lockFile: LockFile = {
+  version: 2,
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  config: {
+    preferredAgents: [],
+    defaultScope: 'project',
+    historyLimit: 10,
+    updateStrategy: 'parallel',
+  },
+  plugins: {
+    mcp: {
+      version: '1.0.0',
+      installedAt: '2026-01-01T00:00:00.000Z',
+      enabled: true,
+      location: 'project',
+    },
+  },
+  resources: {
+    patterns: {
+      type: 'skills',
+      name: 'patterns',
+      version: '1.2.0',
+      handler: 'built-in',
+      source: 'https://github.com/owner/repo/tree/v1.2.0',
+      sourceType: 'github',
+      sourceUrl: 'https://github.com/owner/repo',
+      license: 'MIT',
+      installedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      installedFor: [
+        { agent: 'claude-code', scope: 'project', path: '.claude/skills/patterns' },
+        { agent: 'cursor', scope: 'project', path: '.cursor/skills/patterns' },
+      ],
+      skillFolderHash: hash,
+      categories: [],
+      namingStrategy: 'smart-disambiguation',
+      originalName: 'patterns',
+      installedName: 'patterns',
+      sourcePath: 'skills/patterns',
+    },
+    github: {
+      type: 'mcp',
+      name: 'github',
+      handler: '@coding-agent-fabric/plugin-mcp',
+      source: './servers',
+      sourceType: 'local',
+      sourceUrl: 'file://./servers',
+      installedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      installedFor: [{ agent: 'claude-code', scope: 'project', path: '.mcp.json' }],
+      metadata: { serverType: 'stdio' },
+    },
+  },
+};
+
+describe('SBOM export', () => {
+  it('should describe resources and plugins', () => {
+    const [github, patterns, mcp] = getSbomComponents(lockFile);
+
+    expect(patterns).toMatchObject({
+      id: 'resource:patterns',
+      version: '1.2.0',
+      handler: 'built-in',
+      sourceUrl: 'https://github.com/owner/repo',
+      ref: 'v1.2.0',
+      hash,
+      license: 'MIT',
+      purl: 'pkg:github/owner/repo@v1.2.0#skills/patterns',
+      agents: ['claude-code', 'cursor'],
+    });
+    expect(github).toMatchObject({
+      type: 'mcp',
+      handler: '@coding-agent-fabric/plugin-mcp',
+      sourceUrl: undefined,
+      hash: undefined,
+    });
+    expect(mcp).toMatchObject({ id: 'plugin:mcp', kind: 'plugin', version: '1.0.0' });
+  });
+
+  it('should qualify GitHub Enterprise package URLs with their server', () => {
+    const enterprise: LockFile = {
+      ...lockFile,
+      resources: {
+        patterns: {
+          ...lockFile.resources.patterns,
+          source: 'https://git.corp.example/owner/repo/tree/v1.2.0',
+        },
+      },
+    };
+    const [patterns] = getSbomComponents(enterprise, {
+      'git.corp.example': { provider: 'github' },
+    });
+
+    expect(patterns.purl).toBe(
+      'pkg:github/owner/repo@v1.2.0?repository_url=git.corp.example#skills/patterns',
+    );
+  });
+
+  it('should build a CycloneDX document', () => {
+    const bom = createCycloneDxSbom(lockFile, { name: 'my-project' }) as {
+      bomFormat: string;
+      components: Record<string, unknown>[];
+    };
+
+    expect(bom.bomFormat).toBe('CycloneDX');
+    expect(bom.components).toHaveLength(3);
+    expect(bom.components[1]).toMatchObject({
+      'bom-ref': 'resource:patterns',
+      hashes: [{ alg: 'SHA-256', content: hash }],
+      licenses: [{ expression: 'MIT' }],
+      externalReferences: [{ type: 'vcs', url: 'https://github.com/owner/repo' }],
+    });
+    expect(bom.components[1].properties).toContainEqual({
+      name: 'caf:handler',
+      value: 'built-in',
+    });
+  });
+
+  it('should build an SPDX document', () => {
+    const doc = createSpdxSbom(lockFile, { name: 'my-project' }) as {
+      spdxVersion: string;
+      packages: Record<string, unknown>[];
+      relationships: unknown[];
+    };
+
+    expect(doc.spdxVersion).toBe('SPDX-2.3');
+    expect(doc.packages[1]).toMatchObject({
+      SPDXID: 'SPDXRef-resource-patterns',
+      downloadLocation: 'https://github.com/owner/repo',
+      checksums: [{ algorithm: 'SHA256', checksumValue: hash }],
+      licenseDeclared: 'MIT',
+    });
+    expect(doc.packages[0]).toMatchObject({
+      downloadLocation: 'NOASSERTION',
+      licenseDeclared: 'NOASSERTION',
+    });
+    expect(doc.relationships).toHaveLength(3);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Software bill of materials (SBOM) export of locked resources
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  getCurrentTimestamp,
+  isSha256,
+  parseSource,
+  type GitHostMap,
+  type LockFile,
+  type ParsedSource,
+  type ResourceLockEntry,
+} from '@coding-agent-fabric/common';
+
+/**
+ * Supported SBOM formats
+ */
+export const SBOM_FORMATS = ['cyclonedx', 'spdx'] as const;
+
+export type SbomFormat = (typeof SBOM_FORMATS)[number];
+
+/**
+ * SBOM options
+ */
+export interface SbomOptions {
+  name: string; // Name of the project the SBOM describes
+  toolVersion?: string; // Version of coding-agent-fabric recorded as the producing tool
+  timestamp?: string;
+  hosts?: GitHostMap; // Self-hosted git servers the lock file's sources may refer to
+}
+
+/**
+ * A locked resource or plugin, described independently of the SBOM format
+ */
+export interface SbomComponent {
+  id: string; // Unique within the document
+  kind: 'resource' | 'plugin';
+  name: string;
+  version?: string;
+  type: string; // Resource type, or "plugin"
+  handler?: string;
+  source?: string;
+  sourceUrl?: string;
+  ref?: string; // Branch, tag or commit the source was installed from
+  hash?: string; // SHA-256 of the resource contents
+  license?: string;
+  purl?: string;
+  agents: string[];
+}
+
+const TOOL_NAME = 'coding-agent-fabric';
+
+/**
+ * Describe every resource and plugin in a lock file, sorted by name
+ */
+export function getSbomComponents(lockFile: LockFile, hosts: GitHostMap = {}): SbomComponent[] {
+  const resources = Object.values(lockFile.resources)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((entry) => toResourceComponent(entry, hosts));
+
+  const plugins = Object.entries(lockFile.plugins)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([id, plugin]): SbomComponent => ({
+        id: `plugin:${id}`,
+        kind: 'plugin',
+        name: id,
+        version: plugin.version,
+        type: 'plugin',
+        agents: [],
+      }),
+    );
+
+  return [...resources, ...plugins];
+}
+
+/**
+ * Build a CycloneDX 1.5 JSON document
+ */
+export function createCycloneDxSbom(
+  lockFile: LockFile,
+  options: SbomOptions,
+): Record<string, unknown> {
+  const components = getSbomComponents(lockFile, options.hosts);
+
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: options.timestamp ?? getCurrentTimestamp(),
+      tools: {
+        components: [{ type: 'application', name: TOOL_NAME, version: options.toolVersion }],
+      },
+      component: { type: 'application', 'bom-ref': 'project', name: options.name },
+    },
+    components: components.map((component) => ({
+      type: component.kind === 'plugin' ? 'library' : 'data',
+      'bom-ref': component.id,
+      name: component.name,
+      version: component.version,
+      purl: component.purl,
+      hashes: component.hash ? [{ alg: 'SHA-256', content: component.hash }] : undefined,
+      licenses: component.license ? [{ expression: component.license }] : undefined,
+      externalReferences: component.sourceUrl
+        ? [{ type: component.ref ? 'vcs' : 'distribution', url: component.sourceUrl }]
+        : undefined,
+      properties: [
+        { name: 'caf:type', value: component.type },
+        ...(component.handler ? [{ name: 'caf:handler', value: component.handler }] : []),
+        ...(component.source ? [{ name: 'caf:source', value: component.source }] : []),
+        ...(component.ref ? [{ name: 'caf:ref', value: component.ref }] : []),
+        ...component.agents.map((agent) => ({ name: 'caf:agent', value: agent })),
+      ],
+    })),
+    dependencies: [
+      {
+        ref: 'project',
+        dependsOn: components.map((component) => component.id),
+      },
+    ],
+  };
+}
+
+/**
+ * Build an SPDX 2.3 JSON document
+ */
+export function createSpdxSbom(lockFile: LockFile, options: SbomOptions): Record<string, unknown> {
+  const components = getSbomComponents(lockFile, options.hosts);
+  const spdxIds = new Map<string, string>();
+  for (const component of components) {
+    // Sanitizing can map different names to the same identifier
+    const base = toSpdxId(component.id);
+    let spdxId = base;
+    for (let i = 2; [...spdxIds.values()].includes(spdxId); i++) {
+      spdxId = `${base}-${i}`;
+    }
+    spdxIds.set(component.id, spdxId);
+  }
+
+  return {
+    spdxVersion: 'SPDX-2.3',
+    dataLicense: 'CC0-1.0',
+    SPDXID: 'SPDXRef-DOCUMENT',
+    name: options.name,
+    documentNamespace: `https://spdx.org/spdxdocs/${encodeURIComponent(options.name)}-${randomUUID()}`,
+    creationInfo: {
+      created: options.timestamp ?? getCurrentTimestamp(),
+      creators: [`Tool: ${TOOL_NAME}${options.toolVersion ? `-${options.toolVersion}` : ''}`],
+    },
+    packages: components.map((component) => ({
+      SPDXID: spdxIds.get(component.id),
+      name: component.name,
+      versionInfo: component.version,
+      downloadLocation: component.sourceUrl ?? 'NOASSERTION',
+      filesAnalyzed: false,
+      checksums: component.hash ? [{ algorithm: 'SHA256', checksumValue: component.hash }] : [],
+      licenseConcluded: 'NOASSERTION',
+      licenseDeclared: component.license ?? 'NOASSERTION',
+      copyrightText: 'NOASSERTION',
+      externalRefs: component.purl
+        ? [
+            {
+              referenceCategory: 'PACKAGE-MANAGER',
+              referenceType: 'purl',
+              referenceLocator: component.purl,
+            },
+          ]
+        : [],
+      comment: describeComponent(component),
+    })),
+    relationships: components.map((component) => ({
+      spdxElementId: 'SPDXRef-DOCUMENT',
+      relationshipType: 'DESCRIBES',
+      relatedSpdxElement: spdxIds.get(component.id),
+    })),
+  };
+}
+
+/**
+ * Build an SBOM in the given format
+ */
+export function createSbom(
+  lockFile: LockFile,
+  format: SbomFormat,
+  options: SbomOptions,
+): Record<string, unknown> {
+  return format === 'spdx'
+    ? createSpdxSbom(lockFile, options)
+    : createCycloneDxSbom(lockFile, options);
+}
+
+function toResourceComponent(entry: ResourceLockEntry, hosts: GitHostMap): SbomComponent {
+  const parsed = entry.sourceType === 'local' ? undefined : parseSource(entry.source, hosts);
+  const ref = entry.ref ?? parsed?.ref;
+  const record = entry as unknown as Record<string, unknown>;
+  const metadata = (record.metadata ?? {}) as Record<string, unknown>;
+
+  return {
+    id: `resource:${entry.name}`,
+    kind: 'resource',
+    name: entry.name,
+    version: entry.version,
+    type: entry.type,
+    handler: entry.handler,
+    source: entry.source,
+    sourceUrl: entry.sourceType === 'local' ? undefined : entry.sourceUrl,
+    ref,
+    hash: getContentHash(entry),
+    license: entry.license ?? (metadata.license as string | undefined),
+    // Prefer the pinned commit, which identifies the installed files exactly
+    purl: getPackageUrl(entry, parsed, entry.resolvedRef ?? ref),
+    agents: [...new Set(entry.installedFor.map((target) => target.agent))],
+  };
+}
+
+/**
+ * SHA-256 of the resource contents, falling back to the digest of an installed copy
+ */
+function getContentHash(entry: ResourceLockEntry): string | undefined {
+  const record = entry as unknown as Record<string, unknown>;
+  const hash = record.skillFolderHash ?? record.configHash;
+  if (typeof hash === 'string' && isSha256(hash)) {
+    return hash;
+  }
+  return entry.installedFor.find((target) => target.content?.kind !== 'symlink')?.content?.digest;
+}
+
+function getPackageUrl(
+  entry: ResourceLockEntry,
+  parsed: ParsedSource | undefined,
+  ref: string | undefined,
+): string | undefined {
+  const { owner, repo, host } = parsed ?? {};
+  const version = ref ? `@${encodeURIComponent(ref)}` : '';
+  const subpath = parsed?.subpath ?? (entry as unknown as Record<string, unknown>).sourcePath;
+
+  switch (entry.sourceType) {
+    case 'github':
+      if (!owner || !repo) return undefined;
+      return (
+        `pkg:github/${owner}/${repo}${version}` +
+        // GitHub Enterprise repositories are qualified with their server
+        (host ? `?repository_url=${encodeURIComponent(host)}` : '') +
+        (typeof subpath === 'string' && subpath ? `#${subpath}` : '')
+      );
+    case 'bitbucket':
+      if (!owner || !repo) return undefined;
+      return `pkg:bitbucket/${owner}/${repo}${version}`;
+    case 'npm': {
+      const name = parseSource(entry.source).npmPackage;
+      if (!name) return undefined;
+      const encoded = name.startsWith('@') ? `%40${name.slice(1)}` : name;
+      // The installed package version, not the version of the resource inside it
+      const version = entry.resolvedRef ?? entry.version;
+      return `pkg:npm/${encoded}${version ? `@${version}` : ''}`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function describeComponent(component: SbomComponent): string {
+  if (component.kind === 'plugin') {
+    return `${TOOL_NAME} plugin`;
+  }
+  const agents = component.agents.length > 0 ? ` for ${component.agents.join(', ')}` : '';
+  return `${component.type} installed by ${component.handler}${agents}`;
+}
+
+/**
+ * SPDX identifiers may only contain letters, digits, "." and "-"
+ */
+function toSpdxId(id: string): string {
+  return `SPDXRef-${id.replace(/[^A-Za-z0-9.-]/g, '-')}`;
+}
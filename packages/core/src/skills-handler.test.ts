@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdir, writeFile, rm, readFile, lstat, readlink } from 'node:fs/promises';
+import { mkdir, writeFile, rm, readFile, lstat, readlink, symlink } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { SkillsHandler } from './skills-handler.js';
@@ -152,6 +152,79 @@ Content here.
       expect(resources[0].files.map((f) => f.path)).toContain('SKILL.md');
       expect(resources[0].files.map((f) => f.path)).toContain(join('references', 'guide.md'));
     });
+
+    it('should discover skills shared through symbolic links', async () => {
+      const sourceDir = join(testDir, 'monorepo');
+      await mkdir(join(sourceDir, 'shared', 'lint'), { recursive: true });
+      await mkdir(join(sourceDir, 'pack'), { recursive: true });
+      await writeFile(
+        join(sourceDir, 'shared', 'lint', 'SKILL.md'),
+        '---\nname: lint\n---\n# Lint',
+      );
+      await writeFile(join(sourceDir, 'shared', 'rules.md'), 'Shared rules');
+      await symlink('../../shared/rules.md', join(sourceDir, 'shared', 'lint', 'rules.md'));
+      await symlink('../shared/lint', join(sourceDir, 'pack', 'lint'));
+
+      const resources = await handler.discoverFromPath(sourceDir);
+      const lint = resources.filter((resource) => resource.metadata.originalName === 'lint');
+      expect(lint.map((resource) => resource.metadata.sourcePath).sort()).toEqual([
+        join('pack', 'lint'),
+        join('shared', 'lint'),
+      ]);
+      expect(lint[0].files.find((file) => file.path === 'rules.md')?.content).toBe('Shared rules');
+
+      expect(await handler.discoverFromPath(sourceDir, { symlinks: 'skip' })).toHaveLength(1);
+    });
+
+    it('should only discover the skills listed in fabric.json', async () => {
+      const sourceDir = join(testDir, 'manifest-source');
+      await mkdir(join(sourceDir, 'skills', 'review'), { recursive: true });
+      await mkdir(join(sourceDir, 'drafts', 'unfinished'), { recursive: true });
+      await writeFile(
+        join(sourceDir, 'skills', 'review', 'SKILL.md'),
+        '---\nname: review\nversion: 0.1.0\n---\n# Review',
+      );
+      await writeFile(join(sourceDir, 'drafts', 'unfinished', 'SKILL.md'), '# Unfinished');
+      await writeFile(
+        join(sourceDir, 'fabric.json'),
+        JSON.stringify({
+          version: '2.0.0',
+          skills: [
+            {
+              path: 'skills/review',
+              name: 'code-review',
+              description: 'Reviews changes',
+              categories: ['quality'],
+              agents: ['claude-code'],
+              dependencies: [{ type: 'rules', name: 'style' }],
+            },
+          ],
+        }),
+      );
+
+      const resources = await handler.discoverFromPath(sourceDir);
+
+      expect(resources).toHaveLength(1);
+      expect(resources[0].metadata.originalName).toBe('code-review');
+      expect(resources[0].version).toBe('0.1.0');
+      expect(resources[0].description).toBe('Reviews changes');
+      expect(resources[0].metadata.categories).toEqual(['quality']);
+      expect(resources[0].metadata.agents).toEqual(['claude-code']);
+      expect(resources[0].dependencies).toEqual([{ type: 'rules', name: 'style' }]);
+    });
+
+    it('should fail when a listed skill has no SKILL.md', async () => {
+      const sourceDir = join(testDir, 'broken-manifest');
+      await mkdir(join(sourceDir, 'skills', 'missing'), { recursive: true });
+      await writeFile(
+        join(sourceDir, 'fabric.json'),
+        JSON.stringify({ skills: [{ path: 'skills/missing' }] }),
+      );
+
+      await expect(handler.discoverFromPath(sourceDir)).rejects.toThrow(
+        'Skill "skills/missing" in fabric.json has no SKILL.md',
+      );
+    });
   });
 
   describe('validate', () => {
@@ -296,6 +369,28 @@ Content here.
       expect(await readFile(join(skillDir, 'docs', 'a.md'), 'utf-8')).toBe('B');
     });
 
+    it('should copy binary files verbatim and keep executable modes', async () => {
+      const skillPath = join(testDir, 'skills', 'binary-skill');
+      const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe]);
+      await mkdir(join(skillPath, 'bin'), { recursive: true });
+      await writeFile(join(skillPath, 'SKILL.md'), '---\nname: binary-skill\n---\n# Binary Skill');
+      await writeFile(join(skillPath, 'logo.png'), image);
+      await writeFile(join(skillPath, 'bin', 'run.sh'), '#!/bin/sh\necho ok\n', { mode: 0o755 });
+
+      const [resource] = await handler.discoverFromPath(join(testDir, 'skills'));
+      expect(resource.files.find((f) => f.path === 'logo.png')?.content).toBeUndefined();
+
+      await handler.install(
+        resource,
+        [{ agent: 'claude-code' as const, scope: 'project' as const, mode: 'copy' as const }],
+        { force: true },
+      );
+
+      const skillDir = join(handler.getInstallPath('claude-code', 'project'), 'binary-skill');
+      expect(await readFile(join(skillDir, 'logo.png'))).toEqual(image);
+      expect((await lstat(join(skillDir, 'bin', 'run.sh'))).mode & 0o777).toBe(0o755);
+    });
+
     it('should create a symlink from metadata.sourceDir', async () => {
       const sourceDir = join(testDir, 'symlink-source');
       await mkdir(sourceDir, { recursive: true });
@@ -2,7 +2,7 @@
  * SkillsHandler - Manages skills resources
  */
 
-import { readFile, writeFile, mkdir, readdir, stat, symlink, rm, readlink } from 'node:fs/promises';
+import { readFile, mkdir, readdir, symlink, rm, readlink } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join, basename, dirname, relative, sep } from 'node:path';
 import type {
@@ -29,10 +29,16 @@ import {
   sanitizeFileName,
   safeJoin,
   isExcludedName,
+  hashResourceFiles,
+  readSourceManifest,
+  SOURCE_MANIFEST_FILE_NAME,
+  type SourceManifestEntry,
 } from '@coding-agent-fabric/common';
 import { ResourceHandler } from '@coding-agent-fabric/plugin-api';
 import { AgentRegistry } from './agent-registry.js';
 import { auditLogger, AuditLogger } from './audit-logger.js';
+import { collectResourceFiles, writeResourceFile } from './resource-files.js';
+import { walkFiles } from './source-walker.js';
 
 export interface SkillsHandlerOptions {
   agentRegistry: AgentRegistry;
@@ -82,55 +88,94 @@ export class SkillsHandler implements ResourceHandler {
   }
 
   /**
-   * Discover skills from a local directory path
+   * Discover skills from a local directory path.
+   * A fabric.json manifest at the root lists the skills explicitly; otherwise every directory
+   * with a SKILL.md is a skill.
    */
   async discoverFromPath(localPath: string, options?: DiscoverOptions): Promise<Resource[]> {
+    const manifest = await readSourceManifest(localPath);
+    if (manifest) {
+      const resources: Resource[] = [];
+      for (const entry of manifest.skills ?? []) {
+        let skillDir = safeJoin(localPath, entry.path);
+        if (basename(skillDir) === SKILL_FILE_NAME) {
+          skillDir = dirname(skillDir);
+        }
+        if (!existsSync(join(skillDir, SKILL_FILE_NAME))) {
+          throw new Error(
+            `Skill "${entry.path}" in ${SOURCE_MANIFEST_FILE_NAME} has no ${SKILL_FILE_NAME}`,
+          );
+        }
+        const resource = await this.createSkillResource(localPath, skillDir, options, entry);
+        resource.version ??= manifest.version;
+        resources.push(resource);
+      }
+      return resources;
+    }
+
     const resources: Resource[] = [];
 
     // Recursively find all SKILL.md files
-    const skillFiles = await this.findSkillFiles(localPath);
+    const skillFiles = await this.findSkillFiles(localPath, options);
 
     for (const skillPath of skillFiles) {
-      const skillDir = dirname(skillPath);
-      const skillContent = await readFile(skillPath, 'utf-8');
-
-      // Extract metadata from SKILL.md
-      const metadata = this.parseSkillMetadata(skillContent);
-      const originalName = metadata.name || basename(skillDir);
-
-      // Extract categories from path
-      const relativePath = relative(localPath, skillDir);
-      const pathParts = relativePath.split(sep).filter(Boolean);
-      // Remove the last part (skill directory name) to get categories
-      const categories =
-        options?.categories || (pathParts.length > 1 ? pathParts.slice(0, -1) : []);
-
-      // Generate smart name based on strategy
-      const namingStrategy = options?.namingStrategy || 'smart-disambiguation';
-      const installedName = this.generateInstalledName(originalName, categories, namingStrategy);
-
-      // Collect all files in the skill directory
-      const files = await this.collectSkillFiles(skillDir);
-
-      resources.push({
-        type: this.type,
-        name: installedName,
-        version: metadata.version,
-        description: metadata.description || '',
-        metadata: {
-          originalName,
-          categories,
-          namingStrategy,
-          sourcePath: relative(localPath, skillDir),
-          sourceDir: skillDir,
-        },
-        files,
-      });
+      resources.push(await this.createSkillResource(localPath, dirname(skillPath), options));
     }
 
     return resources;
   }
 
+  /**
+   * Build the resource for one skill directory; manifest entries override what SKILL.md says
+   */
+  private async createSkillResource(
+    localPath: string,
+    skillDir: string,
+    options?: DiscoverOptions,
+    entry?: SourceManifestEntry,
+  ): Promise<Resource> {
+    const skillContent = await readFile(join(skillDir, SKILL_FILE_NAME), 'utf-8');
+
+    // Extract metadata from SKILL.md
+    const metadata = this.parseSkillMetadata(skillContent);
+    const originalName = entry?.name || metadata.name || basename(skillDir);
+
+    // Extract categories from path
+    const relativePath = relative(localPath, skillDir);
+    const pathParts = relativePath.split(sep).filter(Boolean);
+    // Remove the last part (skill directory name) to get categories
+    const categories =
+      options?.categories ||
+      entry?.categories ||
+      (pathParts.length > 1 ? pathParts.slice(0, -1) : []);
+
+    // Generate smart name based on strategy
+    const namingStrategy = options?.namingStrategy || 'smart-disambiguation';
+    const installedName = this.generateInstalledName(originalName, categories, namingStrategy);
+
+    // Collect all files in the skill directory; links may point anywhere in the source
+    const files = await this.collectSkillFiles(skillDir, localPath, options);
+
+    return {
+      type: this.type,
+      name: installedName,
+      version: entry?.version ?? metadata.version,
+      description: entry?.description || metadata.description || '',
+      metadata: {
+        originalName,
+        categories,
+        namingStrategy,
+        sourcePath: relativePath,
+        sourceDir: skillDir,
+        license: metadata.license,
+        agents: entry?.agents,
+        skillFolderHash: hashResourceFiles(files),
+      },
+      files,
+      dependencies: entry?.dependencies,
+    };
+  }
+
   /**
    * Install a skill to target agents
    */
@@ -154,7 +199,7 @@ export class SkillsHandler implements ResourceHandler {
       // Ensure install directory exists
       await mkdir(installPath, { recursive: true });
 
-      const targetPath = join(installPath, sanitizeFileName(resource.name));
+      const targetPath = this.getTargetPath(resource.name, target.agent, target.scope);
 
       // Check if already exists
       if (existsSync(targetPath) && !options.force) {
@@ -180,12 +225,8 @@ export class SkillsHandler implements ResourceHandler {
         // Copy files
         await mkdir(targetPath, { recursive: true });
         for (const file of resource.files) {
-          if (file.path && file.content !== undefined) {
-            const destPath = safeJoin(targetPath, file.path);
-            await mkdir(dirname(destPath), { recursive: true });
-            await writeFile(destPath, file.content, {
-              mode: file.mode,
-            });
+          if (file.path) {
+            await writeResourceFile(safeJoin(targetPath, file.path), file);
           }
         }
       }
@@ -207,9 +248,7 @@ export class SkillsHandler implements ResourceHandler {
     _options: RemoveOptions,
   ): Promise<void> {
     for (const target of targets) {
-      const installPath = this.getInstallPath(target.agent, target.scope);
-
-      const targetPath = join(installPath, sanitizeFileName(resource.name));
+      const targetPath = this.getTargetPath(resource.name, target.agent, target.scope);
 
       if (!existsSync(targetPath)) {
         this.auditLogger.warning('remove-skill-not-found', resource.name, this.type, {
@@ -395,35 +434,28 @@ export class SkillsHandler implements ResourceHandler {
   }
 
   /**
-   * Recursively find all SKILL.md files
+   * Get the installed location of a skill directory for an agent
    */
-  private async findSkillFiles(dir: string): Promise<string[]> {
-    const skillFiles: string[] = [];
+  getTargetPath(name: string, agent: AgentType, scope: Scope): string {
+    return join(this.getInstallPath(agent, scope), sanitizeFileName(name));
+  }
 
+  /**
+   * Recursively find all SKILL.md files
+   */
+  private async findSkillFiles(dir: string, options?: DiscoverOptions): Promise<string[]> {
     if (!existsSync(dir)) {
-      return skillFiles;
-    }
-
-    const entries = await readdir(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-
-      // Skip excluded patterns
-      if (isExcludedName(entry.name, EXCLUDE_PATTERNS)) {
-        continue;
-      }
-
-      if (entry.isDirectory()) {
-        // Recurse into subdirectory
-        const subFiles = await this.findSkillFiles(fullPath);
-        skillFiles.push(...subFiles);
-      } else if (entry.isFile() && entry.name === SKILL_FILE_NAME) {
-        skillFiles.push(fullPath);
-      }
+      return [];
     }
 
-    return skillFiles;
+    const files = await walkFiles(dir, {
+      symlinks: options?.symlinks,
+      exclude: (name) => isExcludedName(name, EXCLUDE_PATTERNS),
+      auditLogger: this.auditLogger,
+    });
+    return files
+      .filter((file) => basename(file.path) === SKILL_FILE_NAME)
+      .map((file) => file.fullPath);
   }
 
   /**
@@ -433,8 +465,10 @@ export class SkillsHandler implements ResourceHandler {
     name?: string;
     version?: string;
     description?: string;
+    license?: string;
   } {
-    const metadata: { name?: string; version?: string; description?: string } = {};
+    const metadata: { name?: string; version?: string; description?: string; license?: string } =
+      {};
 
     // Extract front matter if present
     const frontMatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
@@ -443,10 +477,12 @@ export class SkillsHandler implements ResourceHandler {
       const nameMatch = frontMatter.match(/^name:\s*(.+)$/m);
       const versionMatch = frontMatter.match(/^version:\s*(.+)$/m);
       const descMatch = frontMatter.match(/^description:\s*(.+)$/m);
+      const licenseMatch = frontMatter.match(/^license:\s*(.+)$/m);
 
       if (nameMatch) metadata.name = nameMatch[1].trim();
       if (versionMatch) metadata.version = versionMatch[1].trim();
       if (descMatch) metadata.description = descMatch[1].trim();
+      if (licenseMatch) metadata.license = licenseMatch[1].trim();
     }
 
     // Extract from first heading if no front matter
@@ -471,39 +507,21 @@ export class SkillsHandler implements ResourceHandler {
   /**
    * Collect all files in a skill directory
    */
-  private async collectSkillFiles(dir: string, baseDir: string = dir): Promise<ResourceFile[]> {
-    const files: ResourceFile[] = [];
-
+  private async collectSkillFiles(
+    dir: string,
+    root: string,
+    options?: DiscoverOptions,
+  ): Promise<ResourceFile[]> {
     if (!existsSync(dir)) {
-      return files;
-    }
-
-    const entries = await readdir(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-
-      // Skip excluded patterns
-      if (isExcludedName(entry.name, EXCLUDE_PATTERNS)) {
-        continue;
-      }
-
-      if (entry.isDirectory()) {
-        const subFiles = await this.collectSkillFiles(fullPath, baseDir);
-        files.push(...subFiles);
-      } else if (entry.isFile()) {
-        const content = await readFile(fullPath, 'utf-8');
-        const stats = await stat(fullPath);
-
-        files.push({
-          path: relative(baseDir, fullPath),
-          content,
-          mode: stats.mode,
-        });
-      }
+      return [];
     }
 
-    return files;
+    return collectResourceFiles(dir, {
+      symlinks: options?.symlinks,
+      root,
+      exclude: (name) => isExcludedName(name, EXCLUDE_PATTERNS),
+      auditLogger: this.auditLogger,
+    });
   }
 
   /**
@@ -0,0 +1,99 @@
+/**
+ * Tests for SnapshotStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync } from 'node:fs';
+import { lstat, mkdir, readFile, rm, stat, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SnapshotStore } from './snapshot-store.js';
+
+describe('SnapshotStore', () => {
+  let testDir: string;
+  let store: SnapshotStore;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `snapshot-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    );
+    await mkdir(join(testDir, 'skill', 'scripts'), { recursive: true });
+    await writeFile(join(testDir, 'skill', 'SKILL.md'), '# Skill v1');
+    await writeFile(join(testDir, 'skill', 'scripts', 'run.sh'), '#!/bin/sh\n', { mode: 0o755 });
+    store = new SnapshotStore(join(testDir, 'store'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should restore the exact files of a directory', async () => {
+    const id = await store.capture(join(testDir, 'skill'));
+
+    await writeFile(join(testDir, 'skill', 'SKILL.md'), '# Skill v2');
+    await writeFile(join(testDir, 'skill', 'extra.md'), 'added later');
+    await store.restore(id, join(testDir, 'skill'));
+
+    expect(await readFile(join(testDir, 'skill', 'SKILL.md'), 'utf-8')).toBe('# Skill v1');
+    expect(existsSync(join(testDir, 'skill', 'extra.md'))).toBe(false);
+    const mode = (await stat(join(testDir, 'skill', 'scripts', 'run.sh'))).mode & 0o777;
+    expect(mode).toBe(0o755);
+  });
+
+  it('should store the contents symbolic link installs point to', async () => {
+    const linkPath = join(testDir, 'linked-skill');
+    await symlink(join(testDir, 'skill'), linkPath);
+    await symlink(join(testDir, 'skill', 'SKILL.md'), join(testDir, 'linked-file.md'));
+    const dirId = await store.capture(linkPath);
+    const fileId = await store.capture(join(testDir, 'linked-file.md'));
+
+    // The source the links point to changes or disappears, as when the cache is cleaned
+    await rm(join(testDir, 'skill'), { recursive: true });
+    await store.restore(dirId, linkPath);
+    await store.restore(fileId, join(testDir, 'linked-file.md'));
+
+    expect((await lstat(linkPath)).isDirectory()).toBe(true);
+    expect(await readFile(join(linkPath, 'SKILL.md'), 'utf-8')).toBe('# Skill v1');
+    expect(await readFile(join(linkPath, 'scripts', 'run.sh'), 'utf-8')).toBe('#!/bin/sh\n');
+    expect(await readFile(join(testDir, 'linked-file.md'), 'utf-8')).toBe('# Skill v1');
+  });
+
+  it('should restore single files', async () => {
+    const path = join(testDir, 'rule.md');
+    await writeFile(path, 'rule v1');
+    const id = await store.capture(path);
+
+    await writeFile(path, 'rule v2');
+    await store.restore(id, path);
+
+    expect(await readFile(path, 'utf-8')).toBe('rule v1');
+  });
+
+  it('should address identical contents by the same id', async () => {
+    const first = await store.capture(join(testDir, 'skill'));
+    const second = await store.capture(join(testDir, 'skill'));
+
+    expect(second).toBe(first);
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should keep the store out of git', async () => {
+    await store.capture(join(testDir, 'skill'));
+    expect(await readFile(join(testDir, 'store', '.gitignore'), 'utf-8')).toBe('*\n');
+  });
+
+  it('should garbage collect unreferenced snapshots and contents', async () => {
+    const v1 = await store.capture(join(testDir, 'skill'));
+    await writeFile(join(testDir, 'skill', 'SKILL.md'), '# Skill v2');
+    const v2 = await store.capture(join(testDir, 'skill'));
+
+    const result = await store.gc([v2]);
+
+    expect(result).toEqual({ removedSnapshots: 1, removedObjects: 1 });
+    expect(store.has(v1)).toBe(false);
+    expect(store.has(v2)).toBe(true);
+    await store.restore(v2, join(testDir, 'restored'));
+    expect(await readFile(join(testDir, 'restored', 'SKILL.md'), 'utf-8')).toBe('# Skill v2');
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * SnapshotStore - Content-addressed storage of installed resource files
+ */
+
+import { existsSync } from 'node:fs';
+import {
+  chmod,
+  lstat,
+  mkdir,
+  readdir,
+  readFile,
+  readlink,
+  rename,
+  rm,
+  stat,
+  symlink,
+  writeFile,
+} from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { sha256 } from '@coding-agent-fabric/common';
+
+/**
+ * A file recorded in a snapshot
+ */
+export interface SnapshotFile {
+  path: string; // Relative to the snapshot root; empty for single-file snapshots
+  hash?: string; // SHA-256 of the contents (regular files)
+  mode?: number; // Permission bits (regular files)
+  symlink?: string; // Link target (symbolic links)
+}
+
+/**
+ * Snapshot manifest
+ */
+export interface SnapshotManifest {
+  kind: 'file' | 'directory';
+  files: SnapshotFile[];
+}
+
+/**
+ * Result of garbage collection
+ */
+export interface SnapshotGcResult {
+  removedSnapshots: number;
+  removedObjects: number;
+}
+
+/**
+ * SnapshotStore keeps the exact bytes of installed resources so they can be restored later.
+ * File contents and snapshot manifests are both stored under their SHA-256 digest.
+ */
+export class SnapshotStore {
+  private storeDir: string;
+  private objectsDir: string;
+  private snapshotsDir: string;
+
+  constructor(storeDir: string) {
+    this.storeDir = storeDir;
+    this.objectsDir = join(storeDir, 'objects');
+    this.snapshotsDir = join(storeDir, 'snapshots');
+  }
+
+  /**
+   * Store the file or directory at `path` and return its snapshot id.
+   * When `path` itself is a symbolic link, as for symlink-mode installs pointing into the source
+   * cache, the contents it points to are stored, so that a restore does not depend on the cache.
+   * Links below it are stored as links.
+   */
+  async capture(path: string): Promise<string> {
+    const stats = await stat(path);
+    const manifest: SnapshotManifest = {
+      kind: stats.isDirectory() ? 'directory' : 'file',
+      files: [],
+    };
+
+    if (stats.isDirectory()) {
+      for (const file of await this.walk(path)) {
+        manifest.files.push(await this.captureFile(file, relative(path, file)));
+      }
+    } else {
+      manifest.files.push(await this.captureFile(path, '', true));
+    }
+
+    const content = JSON.stringify(manifest);
+    const id = sha256(content);
+    await this.writeOnce(this.getSnapshotPath(id), content);
+    return id;
+  }
+
+  /**
+   * Replace whatever is at `path` with the contents of a snapshot
+   */
+  async restore(id: string, path: string): Promise<void> {
+    const manifest = await this.getManifest(id);
+
+    await rm(path, { recursive: true, force: true });
+    if (manifest.kind === 'directory') {
+      await mkdir(path, { recursive: true });
+    }
+
+    for (const file of manifest.files) {
+      const target = file.path ? join(path, file.path) : path;
+      await mkdir(dirname(target), { recursive: true });
+
+      if (file.symlink !== undefined) {
+        await symlink(file.symlink, target);
+        continue;
+      }
+
+      await writeFile(target, await readFile(this.getObjectPath(file.hash!)));
+      if (file.mode !== undefined) {
+        await chmod(target, file.mode);
+      }
+    }
+  }
+
+  /**
+   * Check whether a snapshot exists
+   */
+  has(id: string): boolean {
+    return existsSync(this.getSnapshotPath(id));
+  }
+
+  /**
+   * Read a snapshot manifest
+   */
+  async getManifest(id: string): Promise<SnapshotManifest> {
+    if (!this.has(id)) {
+      throw new Error(`Snapshot ${id} not found in ${this.storeDir}`);
+    }
+    return JSON.parse(await readFile(this.getSnapshotPath(id), 'utf-8')) as SnapshotManifest;
+  }
+
+  /**
+   * Remove snapshots that are not in `keep`, and file contents no remaining snapshot uses
+   */
+  async gc(keep: Iterable<string>): Promise<SnapshotGcResult> {
+    const kept = new Set(keep);
+    const referenced = new Set<string>();
+    let removedSnapshots = 0;
+    let removedObjects = 0;
+
+    for (const file of await this.walk(this.snapshotsDir)) {
+      const id = relative(this.snapshotsDir, file)
+        .replace(/[/\\]/g, '')
+        .replace(/\.json$/, '');
+      if (!kept.has(id)) {
+        await rm(file, { force: true });
+        removedSnapshots++;
+        continue;
+      }
+
+      const manifest = await this.getManifest(id);
+      for (const entry of manifest.files) {
+        if (entry.hash) referenced.add(entry.hash);
+      }
+    }
+
+    for (const file of await this.walk(this.objectsDir)) {
+      const hash = relative(this.objectsDir, file).replace(/[/\\]/g, '');
+      if (!referenced.has(hash)) {
+        await rm(file, { force: true });
+        removedObjects++;
+      }
+    }
+
+    return { removedSnapshots, removedObjects };
+  }
+
+  private async captureFile(
+    path: string,
+    relativePath: string,
+    followLink = false,
+  ): Promise<SnapshotFile> {
+    const stats = followLink ? await stat(path) : await lstat(path);
+    if (stats.isSymbolicLink()) {
+      return { path: relativePath, symlink: await readlink(path) };
+    }
+
+    const content = await readFile(path);
+    const hash = sha256(content);
+    await this.writeOnce(this.getObjectPath(hash), content);
+    return { path: relativePath, hash, mode: stats.mode & 0o777 };
+  }
+
+  /**
+   * Write content-addressed data unless it is already stored
+   */
+  private async writeOnce(path: string, content: string | Buffer): Promise<void> {
+    if (existsSync(path)) {
+      return;
+    }
+
+    await mkdir(dirname(path), { recursive: true });
+    await this.ensureIgnored();
+
+    // Write to a temporary name first so readers never see partial contents
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tempPath, content);
+    await rename(tempPath, path);
+  }
+
+  /**
+   * Keep the store out of version control
+   */
+  private async ensureIgnored(): Promise<void> {
+    const gitignore = join(this.storeDir, '.gitignore');
+    if (!existsSync(gitignore)) {
+      await writeFile(gitignore, '*\n', 'utf-8');
+    }
+  }
+
+  /**
+   * List files and symbolic links below a directory, sorted for stable manifests
+   */
+  private async walk(dir: string): Promise<string[]> {
+    if (!existsSync(dir)) {
+      return [];
+    }
+
+    const files: string[] = [];
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.walk(fullPath)));
+      } else {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
+
+  private getObjectPath(hash: string): string {
+    return join(this.objectsDir, hash.slice(0, 2), hash.slice(2));
+  }
+
+  private getSnapshotPath(id: string): string {
+    return join(this.snapshotsDir, id.slice(0, 2), `${id.slice(2)}.json`);
+  }
+}
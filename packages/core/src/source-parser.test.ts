@@ -2,12 +2,15 @@
  * Tests for SourceParser
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'node:crypto';
 import { existsSync } from 'node:fs';
-import { rm, mkdir, writeFile } from 'node:fs/promises';
+import { rm, mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
+import * as tar from 'tar';
 import { SourceParser } from './source-parser.js';
+import { AuditLogger } from './audit-logger.js';
 
 describe('SourceParser', () => {
   let testDir: string;
@@ -30,6 +33,17 @@ describe('SourceParser', () => {
     }
   });
 
+  const createTarball = async (content: string): Promise<Buffer> => {
+    const packageDir = join(testDir, 'tarball', 'package');
+    await mkdir(packageDir, { recursive: true });
+    await writeFile(join(packageDir, 'SKILL.md'), content);
+    const chunks: Buffer[] = [];
+    for await (const chunk of tar.c({ gzip: true, cwd: join(testDir, 'tarball') }, ['package'])) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  };
+
   describe('local sources', () => {
     it('should parse a local directory', async () => {
       // Create test files
@@ -46,6 +60,21 @@ describe('SourceParser', () => {
       expect(result.metadata.fileCount).toBe(2);
     });
 
+    it('should use only the subpath after "#"', async () => {
+      const localDir = join(testDir, 'pack');
+      await mkdir(join(localDir, 'skills', 'react'), { recursive: true });
+      await writeFile(join(localDir, 'README.md'), 'readme');
+      await writeFile(join(localDir, 'skills', 'react', 'SKILL.md'), '# React');
+
+      const result = await parser.parse(`${localDir}#skills/`);
+      expect(result.source.subpath).toBe('skills');
+      expect(result.files.map((f) => f.path)).toEqual([join('react', 'SKILL.md')]);
+
+      await expect(parser.parse(`${localDir}#../other`)).rejects.toThrow(
+        'Invalid subpath "../other"',
+      );
+    });
+
     it('should parse a local directory with nested files', async () => {
       // Create nested structure
       const localDir = join(testDir, 'nested-source');
@@ -104,7 +133,290 @@ describe('SourceParser', () => {
     }, 15000); // Increase timeout due to retry logic with backoff
   });
 
+  describe('ref resolution', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should resolve a GitHub branch to its commit SHA', async () => {
+      const sha = '0123456789abcdef0123456789abcdef01234567';
+      const fetchMock = vi.fn(async () => new Response(`${sha}\n`));
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await parser.resolveRef('https://github.com/owner/repo/tree/main')).toBe(sha);
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://api.github.com/repos/owner/repo/commits/main',
+      );
+    });
+
+    it('should resolve the ref and subpath of repository shorthands', async () => {
+      const sha = '89abcdef0123456789abcdef0123456789abcdef';
+      await mkdir(join(testDir, 'tarball', 'package', 'skills', 'react'), { recursive: true });
+      await writeFile(
+        join(testDir, 'tarball', 'package', 'skills', 'react', 'SKILL.md'),
+        '# React',
+      );
+      const tarball = await createTarball('# Root');
+      const fetchMock = vi.fn(async (url: string) =>
+        url.includes('/tarball/') ? new Response(tarball) : new Response(sha),
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await parser.parse('owner/repo/skills@v1.2');
+      expect(result.resolvedRef).toBe(sha);
+      expect(result.files.map((f) => f.path)).toEqual([join('react', 'SKILL.md')]);
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.github.com/repos/owner/repo/commits/v1.2',
+        `https://api.github.com/repos/owner/repo/tarball/${sha}`,
+      ]);
+    });
+
+    it('should re-resolve a pinned ref that is not a commit SHA', async () => {
+      const sha = '89abcdef0123456789abcdef0123456789abcdef';
+      const tarball = await createTarball('# Root');
+      const fetchMock = vi.fn(async (url: string) =>
+        url.includes('/tarball/') ? new Response(tarball) : new Response(sha),
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await parser.parse('owner/repo', { ref: '../../user?x=' });
+      expect(result.resolvedRef).toBe(sha);
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.github.com/repos/owner/repo/commits/..%2F..%2Fuser%3Fx%3D',
+        `https://api.github.com/repos/owner/repo/tarball/${sha}`,
+      ]);
+    });
+
+    it('should resolve the GitLab default branch', async () => {
+      const sha = 'fedcba9876543210fedcba9876543210fedcba98';
+      const fetchMock = vi.fn(async () => Response.json({ id: sha }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await parser.resolveRef('https://gitlab.com/group/project')).toBe(sha);
+      expect(fetchMock.mock.calls[0][0]).toContain('/repository/commits/HEAD');
+    });
+
+    it('should use the API of a configured GitHub Enterprise server', async () => {
+      const sha = 'abcdef0123456789abcdef0123456789abcdef01';
+      const fetchMock = vi.fn(async () => new Response(sha));
+      vi.stubGlobal('fetch', fetchMock);
+      const gheParser = new SourceParser({
+        cacheDir: testDir,
+        hosts: { 'git.corp.example': { provider: 'github', alias: 'ghe' } },
+      });
+
+      expect(await gheParser.resolveRef('ghe:org/repo')).toBe(sha);
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://git.corp.example/api/v3/repos/org/repo/commits/HEAD',
+      );
+    });
+
+    it('should resolve the Bitbucket main branch', async () => {
+      const sha = '1111111111222222222233333333334444444444';
+      const fetchMock = vi.fn(async (url: string) =>
+        Response.json(url.includes('/commit/') ? { hash: sha } : { mainbranch: { name: 'trunk' } }),
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await parser.resolveRef('bitbucket:team/repo')).toBe(sha);
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        'https://api.bitbucket.org/2.0/repositories/team/repo/commit/trunk',
+      );
+    });
+
+    it('should fail clearly when a Bitbucket repository has no main branch', async () => {
+      const fetchMock = vi.fn(async () => Response.json({}));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await expect(parser.resolveRef('bitbucket:team/repo')).rejects.toThrow(
+        'team/repo has no main branch; pass a ref',
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve Gitea refs through the commits API', async () => {
+      const sha = '5555555555666666666677777777778888888888';
+      const fetchMock = vi.fn(async () => Response.json([{ sha }]));
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await parser.resolveRef('https://codeberg.org/team/repo/src/branch/dev')).toBe(sha);
+      expect(fetchMock.mock.calls[0][0]).toContain(
+        'https://codeberg.org/api/v1/repos/team/repo/commits?limit=1',
+      );
+      expect(fetchMock.mock.calls[0][0]).toContain('&sha=dev');
+    });
+
+    it('should not look up refs that are already commit SHAs', async () => {
+      const sha = '0123456789abcdef0123456789abcdef01234567';
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await parser.resolveRef(`https://github.com/owner/repo/tree/${sha}`)).toBe(sha);
+      expect(await parser.resolveRef('https://example.com/skills.tgz')).toBeUndefined();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('download cache', () => {
+    const url = 'https://example.com/skills.tgz';
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should reuse extracted trees and serve them offline', async () => {
+      const tarball = await createTarball('# Skill');
+      const fetchMock = vi.fn(async () => new Response(tarball, { headers: { ETag: '"a"' } }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await parser.parse(url);
+      await parser.parse(url);
+      expect(await readdir(join(testDir, 'trees'))).toHaveLength(1);
+
+      const offline = new SourceParser({ cacheDir: testDir, offline: true });
+      const result = await offline.parse(url);
+      expect(await readFile(join(result.localDir, 'SKILL.md'), 'utf-8')).toBe('# Skill');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep archives with the same file name apart', async () => {
+      const tarballs: Record<string, Buffer> = {
+        'https://example.com/v1/skills.tgz': await createTarball('# Skill v1'),
+        'https://example.com/v2/skills.tgz': await createTarball('# Skill v2'),
+      };
+      vi.stubGlobal('fetch', async (input: string) => new Response(tarballs[input]));
+
+      const v1 = await parser.parse('https://example.com/v1/skills.tgz');
+      const v2 = await parser.parse('https://example.com/v2/skills.tgz');
+      expect(v1.localDir).not.toBe(v2.localDir);
+      expect(await readFile(join(v1.localDir, 'SKILL.md'), 'utf-8')).toBe('# Skill v1');
+      expect(await readFile(join(v2.localDir, 'SKILL.md'), 'utf-8')).toBe('# Skill v2');
+    });
+
+    it('should authenticate downloads and keep tokens out of errors', async () => {
+      const token = 'private-token-value';
+      const fetchMock = vi.fn(async () => new Response('not an archive'));
+      vi.stubGlobal('fetch', fetchMock);
+      const authParser = new SourceParser({
+        cacheDir: testDir,
+        credentials: { hosts: { 'example.com': { token } } },
+      });
+
+      // The unsupported format error quotes the URL
+      const error = await authParser
+        .parse(`https://example.com/skills?token=${token}`)
+        .catch((e: Error) => e);
+      expect(
+        (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].headers,
+      ).toMatchObject({ Authorization: `Bearer ${token}` });
+      expect(String(error)).toContain('Unsupported archive format');
+      expect(String(error)).not.toContain(token);
+    });
+
+    it('should enforce extraction limits and audit the breach', async () => {
+      vi.stubGlobal('fetch', async () => new Response(await createTarball('# Skill')));
+      const logger = new AuditLogger({ enabled: false });
+      const warning = vi.spyOn(logger, 'warning');
+      const limitedParser = new SourceParser({
+        cacheDir: testDir,
+        auditLogger: logger,
+        limits: { maxFileBytes: 4 },
+      });
+
+      await expect(limitedParser.parse(url)).rejects.toThrow(
+        'Archive entry package/SKILL.md is 7 bytes, more than the limit of 4',
+      );
+      expect(warning).toHaveBeenCalledWith(
+        'source-parser-limit-exceeded',
+        url,
+        'source-parser',
+        expect.objectContaining({ limit: 'maxFileBytes', max: 4 }),
+      );
+      expect(await readdir(join(testDir, 'trees'))).toEqual([]);
+    });
+
+    it('should reject registry IDs that are not a single path segment', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      await expect(parser.parse('registry:../../outside')).rejects.toThrow(
+        'Invalid registry ID: ../../outside',
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should fail clearly on a cache miss offline', async () => {
+      const offline = new SourceParser({ cacheDir: testDir, offline: true });
+      await expect(offline.parse(url)).rejects.toThrow(/not in the cache/);
+    });
+  });
+
   describe('npm sources', () => {
+    const npmConfig = { registry: 'https://registry.example.com', scopes: {}, authTokens: {} };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const stubRegistry = (tarball: Buffer, integrity: string) => {
+      const packument = {
+        name: '@scope/rules',
+        'dist-tags': { latest: '2.0.0' },
+        versions: Object.fromEntries(
+          ['1.2.0', '1.4.1', '2.0.0'].map((version) => [
+            version,
+            { dist: { tarball: `https://registry.example.com/rules-${version}.tgz`, integrity } },
+          ]),
+        ),
+      };
+      const fetchMock = vi.fn(async (url: string) =>
+        url.endsWith('.tgz') ? new Response(tarball) : Response.json(packument),
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    };
+
+    it('should resolve version ranges and verify integrity', async () => {
+      const tarball = await createTarball('# Rules');
+      const integrity = `sha512-${createHash('sha512').update(tarball).digest('base64')}`;
+      const fetchMock = stubRegistry(tarball, integrity);
+      const npmParser = new SourceParser({ cacheDir: testDir, npmConfig });
+
+      const result = await npmParser.parse('npm:@scope/rules@^1.2');
+      expect(result.resolvedRef).toBe('1.4.1');
+      expect(await readFile(join(result.localDir, 'SKILL.md'), 'utf-8')).toBe('# Rules');
+      expect(fetchMock.mock.calls[0][0]).toBe('https://registry.example.com/@scope%2frules');
+      expect(fetchMock.mock.calls[1][0]).toBe('https://registry.example.com/rules-1.4.1.tgz');
+    });
+
+    it('should extract only the subpath of a package', async () => {
+      await mkdir(join(testDir, 'tarball', 'package', 'skills', 'react'), { recursive: true });
+      await writeFile(
+        join(testDir, 'tarball', 'package', 'skills', 'react', 'SKILL.md'),
+        '# React',
+      );
+      const tarball = await createTarball('# Rules');
+      stubRegistry(tarball, `sha512-${createHash('sha512').update(tarball).digest('base64')}`);
+      const npmParser = new SourceParser({ cacheDir: testDir, npmConfig });
+
+      const result = await npmParser.parse('npm:@scope/rules@1#skills/react');
+      expect(result.resolvedRef).toBe('1.4.1');
+      expect(result.files.map((f) => f.path)).toEqual(['SKILL.md']);
+      expect(await readFile(join(result.localDir, 'SKILL.md'), 'utf-8')).toBe('# React');
+
+      await expect(npmParser.parse('npm:@scope/rules#missing')).rejects.toThrow(
+        'Subpath "missing" not found in archive',
+      );
+    });
+
+    it('should reject tarballs that fail the integrity check', async () => {
+      const tarball = await createTarball('# Rules');
+      stubRegistry(tarball, `sha512-${createHash('sha512').update('other').digest('base64')}`);
+      const npmParser = new SourceParser({ cacheDir: testDir, npmConfig });
+
+      await expect(npmParser.parse('npm:@scope/rules')).rejects.toThrow(/Integrity check failed/);
+    });
+
     it('should download and extract an npm package', async () => {
       // 'test-package' seems to exist and work in the previous run
       const result = await parser.parse('npm:test-package');
@@ -2,41 +2,78 @@
  * SourceParser - Handles downloading and parsing resources from different sources
  */
 
-import { readdir, readFile, stat, mkdir, rm, writeFile } from 'node:fs/promises';
+import { readdir, stat, mkdir, mkdtemp, rename, rm } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
-import { join, resolve, basename, dirname, sep, relative, isAbsolute } from 'node:path';
-import { tmpdir } from 'node:os';
-import { Readable } from 'node:stream';
-import * as tar from 'tar';
+import { join, resolve, dirname, sep } from 'node:path';
+import { homedir, tmpdir } from 'node:os';
 import {
   ParsedSource,
   ResourceFile,
   parseSource,
   normalizePath,
-  retry,
   getCurrentTimestamp,
   safeJoin,
+  isPathInside,
+  isCommitSha,
+  isRegistryId,
+  redactSecrets,
+  sha256,
+  type ExtractLimits,
+  type GitHostMap,
+  type SymlinkMode,
 } from '@coding-agent-fabric/common';
 import {
-  GITHUB_API_BASE,
-  GITLAB_API_BASE,
-  NPM_REGISTRY_URL,
+  CONFIG_DIR_NAME,
+  SOURCE_CACHE_DIR_NAME,
+  DEFAULT_EXTRACT_LIMITS,
+  DEFAULT_GIT_HOSTS,
   DEFAULT_REGISTRY_URL,
   USER_AGENT,
-  RETRY_CONFIG,
   EXCLUDE_PATTERNS,
 } from '@coding-agent-fabric/common';
 import { auditLogger, AuditLogger } from './audit-logger.js';
+import {
+  ExtractLimitError,
+  detectArchiveFormat,
+  extractArchive,
+  findArchiveRoot,
+  isSafeArchivePath,
+  readArchiveHeader,
+} from './archive.js';
+import { collectResourceFiles, writeResourceFile } from './resource-files.js';
+import { HttpCache, type HttpCacheEntry, type HttpCacheVerification } from './http-cache.js';
+import {
+  getNpmAuthHeaders,
+  getPackumentUrl,
+  loadNpmConfig,
+  resolveNpmVersion,
+  createIntegrityCheck,
+  type NpmConfig,
+  type NpmDist,
+  type NpmPackument,
+} from './npm-registry.js';
+import {
+  getAuthHeaders,
+  getCredentialSecrets,
+  loadCredentials,
+  type CredentialConfig,
+} from './credentials.js';
+import { loadGitHosts } from './git-hosts.js';
+import { lsRemote, sparseFetch } from './git-fetch.js';
 
 export interface DownloadOptions {
   /** Target directory for downloaded files */
   targetDir?: string;
   /** Whether to extract archives */
   extract?: boolean;
-  /** Whether to follow symlinks */
+  /** How symbolic links in the source are handled; defaults to DEFAULT_SYMLINK_MODE */
+  symlinks?: SymlinkMode;
+  /** @deprecated Use `symlinks`; false skips links and true follows them */
   followSymlinks?: boolean;
   /** Custom headers for HTTP requests */
   headers?: Record<string, string>;
+  /** Commit or exact npm version to download instead of resolving the source's ref */
+  ref?: string;
 }
 
 export interface SourceParseResult {
@@ -46,6 +83,8 @@ export interface SourceParseResult {
   localDir: string;
   /** List of resource files */
   files: ResourceFile[];
+  /** Commit SHA or exact npm version the source's ref resolved to */
+  resolvedRef?: string;
   /** Metadata about the source */
   metadata: {
     downloadedAt: string;
@@ -60,37 +99,223 @@ export interface SourceParseResult {
 export class SourceParser {
   private cacheDir: string;
   private auditLogger: AuditLogger;
-
-  constructor(options: { cacheDir?: string; auditLogger?: AuditLogger } = {}) {
-    this.cacheDir = options.cacheDir || join(tmpdir(), 'coding-agent-fabric-cache');
+  private httpCache: HttpCache;
+  private npmConfig?: NpmConfig;
+  private credentials?: CredentialConfig;
+  private hosts?: GitHostMap;
+  private limits: ExtractLimits;
+  private offline: boolean;
+
+  constructor(
+    options: {
+      cacheDir?: string;
+      auditLogger?: AuditLogger;
+      offline?: boolean;
+      npmConfig?: NpmConfig;
+      credentials?: CredentialConfig;
+      hosts?: GitHostMap;
+      limits?: Partial<ExtractLimits>; // Overrides of DEFAULT_EXTRACT_LIMITS
+    } = {},
+  ) {
+    this.cacheDir = options.cacheDir || join(homedir(), CONFIG_DIR_NAME, SOURCE_CACHE_DIR_NAME);
     this.auditLogger = options.auditLogger || auditLogger;
+    // Without network access, downloads are served from the cache or fail
+    this.offline = options.offline ?? false;
+    this.httpCache = new HttpCache(this.cacheDir, { offline: this.offline });
+    this.npmConfig = options.npmConfig;
+    this.credentials = options.credentials;
+    this.hosts = options.hosts;
+    this.limits = { ...DEFAULT_EXTRACT_LIMITS, ...options.limits };
+    if (this.credentials) {
+      this.auditLogger.addSecrets(getCredentialSecrets(this.credentials));
+    }
   }
 
   /**
    * Parse and download a source
    */
   async parse(input: string, options: DownloadOptions = {}): Promise<SourceParseResult> {
-    const source = parseSource(input);
+    const source = parseSource(input, (this.hosts ??= loadGitHosts()));
+    if (source.subpath && !isSafeArchivePath(source.subpath)) {
+      throw new Error(`Invalid subpath "${source.subpath}": it must stay inside the source`);
+    }
 
     // Ensure cache directory exists
     await this.ensureDir(this.cacheDir);
 
-    switch (source.type) {
-      case 'github':
-        return this.parseGitHub(source, options);
-      case 'gitlab':
-        return this.parseGitLab(source, options);
-      case 'npm':
-        return this.parseNpm(source, options);
-      case 'local':
-        return this.parseLocal(source, options);
-      case 'http':
-        return this.parseHttp(source, options);
-      case 'registry':
-        return this.parseRegistry(source, options);
-      default:
-        throw new Error(`Unsupported source type: ${source.type}`);
+    try {
+      switch (source.type) {
+        case 'github':
+          return await this.parseGitHub(source, options);
+        case 'gitlab':
+          return await this.parseGitLab(source, options);
+        case 'bitbucket':
+          return await this.parseBitbucket(source, options);
+        case 'gitea':
+          return await this.parseGitea(source, options);
+        case 'git':
+          return await this.parseGit(source, options);
+        case 'npm':
+          return await this.parseNpm(source, options);
+        case 'local':
+          return await this.parseLocal(source, options);
+        case 'http':
+          return await this.parseHttp(source, options);
+        case 'registry':
+          return await this.parseRegistry(source, options);
+        default:
+          throw new Error(`Unsupported source type: ${source.type}`);
+      }
+    } catch (error) {
+      throw this.redactError(error);
+    }
+  }
+
+  /**
+   * Resolve the branch, tag or default branch of a git-hosted source to its current commit SHA,
+   * or the version range or dist-tag of an npm source to an exact version.
+   * Returns undefined for other sources.
+   */
+  async resolveRef(input: string, options: DownloadOptions = {}): Promise<string | undefined> {
+    const source = parseSource(input, (this.hosts ??= loadGitHosts()));
+    try {
+      switch (source.type) {
+        case 'github':
+        case 'gitlab':
+        case 'bitbucket':
+        case 'gitea':
+        case 'git':
+          return await this.resolveCommit(source, options);
+        case 'npm':
+          return (await this.resolveNpmPackage(source, options)).version;
+        default:
+          return undefined;
+      }
+    } catch (error) {
+      throw this.redactError(error);
+    }
+  }
+
+  /**
+   * Resolve the ref of a git-hosted source to a commit SHA
+   */
+  private async resolveCommit(source: ParsedSource, options: DownloadOptions): Promise<string> {
+    if (source.type !== 'git' && (!source.owner || !source.repo)) {
+      throw new Error(`Invalid ${source.type} source: missing owner or repo`);
+    }
+    if (source.ref && isCommitSha(source.ref)) {
+      return source.ref;
+    }
+
+    const ref = source.ref || 'HEAD';
+    const repoPath = `${source.owner}/${source.repo}`;
+
+    try {
+      let sha: string | undefined;
+      switch (source.type) {
+        case 'git':
+          if (this.offline) {
+            throw new Error(`Resolving ${ref} of ${source.url} needs network access`);
+          }
+          sha = await lsRemote(source.url, source.ref);
+          break;
+        case 'github':
+          // GitHub answers with the bare SHA instead of the full commit
+          sha = (
+            await this.fetchApi(
+              `${this.getApiBase(source)}/repos/${repoPath}/commits/${encodeURIComponent(ref)}`,
+              options,
+              { Accept: 'application/vnd.github.sha' },
+            )
+          ).trim();
+          break;
+        case 'gitlab':
+          sha = JSON.parse(
+            await this.fetchApi(
+              `${this.getApiBase(source)}/projects/${encodeURIComponent(repoPath)}` +
+                `/repository/commits/${encodeURIComponent(ref)}`,
+              options,
+            ),
+          ).id;
+          break;
+        case 'bitbucket': {
+          // Bitbucket has no symbolic HEAD, so the main branch is looked up first
+          const apiUrl = `${this.getApiBase(source)}/repositories/${repoPath}`;
+          const name: string | undefined =
+            source.ref || JSON.parse(await this.fetchApi(apiUrl, options)).mainbranch?.name;
+          if (!name) {
+            throw new Error(`${repoPath} has no main branch; pass a ref`);
+          }
+          sha = JSON.parse(
+            await this.fetchApi(`${apiUrl}/commit/${encodeURIComponent(name)}`, options),
+          ).hash;
+          break;
+        }
+        case 'gitea': {
+          // The newest commit of a branch or tag; the default branch without one
+          const query =
+            'limit=1&stat=false&verification=false&files=false' +
+            (source.ref ? `&sha=${encodeURIComponent(source.ref)}` : '');
+          const commits = JSON.parse(
+            await this.fetchApi(
+              `${this.getApiBase(source)}/repos/${repoPath}/commits?${query}`,
+              options,
+            ),
+          ) as { sha?: string }[];
+          sha = commits[0]?.sha;
+          break;
+        }
+      }
+
+      if (!sha || !isCommitSha(sha)) {
+        throw new Error(`Unexpected commit SHA for ref "${ref}"`);
+      }
+      return sha;
+    } catch (error) {
+      throw new Error(`Failed to resolve ${source.type} ref: ${error}`);
+    }
+  }
+
+  /**
+   * The commit to download: `options.ref` when it is a full SHA, otherwise the ref it names
+   * (or the source's own ref) resolved through the server. The commit ends up in download
+   * URLs and git arguments, so nothing else is used as is.
+   */
+  private async getPinnedCommit(source: ParsedSource, options: DownloadOptions): Promise<string> {
+    if (options.ref === undefined) {
+      return this.resolveCommit(source, options);
+    }
+    if (isCommitSha(options.ref)) {
+      return options.ref;
+    }
+    return this.resolveCommit({ ...source, ref: options.ref }, options);
+  }
+
+  /**
+   * Fetch an API response through the cache, so that unchanged responses are answered
+   * with 304 and offline installs can still use them
+   */
+  private fetchApi(
+    url: string,
+    options: DownloadOptions,
+    headers: Record<string, string> = {},
+  ): Promise<string> {
+    return this.httpCache.fetchText(url, {
+      ...headers,
+      ...this.getAuthHeaders(url),
+      ...options.headers,
+    });
+  }
+
+  /**
+   * API base URL of a git-hosted source; configured servers carry their own
+   */
+  private getApiBase(source: ParsedSource): string {
+    const apiBase = source.apiBase ?? DEFAULT_GIT_HOSTS[new URL(source.url).hostname]?.apiBase;
+    if (!apiBase) {
+      throw new Error(`No API known for ${source.url}`);
     }
+    return apiBase;
   }
 
   /**
@@ -100,32 +325,87 @@ export class SourceParser {
     source: ParsedSource,
     options: DownloadOptions,
   ): Promise<SourceParseResult> {
-    const { owner, repo, ref, subpath } = source;
+    return this.parseRepositoryArchive('GitHub', source, options, (commit) => ({
+      url: `${this.getApiBase(source)}/repos/${source.owner}/${source.repo}/tarball/${commit}`,
+      headers: { Accept: 'application/vnd.github.v3+json' },
+    }));
+  }
+
+  /**
+   * Parse a GitLab source
+   */
+  private async parseGitLab(
+    source: ParsedSource,
+    options: DownloadOptions,
+  ): Promise<SourceParseResult> {
+    const projectId = encodeURIComponent(`${source.owner}/${source.repo}`);
+    return this.parseRepositoryArchive('GitLab', source, options, (commit) => ({
+      url: `${this.getApiBase(source)}/projects/${projectId}/repository/archive.tar.gz?sha=${commit}`,
+    }));
+  }
+
+  /**
+   * Parse a Bitbucket Cloud source
+   */
+  private async parseBitbucket(
+    source: ParsedSource,
+    options: DownloadOptions,
+  ): Promise<SourceParseResult> {
+    return this.parseRepositoryArchive('Bitbucket', source, options, (commit) => ({
+      url: `${source.url}/get/${commit}.tar.gz`,
+    }));
+  }
+
+  /**
+   * Parse a Gitea or Forgejo source
+   */
+  private async parseGitea(
+    source: ParsedSource,
+    options: DownloadOptions,
+  ): Promise<SourceParseResult> {
+    return this.parseRepositoryArchive('Gitea', source, options, (commit) => ({
+      url: `${this.getApiBase(source)}/repos/${source.owner}/${source.repo}/archive/${commit}.tar.gz`,
+    }));
+  }
+
+  /**
+   * Download a repository hosted on a git server at a pinned commit from the server's archive API
+   */
+  private async parseRepositoryArchive(
+    providerName: string,
+    source: ParsedSource,
+    options: DownloadOptions,
+    getArchive: (commit: string) => { url: string; headers?: Record<string, string> },
+  ): Promise<SourceParseResult> {
+    const { owner, repo, subpath } = source;
     if (!owner || !repo) {
-      throw new Error('Invalid GitHub source: missing owner or repo');
+      throw new Error(`Invalid ${providerName} source: missing owner or repo`);
     }
 
-    // Create target directory
-    const targetDir =
-      options.targetDir || join(this.cacheDir, 'github', owner, repo, ref || 'main');
-    await this.ensureDir(targetDir);
+    try {
+      // Download a pinned commit so the cache entry never changes underneath the lock file
+      const commit = await this.getPinnedCommit(source, options);
 
-    // Use GitHub API to download the tree
-    const apiUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/tarball/${ref || 'main'}`;
+      // Create target directory
+      const targetDir =
+        options.targetDir || join(this.cacheDir, source.type, owner, repo, commit, subpath ?? '');
+      await this.ensureDir(targetDir);
 
-    try {
-      const files = await this.downloadAndExtractTarball(apiUrl, targetDir, subpath, {
+      const archive = getArchive(commit);
+      const files = await this.downloadAndExtractArchive(archive.url, targetDir, subpath, {
         headers: {
           'User-Agent': USER_AGENT,
-          Accept: 'application/vnd.github.v3+json',
+          ...archive.headers,
           ...options.headers,
         },
+        symlinks: this.getSymlinkMode(options),
       });
 
       return {
         source,
         localDir: targetDir,
         files,
+        resolvedRef: commit,
         metadata: {
           downloadedAt: getCurrentTimestamp(),
           size: await this.getDirectorySize(targetDir),
@@ -133,43 +413,60 @@ export class SourceParser {
         },
       };
     } catch (error) {
-      throw new Error(`Failed to download GitHub source: ${error}`);
+      throw new Error(`Failed to download ${providerName} source: ${error}`);
     }
   }
 
   /**
-   * Parse a GitLab source
+   * Fetch a repository with git itself, checking out only the requested subpath
    */
-  private async parseGitLab(
+  private async parseGit(
     source: ParsedSource,
     options: DownloadOptions,
   ): Promise<SourceParseResult> {
-    const { owner, repo, ref, subpath } = source;
-    if (!owner || !repo) {
-      throw new Error('Invalid GitLab source: missing owner or repo');
-    }
-
-    // Create target directory
-    const targetDir =
-      options.targetDir || join(this.cacheDir, 'gitlab', owner, repo, ref || 'main');
-    await this.ensureDir(targetDir);
-
-    // Use GitLab API to download the archive
-    const projectId = encodeURIComponent(`${owner}/${repo}`);
-    const apiUrl = `${GITLAB_API_BASE}/projects/${projectId}/repository/archive.tar.gz?sha=${ref || 'main'}`;
+    const { url, subpath } = source;
 
     try {
-      const files = await this.downloadAndExtractTarball(apiUrl, targetDir, subpath, {
-        headers: {
-          'User-Agent': USER_AGENT,
-          ...options.headers,
-        },
-      });
+      const commit = await this.getPinnedCommit(source, options);
+
+      // Repositories are stored by host and path, as in "git/host/org/repo/<commit>/<subpath>"
+      const repoPath = url
+        .replace(/^(?:[\w+]+:\/\/)?(?:[^@/]+@)?[^:/]+(?::\d+)?[:/]/, '')
+        .replace(/\.git$/, '');
+      const targetDir =
+        options.targetDir ||
+        join(this.cacheDir, 'git', source.host ?? 'unknown', repoPath, commit, subpath ?? '');
+
+      // A commit never changes, so an earlier fetch can be reused offline
+      if (this.offline) {
+        if (!existsSync(targetDir)) {
+          throw new Error(
+            `${url} at ${commit} is not in the cache; run without --offline to fetch it`,
+          );
+        }
+      } else {
+        const checkoutDir = await mkdtemp(join(tmpdir(), 'caf-git-'));
+        try {
+          await sparseFetch(url, checkoutDir, { commit, ref: source.ref, subpath });
+          const sourceDir = subpath ? join(checkoutDir, subpath) : checkoutDir;
+          if (!existsSync(sourceDir)) {
+            throw new Error(`Subpath "${subpath}" not found in repository`);
+          }
+          await this.copyTree(sourceDir, targetDir, {
+            symlinks: this.getSymlinkMode(options),
+            root: checkoutDir,
+          });
+        } finally {
+          await rm(checkoutDir, { recursive: true, force: true });
+        }
+      }
 
+      const files = await this.listFiles(targetDir, { symlinks: this.getSymlinkMode(options) });
       return {
         source,
         localDir: targetDir,
         files,
+        resolvedRef: commit,
         metadata: {
           downloadedAt: getCurrentTimestamp(),
           size: await this.getDirectorySize(targetDir),
@@ -177,7 +474,7 @@ export class SourceParser {
         },
       };
     } catch (error) {
-      throw new Error(`Failed to download GitLab source: ${error}`);
+      throw new Error(`Failed to fetch git source: ${error}`);
     }
   }
 
@@ -193,43 +490,28 @@ export class SourceParser {
       throw new Error('Invalid npm source: missing package name');
     }
 
-    // Create target directory
-    const targetDir = options.targetDir || join(this.cacheDir, 'npm', npmPackage);
-    await this.ensureDir(targetDir);
-
-    // Get package metadata from npm registry
-    const apiUrl = `${NPM_REGISTRY_URL}/${npmPackage}`;
-
     try {
-      const response = await retry(async () => {
-        const res = await fetch(apiUrl, {
-          headers: {
-            'User-Agent': USER_AGENT,
-            ...options.headers,
-          },
-        });
-        if (!res.ok) {
-          throw new Error(`npm registry returned ${res.status}: ${res.statusText}`);
-        }
-        return res.json();
-      }, RETRY_CONFIG);
-
-      // Download the tarball
-      const latestVersion = response['dist-tags']?.latest;
-      const tarballUrl = response.versions?.[latestVersion]?.dist?.tarball;
-
-      if (!tarballUrl) {
-        throw new Error('Failed to get tarball URL from npm registry');
+      const { version, dist } = await this.resolveNpmPackage(source, options);
+      if (!dist?.tarball) {
+        throw new Error(`Failed to get tarball URL for ${npmPackage}@${version} from npm registry`);
       }
 
-      const files = await this.downloadAndExtractTarball(tarballUrl, targetDir, undefined, {
-        headers: options.headers,
+      // Create target directory
+      const targetDir =
+        options.targetDir || join(this.cacheDir, 'npm', npmPackage, version, source.subpath ?? '');
+      await this.ensureDir(targetDir);
+
+      const files = await this.downloadAndExtractArchive(dist.tarball, targetDir, source.subpath, {
+        headers: { ...this.getNpmAuthHeaders(dist.tarball), ...options.headers },
+        integrity: dist,
+        symlinks: this.getSymlinkMode(options),
       });
 
       return {
         source,
         localDir: targetDir,
         files,
+        resolvedRef: version,
         metadata: {
           downloadedAt: getCurrentTimestamp(),
           size: await this.getDirectorySize(targetDir),
@@ -241,25 +523,81 @@ export class SourceParser {
     }
   }
 
+  /**
+   * Look up the version of an npm package that a source's specifier (or a pinned version) selects
+   */
+  private async resolveNpmPackage(
+    source: ParsedSource,
+    options: DownloadOptions,
+  ): Promise<{ version: string; dist?: NpmDist }> {
+    const npmConfig = (this.npmConfig ??= loadNpmConfig());
+    const packumentUrl = getPackumentUrl(npmConfig, source.npmPackage!);
+    const packument = JSON.parse(
+      await this.httpCache.fetchText(packumentUrl, {
+        // The abbreviated packument lists every version's dist without the READMEs
+        Accept: 'application/vnd.npm.install-v1+json',
+        ...this.getNpmAuthHeaders(packumentUrl),
+        ...options.headers,
+      }),
+    ) as NpmPackument;
+
+    const version = resolveNpmVersion(packument, options.ref ?? source.ref);
+    return { version, dist: packument.versions?.[version]?.dist };
+  }
+
+  private getNpmAuthHeaders(url: string): Record<string, string> {
+    return getNpmAuthHeaders((this.npmConfig ??= loadNpmConfig()), url);
+  }
+
+  /**
+   * Credentials for a URL's host. Loading them also registers the secrets with the
+   * audit logger so they never end up in audit records.
+   */
+  private getAuthHeaders(url: string): Record<string, string> {
+    if (!this.credentials) {
+      this.credentials = loadCredentials();
+      this.auditLogger.addSecrets(getCredentialSecrets(this.credentials));
+    }
+    return getAuthHeaders(this.credentials, url);
+  }
+
+  /**
+   * Strip credentials from an error before it leaves the parser
+   */
+  private redactError(error: unknown): Error {
+    const secrets = [
+      ...(this.credentials ? getCredentialSecrets(this.credentials) : []),
+      ...Object.values(this.npmConfig?.authTokens ?? {}),
+    ];
+    const message = error instanceof Error ? error.message : String(error);
+    const redacted = redactSecrets(message, secrets);
+    return redacted === message && error instanceof Error ? error : new Error(redacted);
+  }
+
   /**
    * Parse a local source
    */
   private async parseLocal(
     source: ParsedSource,
-    _options: DownloadOptions,
+    options: DownloadOptions,
   ): Promise<SourceParseResult> {
     const { localPath } = source;
     if (!localPath) {
       throw new Error('Invalid local source: missing path');
     }
 
-    const resolvedPath = resolve(normalizePath(localPath));
+    const rootPath = resolve(normalizePath(localPath));
+    const resolvedPath = join(rootPath, source.subpath ?? '');
 
     if (!existsSync(resolvedPath)) {
       throw new Error(`Local path does not exist: ${resolvedPath}`);
     }
 
-    const files = await this.listFiles(resolvedPath);
+    // Links may point anywhere in the source, not just under the subpath
+    const files = await this.listFiles(resolvedPath, {
+      symlinks: this.getSymlinkMode(options),
+      root: rootPath,
+    });
 
     return {
       source,
@@ -282,16 +620,18 @@ export class SourceParser {
   ): Promise<SourceParseResult> {
     const { url } = source;
 
-    // Create target directory
-    const targetDir = options.targetDir || join(this.cacheDir, 'http', basename(url));
+    // Create target directory; different URLs may end in the same file name
+    const targetDir =
+      options.targetDir || join(this.cacheDir, 'http', sha256(url), source.subpath ?? '');
     await this.ensureDir(targetDir);
 
     try {
-      const files = await this.downloadAndExtractTarball(url, targetDir, undefined, {
+      const files = await this.downloadAndExtractArchive(url, targetDir, source.subpath, {
         headers: {
           'User-Agent': USER_AGENT,
           ...options.headers,
         },
+        symlinks: this.getSymlinkMode(options),
       });
 
       return {
@@ -316,31 +656,27 @@ export class SourceParser {
     source: ParsedSource,
     options: DownloadOptions,
   ): Promise<SourceParseResult> {
-    const { registryId } = source;
+    const { registryId, ref, subpath } = source;
     if (!registryId) {
       throw new Error('Invalid registry source: missing registry ID');
     }
+    // IDs come from registry responses and become part of the cache path
+    if (!isRegistryId(registryId)) {
+      throw new Error(`Invalid registry ID: ${registryId}`);
+    }
 
-    // Create target directory
-    const targetDir = options.targetDir || join(this.cacheDir, 'registry', registryId);
-    await this.ensureDir(targetDir);
-
-    // Fetch resource metadata from registry
-    const apiUrl = `${DEFAULT_REGISTRY_URL}/resources/${registryId}`;
+    // Fetch resource metadata from registry, for a specific version when one is given
+    const apiUrl =
+      `${DEFAULT_REGISTRY_URL}/resources/${registryId}` +
+      (ref ? `?version=${encodeURIComponent(ref)}` : '');
 
     try {
-      const response = await retry(async () => {
-        const res = await fetch(apiUrl, {
-          headers: {
-            'User-Agent': USER_AGENT,
-            ...options.headers,
-          },
-        });
-        if (!res.ok) {
-          throw new Error(`Registry returned ${res.status}: ${res.statusText}`);
-        }
-        return res.json();
-      }, RETRY_CONFIG);
+      const response = JSON.parse(
+        await this.httpCache.fetchText(apiUrl, {
+          ...this.getAuthHeaders(apiUrl),
+          ...options.headers,
+        }),
+      );
 
       // Download the resource using the download URL from registry
       const downloadUrl = response.downloadUrl;
@@ -348,8 +684,15 @@ export class SourceParser {
         throw new Error('Registry response missing downloadUrl');
       }
 
-      const files = await this.downloadAndExtractTarball(downloadUrl, targetDir, undefined, {
+      // Create target directory, keyed by the download so that versions never share one
+      const targetDir =
+        options.targetDir ||
+        join(this.cacheDir, 'registry', registryId, sha256(downloadUrl), subpath ?? '');
+      await this.ensureDir(targetDir);
+
+      const files = await this.downloadAndExtractArchive(downloadUrl, targetDir, subpath, {
         headers: options.headers,
+        symlinks: this.getSymlinkMode(options),
       });
 
       return {
@@ -368,140 +711,146 @@ export class SourceParser {
   }
 
   /**
-   * Download and extract a tarball
+   * Download an archive through the cache and copy its contents into the target directory
    */
-  private async downloadAndExtractTarball(
+  private async downloadAndExtractArchive(
     url: string,
     targetDir: string,
     subpath?: string,
-    options?: { headers?: Record<string, string> },
+    options?: { headers?: Record<string, string>; integrity?: NpmDist; symlinks?: SymlinkMode },
   ): Promise<ResourceFile[]> {
-    const response = await retry(async () => {
-      const res = await fetch(url, {
-        headers: {
-          'User-Agent': USER_AGENT,
-          ...options?.headers,
+    let treeDir: string;
+    try {
+      // Check published hashes as the download is written, before anything is extracted
+      const integrity =
+        options?.integrity &&
+        createIntegrityCheck(options.integrity.integrity, options.integrity.shasum);
+      const { entry, path } = await this.httpCache.fetch(
+        url,
+        { ...this.getAuthHeaders(url), ...options?.headers },
+        {
+          maxBytes: this.limits.maxTotalBytes,
+          onData: integrity ? (chunk) => integrity.update(chunk) : undefined,
         },
-      });
+      );
 
-      if (!res.ok) {
-        throw new Error(`Failed to download tarball from ${url}: ${res.statusText}`);
+      if (integrity) {
+        const verified = integrity.verify();
+        if (!verified) {
+          this.auditLogger.warning('source-parser-integrity-missing', url, 'source-parser');
+        }
+      }
+      treeDir = await this.extractTree(entry, path);
+    } catch (error) {
+      if (error instanceof ExtractLimitError) {
+        this.auditLogger.warning('source-parser-limit-exceeded', url, 'source-parser', {
+          limit: error.limit,
+          max: error.max,
+          error: error.message,
+        });
       }
-      return res;
-    }, RETRY_CONFIG);
+      throw error;
+    }
+    const rootDir = await findArchiveRoot(treeDir);
 
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    const sourceDir = subpath ? join(rootDir, subpath) : rootDir;
+    if (!existsSync(sourceDir)) {
+      throw new Error(`Subpath "${subpath}" not found in archive`);
+    }
 
-    // Create a temporary directory for extraction
-    const tempExtractDir = join(tmpdir(), `caf-extract-${Date.now()}`);
-    await this.ensureDir(tempExtractDir);
+    return this.copyTree(sourceDir, targetDir, { symlinks: options?.symlinks, root: rootDir });
+  }
 
-    try {
-      // Extract the tarball
-      await new Promise((resolve, reject) => {
-        const stream = Readable.from(buffer);
-        stream
-          .pipe(
-            tar.x({
-              cwd: tempExtractDir,
-              filter: (path) => {
-                // Prevent path traversal by ensuring no ".." parts
-                const isTraversal = path.split(/[\\/]/).some((part) => part === '..');
-                // Also prevent absolute paths (though tar.x usually handles this)
-                const isAbsolute = path.startsWith('/') || /^[A-Z]:\\/i.test(path);
-                return !isTraversal && !isAbsolute;
-              },
-            }),
-          )
-          .on('finish', resolve)
-          .on('error', reject);
-      });
+  /**
+   * Copy a directory into the target directory, replacing what a previous download left there.
+   * Followed links are copied as the files they point to.
+   */
+  private async copyTree(
+    sourceDir: string,
+    targetDir: string,
+    options: { symlinks?: SymlinkMode; root?: string },
+  ): Promise<ResourceFile[]> {
+    // List files from the source directory
+    const files = await this.listFiles(sourceDir, options);
 
-      // Find the actual content directory (usually the first subdirectory in the tarball)
-      const entries = await readdir(tempExtractDir, { withFileTypes: true });
-      const topLevelDir = entries.find((e) => e.isDirectory());
+    // Replace a previous download so files removed upstream do not linger in the cache
+    if (isPathInside(targetDir, this.cacheDir)) {
+      await rm(targetDir, { recursive: true, force: true });
+      await this.ensureDir(targetDir);
+    }
 
-      if (!topLevelDir) {
-        throw new Error('Tarball is empty or invalid (no top-level directory found)');
+    // Copy files to target directory
+    for (const file of files) {
+      try {
+        const targetPath = safeJoin(targetDir, file.path);
+        await this.ensureDir(dirname(targetPath));
+        await writeResourceFile(targetPath, file);
+      } catch (error) {
+        this.auditLogger.warning('source-parser-file-security-skip', file.path, 'source-parser', {
+          error: (error as Error).message,
+          targetDir,
+        });
       }
+    }
 
-      const sourceDir = subpath
-        ? join(tempExtractDir, topLevelDir.name, subpath)
-        : join(tempExtractDir, topLevelDir.name);
+    return files;
+  }
 
-      if (!existsSync(sourceDir)) {
-        throw new Error(`Subpath "${subpath}" not found in tarball`);
-      }
+  /**
+   * Extract a cached archive once; trees are keyed by the archive's content hash
+   */
+  private async extractTree(entry: HttpCacheEntry, archivePath: string): Promise<string> {
+    const treeDir = join(this.cacheDir, 'trees', entry.contentHash);
+    if (existsSync(treeDir)) {
+      return treeDir;
+    }
 
-      // List files from the source directory
-      const files = await this.listFiles(sourceDir);
+    const format = detectArchiveFormat({
+      contentType: entry.contentType,
+      url: entry.url,
+      header: await readArchiveHeader(archivePath),
+    });
 
-      // Copy files to target directory
-      for (const file of files) {
-        try {
-          const targetPath = safeJoin(targetDir, file.path);
-          await this.ensureDir(dirname(targetPath));
-          if (file.content !== undefined) {
-            await writeFile(targetPath, file.content, { mode: file.mode });
-          }
-        } catch (error) {
-          this.auditLogger.warning('source-parser-file-security-skip', file.path, 'source-parser', {
-            error: (error as Error).message,
-            targetDir,
-          });
-        }
-      }
+    // Extract next to the final location and rename, so a tree is either complete or absent
+    const tempExtractDir = `${treeDir}.${process.pid}.tmp`;
+    await rm(tempExtractDir, { recursive: true, force: true });
+    await this.ensureDir(tempExtractDir);
 
-      return files;
-    } finally {
-      // Clean up temp directory
+    try {
+      await extractArchive(archivePath, format, tempExtractDir, this.limits);
+      await rename(tempExtractDir, treeDir);
+    } catch (error) {
       await rm(tempExtractDir, { recursive: true, force: true });
+      // Another process may have extracted the same archive first
+      if (!existsSync(treeDir)) {
+        throw error;
+      }
     }
+    return treeDir;
   }
 
   /**
-   * List all files in a directory recursively
+   * List all files in a directory recursively; links pointing outside `options.root` are skipped
    */
-  private async listFiles(dir: string, baseDir?: string): Promise<ResourceFile[]> {
-    const base = baseDir || dir;
-    const files: ResourceFile[] = [];
-
-    const entries = await readdir(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-      const relativePath = relative(base, fullPath);
-
-      // Prevent Zip Slip by ensuring the relative path doesn't go outside the base directory
-      if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
-        this.auditLogger.warning('source-parser-zip-slip-attempt', relativePath, 'source-parser', {
-          baseDir: base,
-          fullPath,
-        });
-        continue;
-      }
-
-      // Skip excluded patterns
-      if (this.shouldExclude(relativePath)) {
-        continue;
-      }
+  private async listFiles(
+    dir: string,
+    options: { symlinks?: SymlinkMode; root?: string } = {},
+  ): Promise<ResourceFile[]> {
+    return collectResourceFiles(dir, {
+      ...options,
+      exclude: (name) => this.shouldExclude(name),
+      auditLogger: this.auditLogger,
+    });
+  }
 
-      if (entry.isDirectory()) {
-        const subFiles = await this.listFiles(fullPath, base);
-        files.push(...subFiles);
-      } else if (entry.isFile()) {
-        const content = await readFile(fullPath, 'utf-8');
-        const stats = await stat(fullPath);
-        files.push({
-          path: relativePath,
-          content,
-          mode: stats.mode,
-        });
-      }
+  /**
+   * The symbolic link handling requested by download options
+   */
+  private getSymlinkMode(options: DownloadOptions): SymlinkMode | undefined {
+    if (options.symlinks) {
+      return options.symlinks;
     }
-
-    return files;
+    return options.followSymlinks === false ? 'skip' : undefined;
   }
 
   /**
@@ -572,6 +921,27 @@ export class SourceParser {
     }
   }
 
+  /**
+   * List the downloads kept in the cache, most recent first
+   */
+  async listCache(): Promise<HttpCacheEntry[]> {
+    return this.httpCache.list();
+  }
+
+  /**
+   * Check every cached download against its recorded digest
+   */
+  async verifyCache(): Promise<HttpCacheVerification[]> {
+    return this.httpCache.verify();
+  }
+
+  /**
+   * Directory the cache is stored in
+   */
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
   /**
    * Clear the cache directory
    */
@@ -0,0 +1,110 @@
+/**
+ * Tests for walking sources with symbolic links
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, rm, symlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { AuditLogger } from './audit-logger.js';
+import { walkFiles } from './source-walker.js';
+
+describe('walkFiles', () => {
+  let testDir: string;
+  let sourceDir: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `source-walker-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    );
+    // A monorepo whose packs link to shared skills
+    sourceDir = join(testDir, 'source');
+    await mkdir(join(sourceDir, 'shared', 'review'), { recursive: true });
+    await mkdir(join(sourceDir, 'pack', 'skills'), { recursive: true });
+    await writeFile(join(sourceDir, 'shared', 'review', 'SKILL.md'), '# Review');
+    await writeFile(join(sourceDir, 'pack', 'skills', 'local.md'), '# Local');
+    await symlink('../../shared/review', join(sourceDir, 'pack', 'skills', 'review'));
+    await symlink('local.md', join(sourceDir, 'pack', 'skills', 'alias.md'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const paths = async (...args: Parameters<typeof walkFiles>) =>
+    (await walkFiles(...args)).map((file) => file.path).sort();
+
+  it('follows links inside the root by default', async () => {
+    expect(await paths(join(sourceDir, 'pack'), { root: sourceDir })).toEqual([
+      join('skills', 'alias.md'),
+      join('skills', 'local.md'),
+      join('skills', 'review', 'SKILL.md'),
+    ]);
+  });
+
+  it('skips links in skip mode', async () => {
+    expect(await paths(join(sourceDir, 'pack'), { symlinks: 'skip' })).toEqual([
+      join('skills', 'local.md'),
+    ]);
+  });
+
+  it('keeps links inside the walked directory in preserve mode', async () => {
+    const files = await walkFiles(join(sourceDir, 'pack'), {
+      symlinks: 'preserve',
+      root: sourceDir,
+    });
+
+    expect(files.find((file) => file.path === join('skills', 'alias.md'))?.linkTarget).toBe(
+      'local.md',
+    );
+    // The shared skill is outside the pack, so it is copied rather than linked
+    expect(files.find((file) => file.path === join('skills', 'review', 'SKILL.md'))).toBeDefined();
+  });
+
+  it('skips links that escape the root or are broken with a warning', async () => {
+    const auditLogger = new AuditLogger({ enabled: false });
+    const warning = vi.spyOn(auditLogger, 'warning');
+
+    expect(await paths(join(sourceDir, 'pack'), { auditLogger })).toEqual([
+      join('skills', 'alias.md'),
+      join('skills', 'local.md'),
+    ]);
+    expect(warning).toHaveBeenCalledWith(
+      'source-walker-link-outside-root',
+      join(sourceDir, 'pack', 'skills', 'review'),
+      'source-walker',
+      expect.anything(),
+    );
+
+    warning.mockClear();
+    await symlink('missing.md', join(sourceDir, 'shared', 'broken.md'));
+    expect(await paths(join(sourceDir, 'shared'), { auditLogger })).toEqual([
+      join('review', 'SKILL.md'),
+    ]);
+    expect(warning.mock.calls.map(([action]) => action)).toEqual(['source-walker-link-broken']);
+  });
+
+  it('keeps walking past an unrelated link out of the source', async () => {
+    await writeFile(join(testDir, 'hosts'), '127.0.0.1 localhost');
+    await symlink(join(testDir, 'hosts'), join(sourceDir, 'link'));
+
+    const files = await paths(sourceDir, { auditLogger: new AuditLogger({ enabled: false }) });
+    expect(files).toContain(join('shared', 'review', 'SKILL.md'));
+    expect(files).not.toContain('link');
+  });
+
+  it('stops at links to a directory containing them', async () => {
+    await symlink('..', join(sourceDir, 'shared', 'review', 'parent'));
+    await symlink('loop-b', join(sourceDir, 'loop-a'));
+    await symlink('loop-a', join(sourceDir, 'loop-b'));
+
+    const auditLogger = new AuditLogger({ enabled: false });
+    expect(await paths(join(sourceDir, 'shared'), { auditLogger })).toEqual([
+      join('review', 'SKILL.md'),
+    ]);
+    expect(await paths(sourceDir, { auditLogger })).toContain(
+      join('pack', 'skills', 'review', 'SKILL.md'),
+    );
+  });
+});
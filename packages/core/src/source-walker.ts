@@ -0,0 +1,115 @@
+/**
+ * Walking source directories, with configurable handling of symbolic links
+ */
+
+import { readdir, readlink, realpath, stat } from 'node:fs/promises';
+import { dirname, join, relative, resolve } from 'node:path';
+import { DEFAULT_SYMLINK_MODE, isPathInside, type SymlinkMode } from '@coding-agent-fabric/common';
+import { auditLogger, AuditLogger } from './audit-logger.js';
+
+/**
+ * Options for walking a directory
+ */
+export interface WalkOptions {
+  symlinks?: SymlinkMode; // Defaults to DEFAULT_SYMLINK_MODE
+  root?: string; // Links may not point outside this directory; defaults to the walked one
+  exclude?: (name: string) => boolean; // Entries to leave out, by file or directory name
+  auditLogger?: AuditLogger; // Records the links that are skipped
+}
+
+/**
+ * A file found by walkFiles()
+ */
+export interface WalkedFile {
+  fullPath: string; // Where to read the file, possibly through links
+  path: string; // Relative to the walked directory
+  linkTarget?: string; // Set for links kept as links in preserve mode
+}
+
+/**
+ * List the files under a directory.
+ * Followed links to directories are walked like directories, except for links to a directory
+ * that contains them, which would never end. Broken links and links pointing outside the root
+ * are skipped with an audit warning, so that one stray link does not fail the whole source.
+ */
+export async function walkFiles(dir: string, options: WalkOptions = {}): Promise<WalkedFile[]> {
+  const mode = options.symlinks ?? DEFAULT_SYMLINK_MODE;
+  const walkedDir = await realpath(dir);
+  const root = options.root ? await realpath(options.root) : walkedDir;
+  if (walkedDir !== root && !isPathInside(walkedDir, root)) {
+    throw new Error(`${dir} is outside ${root}`);
+  }
+  const logger = options.auditLogger ?? auditLogger;
+  const files: WalkedFile[] = [];
+
+  // `ancestors` holds the real paths of the directories being walked, to detect loops
+  const walk = async (current: string, currentPath: string, ancestors: string[]) => {
+    for (const entry of await readdir(current, { withFileTypes: true })) {
+      if (options.exclude?.(entry.name)) {
+        continue;
+      }
+      const fullPath = join(current, entry.name);
+      const path = join(currentPath, entry.name);
+
+      if (entry.isSymbolicLink()) {
+        if (mode === 'skip') {
+          continue;
+        }
+        const target = await resolveLink(fullPath, root, logger);
+        if (!target) {
+          continue;
+        }
+        if (mode === 'preserve' && isPathInside(target, walkedDir)) {
+          files.push({
+            fullPath,
+            path,
+            linkTarget: relative(join(walkedDir, currentPath), target),
+          });
+        } else if ((await stat(target)).isDirectory()) {
+          if (!ancestors.includes(target)) {
+            await walk(fullPath, path, [...ancestors, target]);
+          }
+        } else {
+          files.push({ fullPath, path });
+        }
+      } else if (entry.isDirectory()) {
+        await walk(fullPath, path, [...ancestors, await realpath(fullPath)]);
+      } else if (entry.isFile()) {
+        files.push({ fullPath, path });
+      }
+    }
+  };
+
+  await walk(dir, '', [walkedDir]);
+  return files;
+}
+
+/**
+ * The real path a link points to, or undefined when it is broken, part of a cycle of links or
+ * points outside the root
+ */
+async function resolveLink(
+  linkPath: string,
+  root: string,
+  logger: AuditLogger,
+): Promise<string | undefined> {
+  let target: string | undefined;
+  try {
+    target = await realpath(linkPath);
+  } catch {
+    target = undefined;
+  }
+
+  const checked = target ?? resolve(await realpath(dirname(linkPath)), await readlink(linkPath));
+  if (checked !== root && !isPathInside(checked, root)) {
+    logger.warning('source-walker-link-outside-root', linkPath, 'source-walker', {
+      target: checked,
+      root,
+    });
+    return undefined;
+  }
+  if (!target) {
+    logger.warning('source-walker-link-broken', linkPath, 'source-walker', { target: checked });
+  }
+  return target;
+}
@@ -134,6 +134,32 @@ instructions: YAML instructions
       expect(resources[0].files.map((f) => f.path)).toContain('subagent.json');
       expect(resources[0].files.map((f) => f.path)).toContain(join('tools', 'custom-tool.js'));
     });
+
+    it('should only discover the subagents listed in fabric.json', async () => {
+      const sourceDir = join(testDir, 'manifest-subagents');
+      await mkdir(join(sourceDir, 'agents', 'reviewer'), { recursive: true });
+      await mkdir(join(sourceDir, 'examples', 'sample'), { recursive: true });
+      await writeFile(
+        join(sourceDir, 'agents', 'reviewer', 'subagent.json'),
+        JSON.stringify({ name: 'reviewer', description: 'Reviews code' }),
+      );
+      await writeFile(
+        join(sourceDir, 'examples', 'sample', 'subagent.json'),
+        JSON.stringify({ name: 'sample' }),
+      );
+      await writeFile(
+        join(sourceDir, 'fabric.json'),
+        JSON.stringify({
+          subagents: [{ path: 'agents/reviewer/subagent.json', name: 'renamed', version: '3.0.0' }],
+        }),
+      );
+
+      const resources = await handler.discoverFromPath(sourceDir);
+
+      expect(resources).toHaveLength(1);
+      expect(resources[0].name).toBe('reviewer');
+      expect(resources[0].version).toBe('3.0.0');
+    });
   });
 
   describe('validate', () => {
@@ -2,9 +2,9 @@
  * SubagentsHandler - Manages subagent resources
  */
 
-import { readFile, writeFile, mkdir, readdir, stat, unlink, rm } from 'node:fs/promises';
+import { readFile, writeFile, mkdir, readdir, unlink, rm } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
-import { join, basename, dirname, extname, relative } from 'node:path';
+import { join, basename, dirname, extname } from 'node:path';
 import type {
   AgentType,
   Resource,
@@ -26,10 +26,16 @@ import {
   sanitizeFileName,
   safeJoin,
   isExcludedName,
+  hashResourceFiles,
+  readSourceManifest,
+  SOURCE_MANIFEST_FILE_NAME,
+  type SourceManifestEntry,
 } from '@coding-agent-fabric/common';
 import { ResourceHandler } from '@coding-agent-fabric/plugin-api';
 import { AgentRegistry } from './agent-registry.js';
 import { auditLogger, AuditLogger } from './audit-logger.js';
+import { collectResourceFiles, writeResourceFile } from './resource-files.js';
+import { walkFiles } from './source-walker.js';
 
 export interface SubagentsHandlerOptions {
   agentRegistry: AgentRegistry;
@@ -103,47 +109,81 @@ export class SubagentsHandler implements ResourceHandler {
   }
 
   /**
-   * Discover subagents from a local directory path
+   * Discover subagents from a local directory path: those listed in its fabric.json manifest,
+   * or else every subagent config file and every .md file in an "agents" directory
    */
-  async discoverFromPath(localPath: string, _options?: DiscoverOptions): Promise<Resource[]> {
+  async discoverFromPath(localPath: string, options?: DiscoverOptions): Promise<Resource[]> {
+    const manifest = await readSourceManifest(localPath);
+    if (manifest) {
+      const resources: Resource[] = [];
+      for (const entry of manifest.subagents ?? []) {
+        const configPath = safeJoin(localPath, entry.path);
+        if (!existsSync(configPath)) {
+          throw new Error(
+            `Subagent "${entry.path}" in ${SOURCE_MANIFEST_FILE_NAME} does not exist`,
+          );
+        }
+        const resource = await this.createSubagentResource(localPath, configPath, options, entry);
+        resource.version ??= manifest.version;
+        resources.push(resource);
+      }
+      return resources;
+    }
+
     const resources: Resource[] = [];
 
     // Find all subagent config files
-    const configFiles = await this.findSubagentFiles(localPath);
+    const configFiles = await this.findSubagentFiles(localPath, options);
 
     for (const configPath of configFiles) {
-      const configDir = dirname(configPath);
-      const ext = extname(configPath);
-      const format =
-        ext === '.json'
-          ? 'coding-agent-fabric-json'
-          : ext === '.md'
-            ? 'markdown-frontmatter'
-            : 'claude-code-yaml';
-
-      // Parse subagent config
-      const config = await this.parseSubagentConfig(configPath, format);
-
-      // Collect all files in the subagent directory
-      const files = await this.collectSubagentFiles(configDir);
-
-      resources.push({
-        type: this.type,
-        name: config.name,
-        version: config.version,
-        description: config.description || '',
-        metadata: {
-          model: config.model,
-          format,
-          configHash: this.generateConfigHash(config),
-        },
-        files,
-      });
+      resources.push(await this.createSubagentResource(localPath, configPath, options));
     }
 
     return resources;
   }
 
+  /**
+   * Build the resource for one subagent config file; manifest entries override its version
+   * and description
+   */
+  private async createSubagentResource(
+    localPath: string,
+    configPath: string,
+    options?: DiscoverOptions,
+    entry?: SourceManifestEntry,
+  ): Promise<Resource> {
+    const configDir = dirname(configPath);
+    const ext = extname(configPath);
+    const format =
+      ext === '.json'
+        ? 'coding-agent-fabric-json'
+        : ext === '.md'
+          ? 'markdown-frontmatter'
+          : 'claude-code-yaml';
+
+    // Parse subagent config
+    const config = await this.parseSubagentConfig(configPath, format);
+
+    // Collect all files in the subagent directory; links may point anywhere in the source
+    const files = await this.collectSubagentFiles(configDir, localPath, options);
+
+    // Agents know a subagent by the name in its config, so a manifest cannot rename it
+    return {
+      type: this.type,
+      name: config.name,
+      version: entry?.version ?? config.version,
+      description: entry?.description || config.description || '',
+      metadata: {
+        model: config.model,
+        format,
+        agents: entry?.agents,
+        configHash: hashResourceFiles(files),
+      },
+      files,
+      dependencies: entry?.dependencies,
+    };
+  }
+
   /**
    * Install a subagent to target agents
    */
@@ -173,8 +213,7 @@ export class SubagentsHandler implements ResourceHandler {
 
       // Determine target format and main config path
       const targetFormat = this.getTargetFormat(target.agent);
-      const targetFileName = this.getTargetFileName(resource.name, targetFormat);
-      const mainConfigTargetPath = safeJoin(installPath, targetFileName);
+      const mainConfigTargetPath = this.getTargetPath(resource.name, target.agent, target.scope);
 
       // Check if already exists
       if (existsSync(mainConfigTargetPath) && !options.force) {
@@ -195,11 +234,9 @@ export class SubagentsHandler implements ResourceHandler {
           const sourceFormat = (resource.metadata.format as string) || 'coding-agent-fabric-json';
           const configContent = await this.convertFormat(resource, sourceFormat, targetFormat);
           await writeFile(mainConfigTargetPath, configContent, 'utf-8');
-        } else if (file.content !== undefined) {
+        } else {
           // Copy other files as-is into the subdirectory
-          const targetFilePath = safeJoin(subagentInstallDir, file.path);
-          await mkdir(dirname(targetFilePath), { recursive: true });
-          await writeFile(targetFilePath, file.content, { mode: file.mode });
+          await writeResourceFile(safeJoin(subagentInstallDir, file.path), file);
         }
       }
 
@@ -445,40 +482,36 @@ export class SubagentsHandler implements ResourceHandler {
   }
 
   /**
-   * Recursively find all subagent config files
+   * Get the installed location of a subagent's main config file for an agent
    */
-  private async findSubagentFiles(dir: string): Promise<string[]> {
-    const configFiles: string[] = [];
+  getTargetPath(name: string, agent: AgentType, scope: Scope): string {
+    const targetFileName = this.getTargetFileName(name, this.getTargetFormat(agent));
+    return safeJoin(this.getInstallPath(agent, scope), targetFileName);
+  }
 
+  /**
+   * Recursively find all subagent config files
+   */
+  private async findSubagentFiles(dir: string, options?: DiscoverOptions): Promise<string[]> {
     if (!existsSync(dir)) {
-      return configFiles;
+      return [];
     }
 
-    const entries = await readdir(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-
-      // Skip excluded patterns
-      if (isExcludedName(entry.name, EXCLUDE_PATTERNS)) {
-        continue;
-      }
-
-      if (entry.isDirectory()) {
-        // Recurse into subdirectory
-        const subFiles = await this.findSubagentFiles(fullPath);
-        configFiles.push(...subFiles);
-      } else if (entry.isFile()) {
-        const isSubagentFile =
-          SUBAGENT_FILE_NAMES.includes(entry.name) ||
-          (entry.name.endsWith('.md') && (dir.endsWith('agents') || dir.endsWith('subagents')));
-        if (isSubagentFile) {
-          configFiles.push(fullPath);
-        }
-      }
-    }
-
-    return configFiles;
+    const files = await walkFiles(dir, {
+      symlinks: options?.symlinks,
+      exclude: (name) => isExcludedName(name, EXCLUDE_PATTERNS),
+      auditLogger: this.auditLogger,
+    });
+    return files
+      .filter((file) => {
+        const name = basename(file.path);
+        const parent = dirname(file.fullPath);
+        return (
+          SUBAGENT_FILE_NAMES.includes(name) ||
+          (name.endsWith('.md') && (parent.endsWith('agents') || parent.endsWith('subagents')))
+        );
+      })
+      .map((file) => file.fullPath);
   }
 
   /**
@@ -597,54 +630,21 @@ export class SubagentsHandler implements ResourceHandler {
   /**
    * Collect all files in a subagent directory
    */
-  private async collectSubagentFiles(dir: string, baseDir: string = dir): Promise<ResourceFile[]> {
-    const files: ResourceFile[] = [];
-
+  private async collectSubagentFiles(
+    dir: string,
+    root: string,
+    options?: DiscoverOptions,
+  ): Promise<ResourceFile[]> {
     if (!existsSync(dir)) {
-      return files;
-    }
-
-    const entries = await readdir(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-
-      // Skip excluded patterns
-      if (isExcludedName(entry.name, EXCLUDE_PATTERNS)) {
-        continue;
-      }
-
-      if (entry.isDirectory()) {
-        const subFiles = await this.collectSubagentFiles(fullPath, baseDir);
-        files.push(...subFiles);
-      } else if (entry.isFile()) {
-        const content = await readFile(fullPath, 'utf-8');
-        const stats = await stat(fullPath);
-
-        files.push({
-          path: relative(baseDir, fullPath),
-          content,
-          mode: stats.mode,
-        });
-      }
+      return [];
     }
 
-    return files;
-  }
-
-  /**
-   * Generate config hash for update detection
-   */
-  private generateConfigHash(config: SubagentConfig): string {
-    // Simple hash implementation - in production use a crypto library
-    const str = JSON.stringify(config);
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(16);
+    return collectResourceFiles(dir, {
+      symlinks: options?.symlinks,
+      root,
+      exclude: (name) => isExcludedName(name, EXCLUDE_PATTERNS),
+      auditLogger: this.auditLogger,
+    });
   }
 
   /**
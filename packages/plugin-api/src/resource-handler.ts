@@ -135,6 +135,17 @@ export interface ResourceHandler {
    * @returns Installation path
    */
   getInstallPath(agent: AgentType, scope: Scope): string;
+
+  /**
+   * Get the path a single resource is installed to (optional).
+   * Handlers that merge resources into a shared file leave this out.
+   *
+   * @param name - Resource name
+   * @param agent - Agent type
+   * @param scope - Installation scope
+   * @returns Path of the resource's own file or directory
+   */
+  getTargetPath?(name: string, agent: AgentType, scope: Scope): string;
 }
 
 /**
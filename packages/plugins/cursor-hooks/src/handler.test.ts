@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { CursorHooksHandler } from './handler.js';
@@ -68,4 +68,31 @@ describe('CursorHooksHandler', () => {
       JSON.stringify({ hookType: 'onSave', command: 'echo second' }),
     );
   });
+
+  it('should only discover the hooks listed in fabric.json', async () => {
+    const sourceDir = join(testDir, 'source');
+    await mkdir(join(sourceDir, 'hooks'), { recursive: true });
+    await writeFile(
+      join(sourceDir, 'hooks', 'format.json'),
+      JSON.stringify({ hookType: 'onSave', command: 'prettier --write' }),
+    );
+    await writeFile(
+      join(sourceDir, 'package.json'),
+      JSON.stringify({ hookType: 'onSave', command: 'echo unlisted' }),
+    );
+    await writeFile(
+      join(sourceDir, 'fabric.json'),
+      JSON.stringify({
+        version: '1.0.0',
+        hooks: [{ path: 'hooks/format.json', name: 'format-on-save' }],
+      }),
+    );
+
+    const resources = await handler.discoverFromPath(sourceDir);
+
+    expect(resources).toHaveLength(1);
+    expect(resources[0].name).toBe('format-on-save');
+    expect(resources[0].version).toBe('1.0.0');
+    expect(resources[0].files[0].path).toBe('format.json');
+  });
 });
@@ -19,7 +19,11 @@ import type {
   ListResult,
   ListError,
 } from '@coding-agent-fabric/common';
-import { safeJoin } from '@coding-agent-fabric/common';
+import {
+  readSourceManifest,
+  safeJoin,
+  type SourceManifestEntry,
+} from '@coding-agent-fabric/common';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -57,33 +61,40 @@ export class CursorHooksHandler extends BaseResourceHandler {
       const hooksDir = source.localPath;
 
       try {
-        const entries = await fs.readdir(hooksDir, { withFileTypes: true });
-
-        for (const entry of entries) {
-          if (entry.isFile() && entry.name.endsWith('.json')) {
-            const hookPath = safeJoin(hooksDir, entry.name);
-            const content = await fs.readFile(hookPath, 'utf-8');
-            const hookConfig = JSON.parse(content);
-
-            // Validate it's a Cursor hook
-            if (this.isValidHookConfig(hookConfig)) {
-              resources.push({
-                type: this.type,
-                name: path.basename(entry.name, '.json'),
-                description: hookConfig.description || 'Cursor hook',
-                metadata: {
-                  hookType: hookConfig.hookType,
-                  filePattern: hookConfig.filePattern,
-                  description: hookConfig.description || 'Cursor hook',
-                } as Record<string, unknown>,
-                files: [
-                  {
-                    path: entry.name,
-                    content,
-                  },
-                ],
-              });
-            }
+        // A fabric.json manifest lists the hook files; otherwise every JSON file is a candidate
+        const manifest = await readSourceManifest(hooksDir);
+        const hookFiles: { file: string; entry?: SourceManifestEntry }[] = manifest
+          ? (manifest.hooks ?? []).map((entry) => ({ file: entry.path, entry }))
+          : (await fs.readdir(hooksDir, { withFileTypes: true }))
+              .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
+              .map((entry) => ({ file: entry.name }));
+
+        for (const { file, entry } of hookFiles) {
+          const hookPath = safeJoin(hooksDir, file);
+          const content = await fs.readFile(hookPath, 'utf-8');
+          const hookConfig = JSON.parse(content);
+
+          // Validate it's a Cursor hook
+          if (this.isValidHookConfig(hookConfig)) {
+            const description = entry?.description || hookConfig.description || 'Cursor hook';
+            resources.push({
+              type: this.type,
+              name: entry?.name || path.basename(file, '.json'),
+              version: entry?.version ?? manifest?.version,
+              description,
+              metadata: {
+                hookType: hookConfig.hookType,
+                filePattern: hookConfig.filePattern,
+                description,
+              } as Record<string, unknown>,
+              files: [
+                {
+                  path: path.basename(file),
+                  content,
+                },
+              ],
+              dependencies: entry?.dependencies,
+            });
           }
         }
       } catch (error) {
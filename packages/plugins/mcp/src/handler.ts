@@ -19,7 +19,11 @@ import type {
   ListResult,
   ListError,
 } from '@coding-agent-fabric/common';
-import { safeJoin } from '@coding-agent-fabric/common';
+import {
+  readSourceManifest,
+  safeJoin,
+  type SourceManifestEntry,
+} from '@coding-agent-fabric/common';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -79,47 +83,59 @@ export class MCPHandler extends BaseResourceHandler {
       const mcpDir = source.localPath;
 
       try {
-        const entries = await fs.readdir(mcpDir, { withFileTypes: true });
-
-        for (const entry of entries) {
-          if (entry.isFile() && entry.name.endsWith('.json')) {
-            const mcpPath = safeJoin(mcpDir, entry.name);
-            const content = await fs.readFile(mcpPath, 'utf-8');
-            const mcpConfig = JSON.parse(content);
-
-            // Parse MCP configuration
-            if (mcpConfig.mcpServers) {
-              for (const [serverName, serverConfigRaw] of Object.entries(mcpConfig.mcpServers)) {
-                const serverConfig = serverConfigRaw as {
-                  command?: string;
-                  args?: string[];
-                  env?: Record<string, string>;
-                  url?: string;
-                };
-                resources.push({
-                  type: this.type,
-                  name: serverName,
-                  description: `MCP server: ${serverName}`,
-                  metadata: {
-                    serverType: serverConfig.url ? 'sse' : 'stdio',
-                    command: serverConfig.command,
-                    args: serverConfig.args,
-                    env: serverConfig.env,
-                    url: serverConfig.url,
-                    description: `MCP server: ${serverName}`,
-                  } as Record<string, unknown>,
-                  files: [
-                    {
-                      path: `${serverName}.json`,
-                      content: JSON.stringify(
-                        { mcpServers: { [serverName]: serverConfig } },
-                        null,
-                        2,
-                      ),
-                    },
-                  ],
-                });
+        // A fabric.json manifest lists the MCP config files, optionally naming one server each;
+        // otherwise every JSON file is read
+        const manifest = await readSourceManifest(mcpDir);
+        const mcpFiles: { file: string; entry?: SourceManifestEntry }[] = manifest
+          ? (manifest.mcp ?? []).map((entry) => ({ file: entry.path, entry }))
+          : (await fs.readdir(mcpDir, { withFileTypes: true }))
+              .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
+              .map((entry) => ({ file: entry.name }));
+
+        for (const { file, entry } of mcpFiles) {
+          const mcpPath = safeJoin(mcpDir, file);
+          const content = await fs.readFile(mcpPath, 'utf-8');
+          const mcpConfig = JSON.parse(content);
+
+          // Parse MCP configuration
+          if (mcpConfig.mcpServers) {
+            for (const [serverName, serverConfigRaw] of Object.entries(mcpConfig.mcpServers)) {
+              if (entry?.name && entry.name !== serverName) {
+                continue;
               }
+              const serverConfig = serverConfigRaw as {
+                command?: string;
+                args?: string[];
+                env?: Record<string, string>;
+                url?: string;
+              };
+              const description = entry?.description || `MCP server: ${serverName}`;
+              resources.push({
+                type: this.type,
+                name: serverName,
+                version: entry?.version ?? manifest?.version,
+                description,
+                metadata: {
+                  serverType: serverConfig.url ? 'sse' : 'stdio',
+                  command: serverConfig.command,
+                  args: serverConfig.args,
+                  env: serverConfig.env,
+                  url: serverConfig.url,
+                  description,
+                  agents: entry?.agents,
+                } as Record<string, unknown>,
+                files: [
+                  {
+                    path: `${serverName}.json`,
+                    content: JSON.stringify(
+                      { mcpServers: { [serverName]: serverConfig } },
+                      null,
+                      2,
+                    ),
+                  },
+                ],
+                dependencies: entry?.dependencies,
+              });
             }
           }
         }